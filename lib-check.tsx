@@ -0,0 +1,33 @@
+// A consumer of the library build, type-checked against dist-lib by `npm run build:lib`
+// without this repo's global types, so the published declarations must stand on their own.
+import {
+	BARCODE_FORMATS,
+	BarcodeGenerator,
+	BarcodeScanner,
+	EncodeOptions,
+	ScannerScan,
+	defineBarcodeElements,
+	encode,
+	useBarcodeScanner,
+} from "barcode-toolkit";
+
+const options: EncodeOptions = { width: 2, height: 60, displayValue: false };
+const svg: string = encode("EAN13", "4006381333931", options).svg;
+const formats: string[] = BARCODE_FORMATS.map(format => format.value);
+
+defineBarcodeElements();
+document.querySelector("barcode-scanner")?.addEventListener("barcode-scan", event => {
+	const text: string = event.detail.text;
+	console.log(text, svg, formats);
+});
+
+export function Example({ onScan }: { onScan: (scan: ScannerScan) => void }) {
+	const { videoRef } = useBarcodeScanner({ formats: ["EAN_13"], onScan, settings: { region: "full" } });
+	return (
+		<>
+			<video ref={videoRef} />
+			<BarcodeScanner formats={["QR_CODE"]} settings={{ region: "guide" }} onScan={scan => onScan(scan)} />
+			<BarcodeGenerator format="EAN13" data="4006381333931" options={options} onEncode={barcode => console.log(barcode.svg)} />
+		</>
+	);
+}
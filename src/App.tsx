@@ -1,12 +1,16 @@
 // src\App.tsx
 import { Routes, Route } from "react-router";
 import EnhancedBarcodeToolkit from "@/widgets/BarcodeScanner/BarcodeTools";
+import RenderedBarcode from "@/widgets/BarcodeScanner/RenderedBarcode";
 
 function App() {
 	return (
 		<>
 			<Routes>
 				<Route index element={<EnhancedBarcodeToolkit />} />
+				{/* /generate, /scan, ...; unknown tabs open the generator */}
+				<Route path=":tab" element={<EnhancedBarcodeToolkit />} />
+				<Route path="render" element={<RenderedBarcode />} />
 			</Routes>
 		</>
 	);
@@ -0,0 +1,10 @@
+import Api from "@/apis/Api";
+
+export async function getCatalogProduct({ endpoint = "/products", field = "gtin", gtin }) {
+	const response = await Api.get(endpoint, {
+		filter: `${field}:${gtin}`,
+		page: "1,1",
+		loading: false,
+	});
+	return response;
+}
@@ -0,0 +1,29 @@
+import Api from "@/apis/Api";
+
+export async function getCountSessions({ search = "", page = "1,100", sort = "-updated_at" } = {}) {
+	const response = await Api.get("/count-sessions", {
+		search: search,
+		page: page,
+		sort: sort,
+	});
+	return response;
+}
+
+export async function saveCountSession({ body }) {
+	const response = await Api.post("/count-sessions", {
+		body: body,
+	});
+	return response;
+}
+
+export async function updateCountSession({ id, body }) {
+	const response = await Api.put(`/count-sessions/${id}`, {
+		body: body,
+	});
+	return response;
+}
+
+export async function getCountSession({ id }) {
+	const response = await Api.get(`/count-sessions/${id}`);
+	return response;
+}
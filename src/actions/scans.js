@@ -0,0 +1,26 @@
+import Api from "@/apis/Api";
+
+export async function findScan({ scanId }) {
+	const response = await Api.get("/scans", {
+		filter: `scan_id:${scanId}`,
+		page: "1,1",
+		loading: false,
+	});
+	return response;
+}
+
+export async function saveScan({ body }) {
+	const response = await Api.post("/scans", {
+		body: body,
+		loading: false,
+	});
+	return response;
+}
+
+export async function updateScan({ id, body }) {
+	const response = await Api.put(`/scans/${id}`, {
+		body: body,
+		loading: false,
+	});
+	return response;
+}
@@ -0,0 +1,9 @@
+import Api from "@/apis/Api";
+
+export async function sendWebhook({ url, method, headers, body }) {
+	const response = await Api.external(method, url, {
+		headers: headers,
+		body: body,
+	});
+	return response;
+}
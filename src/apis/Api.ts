@@ -146,6 +146,26 @@ const makeRequest = async (method: HttpMethod, endpoint: string, options: Reques
 	}
 };
 
+type ExternalRequestOptions = {
+	headers?: Record<string, string>;
+	body?: unknown;
+	// Milliseconds before the request is given up
+	timeout?: number;
+};
+
+// For endpoints outside FrontQL, such as webhooks: no app headers or tokens, and the
+// whole response is returned so callers can see the status
+const makeExternalRequest = async (method: string, url: string, options: ExternalRequestOptions = {}) => {
+	const { headers, body, timeout = 15000 } = options;
+
+	try {
+		return await axios({ method, url, headers, data: body, timeout });
+	} catch (error: any) {
+		console.error(`${method.toUpperCase()} ${url} Error:`, error.message);
+		throw error;
+	}
+};
+
 const Api = {
 	get: async (endpoint: string, options?: RequestOptions): Promise<any> => makeRequest("get", endpoint, options),
 	put: async (endpoint: string, options?: RequestOptions): Promise<any> => makeRequest("put", endpoint, options),
@@ -153,6 +173,8 @@ const Api = {
 	delete: async (endpoint: string, options?: RequestOptions): Promise<any> => makeRequest("delete", endpoint, options),
 	sql: async (endpoint: string, options?: RequestOptions): Promise<any> =>
 		makeRequest("post", `/sql-${endpoint.replace("/", "")}`, options),
+	external: async (method: string, url: string, options?: ExternalRequestOptions) =>
+		makeExternalRequest(method, url, options),
 };
 
 export default Api;
@@ -0,0 +1,86 @@
+import { serve, file, write } from "bun";
+
+// Stands in for the FrontQL dev server on the same port, keeping collections in a JSON file.
+// Supports GET/POST/PUT/DELETE on /:collection and /:collection/:id and the `filter` header as "field:value".
+// POST /webhooks records forwarded scans; add ?status=503 (or any code) to answer with that error instead.
+const port = 4466;
+const dataPath = "src/apis/mock-data.json";
+
+const CORS_HEADERS = {
+	"Access-Control-Allow-Origin": "*",
+	"Access-Control-Allow-Methods": "*",
+	"Access-Control-Allow-Headers": "*",
+	"Content-Type": "application/json",
+};
+
+const reply = (body, status = 200) => new Response(JSON.stringify(body), { status, headers: CORS_HEADERS });
+
+const dataFile = file(dataPath);
+const data = (await dataFile.exists()) ? await dataFile.json() : {};
+let nextId = Math.max(0, ...Object.values(data).flatMap(rows => rows.map(row => Number(row.id) || 0))) + 1;
+
+const save = () => write(dataPath, JSON.stringify(data, null, 2));
+
+function matchesFilter(row, filter) {
+	if (!filter) return true;
+	return filter.split(",").every(condition => {
+		const [field, ...rest] = condition.split(":");
+		return String(row[field.trim()] ?? "") === rest.join(":").trim();
+	});
+}
+
+serve({
+	port,
+	async fetch(req) {
+		if (req.method === "OPTIONS") {
+			return new Response("Departed", { headers: CORS_HEADERS });
+		}
+
+		const url = new URL(req.url);
+		const failStatus = Number(url.searchParams.get("status"));
+		if (failStatus >= 400) return reply({ err: `Failing with ${failStatus} as asked` }, failStatus);
+
+		const [collection, id] = url.pathname.split("/").filter(Boolean);
+		if (!collection) return reply({ err: "Collection is required" }, 404);
+
+		const rows = (data[collection] ??= []);
+		const index = id === undefined ? -1 : rows.findIndex(row => String(row.id) === id);
+		const bodyText = await req.text();
+		const body = bodyText ? JSON.parse(bodyText) : {};
+
+		switch (req.method) {
+			case "GET": {
+				if (id !== undefined) {
+					return index === -1 ? reply({ err: "Not found" }, 404) : reply({ result: rows[index] });
+				}
+				const result = rows.filter(row => matchesFilter(row, req.headers.get("filter")));
+				// "page,size" as sent by Api.get, e.g. "1,100"
+				const [page, size] = (url.searchParams.get("page") ?? "").split(",").map(Number);
+				const start = page > 0 && size > 0 ? (page - 1) * size : 0;
+				return reply({ result: result.slice(start, size > 0 ? start + size : undefined), count: result.length });
+			}
+			case "POST": {
+				const created = (Array.isArray(body) ? body : [body]).map(row => ({ ...row, id: nextId++ }));
+				rows.push(...created);
+				await save();
+				return reply({ result: Array.isArray(body) ? created : created[0] });
+			}
+			case "PUT": {
+				if (index === -1) return reply({ err: "Not found" }, 404);
+				rows[index] = { ...rows[index], ...body, id: rows[index].id };
+				await save();
+				return reply({ result: rows[index] });
+			}
+			case "DELETE": {
+				if (index === -1) return reply({ err: "Not found" }, 404);
+				const [removed] = rows.splice(index, 1);
+				await save();
+				return reply({ result: removed });
+			}
+			default:
+				return reply({ err: "Method not allowed" }, 405);
+		}
+	},
+});
+
+console.log(`mock frontql server is running on http://localhost:${port}`);
@@ -0,0 +1,52 @@
+// src/embed/BarcodeGenerator.tsx
+import React, { useEffect, useMemo, useRef } from 'react';
+import { EncodeOptions, EncodedBarcode, encode } from '../lib/barcode/encode';
+
+export type BarcodeGeneratorProps = {
+    // Generator format or label, e.g. "EAN13", "QR"
+    format: string,
+    data: string,
+    options?: EncodeOptions,
+    className?: string,
+    style?: React.CSSProperties,
+    onEncode?: (barcode: EncodedBarcode) => void,
+    onError?: (error: Error) => void
+};
+
+/** Inline SVG barcode that re-renders when its props change. Renders nothing for invalid data. */
+const BarcodeGenerator = ({ format, data, options, className, style, onEncode, onError }: BarcodeGeneratorProps) => {
+    // Report each result once, not on every render of the parent
+    const onEncodeRef = useRef(onEncode);
+    const onErrorRef = useRef(onError);
+    onEncodeRef.current = onEncode;
+    onErrorRef.current = onError;
+    // Options objects are usually created inline, so compare them by value
+    const optionsKey = JSON.stringify(options ?? {});
+
+    const result = useMemo(() => {
+        try {
+            return { barcode: encode(format, data, JSON.parse(optionsKey)), error: null };
+        } catch (err: any) {
+            return { barcode: null, error: err instanceof Error ? err : new Error(String(err)) };
+        }
+    }, [format, data, optionsKey]);
+
+    useEffect(() => {
+        if (result.barcode) onEncodeRef.current?.(result.barcode);
+        if (result.error) onErrorRef.current?.(result.error);
+    }, [result]);
+
+    if (!result.barcode) return null;
+
+    return (
+        <div
+            className={className}
+            style={{ display: 'inline-block', lineHeight: 0, ...style }}
+            role="img"
+            aria-label={result.barcode.data}
+            dangerouslySetInnerHTML={{ __html: result.barcode.svg }}
+        />
+    );
+};
+
+export default BarcodeGenerator;
@@ -0,0 +1,47 @@
+// src/embed/BarcodeScanner.tsx
+import React from 'react';
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS, GUIDE_REGION } from '../lib/barcode/camera';
+import { SCAN_SYMBOLOGIES } from '../lib/barcode/decode';
+import useBarcodeScanner, { ScannerScan } from '../lib/hooks/useBarcodeScanner';
+
+export type BarcodeScannerProps = {
+    // zxing symbology names to look for; every supported symbology by default
+    formats?: string[],
+    settings?: Partial<CameraSettings>,
+    className?: string,
+    style?: React.CSSProperties,
+    onScan: (scan: ScannerScan) => void,
+    onError?: (error: any) => void
+};
+
+/**
+ * Live camera view that reports every code it reads. The camera stops when it unmounts.
+ * Only the outlined guide area is decoded unless `settings.region` is "full".
+ */
+const BarcodeScanner = ({ formats = SCAN_SYMBOLOGIES, settings, className, style, onScan, onError }: BarcodeScannerProps) => {
+    const { videoRef } = useBarcodeScanner({ formats, settings, onScan, onError });
+    const region = settings?.region ?? DEFAULT_CAMERA_SETTINGS.region;
+
+    return (
+        <div className={className} style={{ position: 'relative', background: '#000', ...style }}>
+            <video ref={videoRef} style={{ display: 'block', width: '100%', height: 'auto' }} muted playsInline />
+            {region === 'guide' && (
+                <div
+                    style={{
+                        position: 'absolute',
+                        left: `${GUIDE_REGION.x * 100}%`,
+                        top: `${GUIDE_REGION.y * 100}%`,
+                        width: `${GUIDE_REGION.width * 100}%`,
+                        height: `${GUIDE_REGION.height * 100}%`,
+                        border: '3px solid #4f46e5',
+                        borderRadius: 12,
+                        boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.35)',
+                        pointerEvents: 'none',
+                    }}
+                />
+            )}
+        </div>
+    );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,215 @@
+import { BarcodeFormat } from "@zxing/library";
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS, GUIDE_REGION, MAX_SCAN_INTERVAL, MIN_SCAN_INTERVAL, openCamera } from "../lib/barcode/camera";
+import { SCAN_SYMBOLOGIES, createFrameReader, decodeVideoFrame } from "../lib/barcode/decode";
+import { EncodedBarcode, encode } from "../lib/barcode/encode";
+import { LINK_OPTION_PARAMS, parseGeneratorLink } from "../lib/barcode/links";
+import type { ScannerScan } from "../lib/hooks/useBarcodeScanner";
+
+export type BarcodeEncodeEvent = CustomEvent<EncodedBarcode>;
+export type BarcodeScanEvent = CustomEvent<ScannerScan>;
+export type BarcodeErrorEvent = CustomEvent<Error>;
+
+function toError(err: any) {
+	return err instanceof Error ? err : new Error(String(err?.message || err));
+}
+
+// --- <barcode-generator> ----------------------------------------------------
+
+/**
+ * <barcode-generator format="EAN13" data="4006381333931" w="2" h="80">
+ * Attributes use the same names as /generate links. Fires "barcode-encode" after
+ * every render and "barcode-error" when the data cannot be encoded.
+ */
+export class BarcodeGeneratorElement extends HTMLElement {
+	static observedAttributes = ["format", "data", ...LINK_OPTION_PARAMS];
+
+	barcode: EncodedBarcode | null = null;
+	private container: HTMLDivElement;
+	private renderQueued = false;
+
+	constructor() {
+		super();
+		const root = this.attachShadow({ mode: "open" });
+		root.innerHTML = "<style>:host { display: inline-block; line-height: 0; }</style>";
+		this.container = document.createElement("div");
+		this.container.setAttribute("part", "barcode");
+		root.append(this.container);
+	}
+
+	connectedCallback() {
+		this.queueRender();
+	}
+
+	attributeChangedCallback() {
+		this.queueRender();
+	}
+
+	// Setting several attributes in a row renders once
+	private queueRender() {
+		if (this.renderQueued) return;
+		this.renderQueued = true;
+		queueMicrotask(() => {
+			this.renderQueued = false;
+			this.render();
+		});
+	}
+
+	private render() {
+		const params = new URLSearchParams();
+		this.getAttributeNames().forEach(name => params.set(name, this.getAttribute(name) ?? ""));
+		const { options } = parseGeneratorLink(params);
+
+		try {
+			this.barcode = encode(this.getAttribute("format") ?? "", this.getAttribute("data") ?? "", options);
+			this.container.innerHTML = this.barcode.svg;
+			this.dispatchEvent(new CustomEvent("barcode-encode", { detail: this.barcode }));
+		} catch (err) {
+			this.barcode = null;
+			this.container.innerHTML = "";
+			this.dispatchEvent(new CustomEvent("barcode-error", { detail: toError(err) }));
+		}
+	}
+}
+
+// --- <barcode-scanner> ------------------------------------------------------
+
+/**
+ * <barcode-scanner formats="QR_CODE,EAN_13" region="full" interval="300">
+ * Opens the camera while it is in the document and fires "barcode-scan" for
+ * every code it reads, or "barcode-error" when the camera cannot be opened.
+ * Like the React component it decodes only the outlined guide area unless
+ * region="full" is set.
+ */
+export class BarcodeScannerElement extends HTMLElement {
+	static observedAttributes = ["formats", "device-id", "interval", "region"];
+
+	private video: HTMLVideoElement;
+	private guide: HTMLDivElement;
+	private stream: MediaStream | null = null;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	// Bumped on every restart so a camera that opens late is closed again
+	private generation = 0;
+
+	constructor() {
+		super();
+		const root = this.attachShadow({ mode: "open" });
+		root.innerHTML = `<style>
+			:host { display: block; position: relative; background: #000; }
+			video { display: block; width: 100%; height: auto; }
+			[part="guide"] {
+				position: absolute;
+				left: ${GUIDE_REGION.x * 100}%;
+				top: ${GUIDE_REGION.y * 100}%;
+				width: ${GUIDE_REGION.width * 100}%;
+				height: ${GUIDE_REGION.height * 100}%;
+				border: 3px solid #4f46e5;
+				border-radius: 12px;
+				box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.35);
+				pointer-events: none;
+			}
+		</style>`;
+		this.video = document.createElement("video");
+		this.video.muted = true;
+		this.video.playsInline = true;
+		this.video.setAttribute("part", "video");
+		this.guide = document.createElement("div");
+		this.guide.setAttribute("part", "guide");
+		root.append(this.video, this.guide);
+	}
+
+	connectedCallback() {
+		this.start();
+	}
+
+	disconnectedCallback() {
+		this.stop();
+	}
+
+	attributeChangedCallback() {
+		if (this.isConnected) this.start();
+	}
+
+	private getSettings(): Pick<CameraSettings, "deviceId" | "interval" | "region"> {
+		const interval = Number(this.getAttribute("interval"));
+		const region = this.getAttribute("region");
+		return {
+			deviceId: this.getAttribute("device-id") ?? DEFAULT_CAMERA_SETTINGS.deviceId,
+			interval: interval >= MIN_SCAN_INTERVAL && interval <= MAX_SCAN_INTERVAL ? interval : DEFAULT_CAMERA_SETTINGS.interval,
+			region: region === "full" || region === "guide" ? region : DEFAULT_CAMERA_SETTINGS.region,
+		};
+	}
+
+	private getFormats() {
+		const formats = (this.getAttribute("formats") ?? "")
+			.split(",")
+			.map(format => format.trim().toUpperCase())
+			.filter(format => format in BarcodeFormat);
+		return formats.length > 0 ? formats : SCAN_SYMBOLOGIES;
+	}
+
+	private async start() {
+		this.stop();
+		const generation = this.generation;
+		const { deviceId, interval, region } = this.getSettings();
+		// The area being decoded is always outlined
+		this.guide.hidden = region !== "guide";
+
+		try {
+			const stream = await openCamera(deviceId);
+			if (generation !== this.generation) {
+				stream.getTracks().forEach(track => track.stop());
+				return;
+			}
+			this.stream = stream;
+			this.video.srcObject = stream;
+			await this.video.play().catch(() => {});
+		} catch (err) {
+			if (generation !== this.generation) return;
+			this.dispatchEvent(new CustomEvent("barcode-error", { detail: toError(err) }));
+			return;
+		}
+
+		const track = this.stream.getVideoTracks()[0];
+		const reader = createFrameReader(this.getFormats().map(format => BarcodeFormat[format as keyof typeof BarcodeFormat]));
+		const canvas = document.createElement("canvas");
+		let searchStart = performance.now();
+
+		this.timer = setInterval(() => {
+			const scan = decodeVideoFrame(this.video, canvas, reader, region === "guide" ? GUIDE_REGION : undefined);
+			if (!scan?.text) return;
+
+			const now = performance.now();
+			const detail: ScannerScan = { ...scan, duration: Math.round(now - searchStart), camera: track?.label || undefined };
+			searchStart = now;
+			this.dispatchEvent(new CustomEvent("barcode-scan", { detail }));
+		}, interval);
+	}
+
+	private stop() {
+		this.generation++;
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+		this.stream?.getTracks().forEach(track => track.stop());
+		this.stream = null;
+		this.video.srcObject = null;
+	}
+}
+
+/** Registers <barcode-generator> and <barcode-scanner>; safe to call more than once. */
+export function defineBarcodeElements() {
+	if (!customElements.get("barcode-generator")) customElements.define("barcode-generator", BarcodeGeneratorElement);
+	if (!customElements.get("barcode-scanner")) customElements.define("barcode-scanner", BarcodeScannerElement);
+}
+
+declare global {
+	interface HTMLElementTagNameMap {
+		"barcode-generator": BarcodeGeneratorElement;
+		"barcode-scanner": BarcodeScannerElement;
+	}
+
+	interface HTMLElementEventMap {
+		"barcode-encode": BarcodeEncodeEvent;
+		"barcode-scan": BarcodeScanEvent;
+		"barcode-error": BarcodeErrorEvent;
+	}
+}
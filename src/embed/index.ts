@@ -0,0 +1,20 @@
+// Entry point of the library build (`npm run build:lib`), which writes dist-lib with its own
+// package.json. Everything reachable from here uses relative imports so the emitted type
+// declarations resolve outside this repo.
+export { encode } from "../lib/barcode/encode";
+export type { EncodeOptions, EncodedBarcode } from "../lib/barcode/encode";
+export type { RenderOptions } from "../lib/barcode/render";
+export { BARCODE_FORMATS } from "../lib/barcode/formats";
+export type { CameraSettings } from "../lib/barcode/camera";
+export type { DecodedBarcode } from "../lib/barcode/decode";
+
+export { default as useBarcodeScanner } from "../lib/hooks/useBarcodeScanner";
+export type { BarcodeScannerOptions, ScannerScan } from "../lib/hooks/useBarcodeScanner";
+
+export { default as BarcodeGenerator } from "./BarcodeGenerator";
+export type { BarcodeGeneratorProps } from "./BarcodeGenerator";
+export { default as BarcodeScanner } from "./BarcodeScanner";
+export type { BarcodeScannerProps } from "./BarcodeScanner";
+
+export { BarcodeGeneratorElement, BarcodeScannerElement, defineBarcodeElements } from "./elements";
+export type { BarcodeEncodeEvent, BarcodeErrorEvent, BarcodeScanEvent } from "./elements";
@@ -0,0 +1,133 @@
+import JSZip from "jszip";
+import { CsvRecord, parseCsvRecords } from "./csv";
+import { resolveFormat } from "./formats";
+import { sanitizeFilename } from "./download";
+import { renderBarcodeSvg, svgToPngBlob, RenderOptions, DEFAULT_RENDER_OPTIONS } from "./render";
+import { validateBarcodeInput, firstValidationError } from "./validation";
+
+export type BatchRow = {
+	line: number;
+	value: string;
+	format: string;
+	filename: string;
+	svg: string | null;
+	error: string | null;
+};
+
+export type BatchExportType = "svg" | "png";
+
+const VALUE_HEADERS = ["value", "data", "content", "code", "barcode", "sku"];
+const FORMAT_HEADERS = ["format", "type", "symbology"];
+const FILENAME_HEADERS = ["filename", "file", "name"];
+
+function detectDelimiter(line: string) {
+	const candidates = [",", ";", "\t"];
+	let best = "";
+	let bestCount = 0;
+	for (const delimiter of candidates) {
+		const count = line.split(delimiter).length - 1;
+		if (count > bestCount) {
+			best = delimiter;
+			bestCount = count;
+		}
+	}
+	return best;
+}
+
+function findColumn(header: string[], names: string[]) {
+	return header.findIndex(cell => names.includes(cell.toLowerCase()));
+}
+
+function uniqueFilename(base: string, used: Set<string>) {
+	let name = base;
+	let suffix = 2;
+	while (used.has(name)) {
+		name = `${base}_${suffix++}`;
+	}
+	used.add(name);
+	return name;
+}
+
+/**
+ * Parses a pasted list or CSV export into batch rows.
+ * Plain lists are one value per line. CSV input may carry a header row naming
+ * value/format/filename columns; without one, columns are read in that order.
+ */
+export function parseBatchInput(input: string, defaultFormat: string) {
+	const delimiter = detectDelimiter(input.trim().split(/\r?\n/)[0]);
+	// Plain lists are taken line by line as typed, quotes included
+	const records: CsvRecord[] = delimiter
+		? parseCsvRecords(input, delimiter)
+		: input
+				.split(/\r?\n/)
+				.map((text, index) => ({ line: index + 1, cells: [text] }))
+				.filter(({ cells }) => cells[0].trim() !== "");
+
+	if (records.length === 0) return [];
+
+	let valueColumn = 0;
+	let formatColumn = delimiter ? 1 : -1;
+	let filenameColumn = delimiter ? 2 : -1;
+
+	const trimCells = (cells: string[]) => (delimiter ? cells.map(cell => cell.trim()) : cells);
+	const header = trimCells(records[0].cells);
+	const headerValueColumn = findColumn(header, VALUE_HEADERS);
+	if (headerValueColumn !== -1) {
+		valueColumn = headerValueColumn;
+		formatColumn = findColumn(header, FORMAT_HEADERS);
+		filenameColumn = findColumn(header, FILENAME_HEADERS);
+		records.shift();
+	}
+
+	const usedFilenames = new Set<string>();
+
+	return records.map(({ cells, line }): BatchRow => {
+		const fields = trimCells(cells);
+		const value = fields[valueColumn] ?? "";
+		const rawFormat = formatColumn !== -1 ? fields[formatColumn] ?? "" : "";
+		const rawFilename = filenameColumn !== -1 ? fields[filenameColumn] ?? "" : "";
+
+		const format = rawFormat ? resolveFormat(rawFormat) : defaultFormat;
+		const filename = uniqueFilename(sanitizeFilename(rawFilename || value, 60) || `barcode_${line}`, usedFilenames);
+
+		if (!value) {
+			return { line, value, format: format || rawFormat, filename, svg: null, error: "Missing value" };
+		}
+		if (!format) {
+			return { line, value, format: rawFormat, filename, svg: null, error: `Unknown format "${rawFormat}"` };
+		}
+
+		return { line, value, format, filename, svg: null, error: null };
+	});
+}
+
+export function renderBatchRows(rows: BatchRow[], options: RenderOptions = DEFAULT_RENDER_OPTIONS) {
+	return rows.map(row => {
+		if (row.error) return row;
+
+		const validationError = firstValidationError(validateBarcodeInput(row.value, row.format));
+		if (validationError) return { ...row, error: validationError };
+
+		try {
+			return { ...row, svg: renderBarcodeSvg(row.value, row.format, options), error: null };
+		} catch (err: any) {
+			return { ...row, svg: null, error: err?.message || String(err) };
+		}
+	});
+}
+
+export async function createBatchZip(rows: BatchRow[], type: BatchExportType) {
+	const zip = new JSZip();
+
+	for (const row of rows) {
+		if (!row.svg) continue;
+
+		if (type === "svg") {
+			zip.file(`${row.filename}.svg`, row.svg);
+		} else {
+			zip.file(`${row.filename}.png`, await svgToPngBlob(row.svg));
+		}
+	}
+
+	return zip.generateAsync({ type: "blob" });
+}
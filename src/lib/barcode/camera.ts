@@ -0,0 +1,129 @@
+export type DecodeRegion = "full" | "guide";
+
+export type CameraSettings = {
+	// Empty picks the rear camera by facing mode
+	deviceId: string;
+	torch: boolean;
+	// Null keeps the camera's own zoom
+	zoom: number | null;
+	// "continuous", "single-shot" or "manual"; empty keeps the camera default
+	focusMode: string;
+	// Used with manual focus, in the units the camera reports (usually dioptres)
+	focusDistance: number | null;
+	// Milliseconds between decode attempts
+	interval: number;
+	region: DecodeRegion;
+};
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+	deviceId: "",
+	torch: false,
+	zoom: null,
+	focusMode: "",
+	focusDistance: null,
+	interval: 500,
+	region: "guide",
+};
+
+export const MIN_SCAN_INTERVAL = 100;
+export const MAX_SCAN_INTERVAL = 2000;
+
+/** The on-screen guide box as fractions of the video frame; only this area is decoded in "guide" mode. */
+export const GUIDE_REGION = { x: 0.1, y: 0.2, width: 0.8, height: 0.6 };
+
+export type CameraRange = { min: number; max: number; step: number };
+
+export type CameraFeatures = {
+	torch: boolean;
+	zoom: CameraRange | null;
+	focusModes: string[];
+	focusDistance: CameraRange | null;
+};
+
+// Image capture constraints are not in the DOM typings yet
+type ImageTrackCapabilities = MediaTrackCapabilities & {
+	torch?: boolean;
+	zoom?: Partial<CameraRange>;
+	focusMode?: string[];
+	focusDistance?: Partial<CameraRange>;
+};
+
+type ImageTrackConstraints = MediaTrackConstraintSet & {
+	torch?: boolean;
+	zoom?: number;
+	focusMode?: string;
+	focusDistance?: number;
+};
+
+export const NO_CAMERA_FEATURES: CameraFeatures = { torch: false, zoom: null, focusModes: [], focusDistance: null };
+
+function toRange(range: Partial<CameraRange> | undefined): CameraRange | null {
+	if (!range || range.min === undefined || range.max === undefined || range.min >= range.max) return null;
+	return { min: range.min, max: range.max, step: range.step || (range.max - range.min) / 100 };
+}
+
+function clamp(value: number, range: CameraRange) {
+	return Math.min(Math.max(value, range.min), range.max);
+}
+
+/** Video inputs; labels are only filled in once the user has granted camera access. */
+export async function listCameras() {
+	if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+	const devices = await navigator.mediaDevices.enumerateDevices();
+	return devices.filter(device => device.kind === "videoinput" && device.deviceId);
+}
+
+function isMissingCamera(err: unknown) {
+	return err instanceof DOMException && (err.name === "OverconstrainedError" || err.name === "NotFoundError");
+}
+
+/** Opens the chosen camera, falling back to the rear camera if it has been unplugged since. */
+export async function openCamera(deviceId: string) {
+	if (!navigator.mediaDevices?.getUserMedia) {
+		throw new Error("Camera access is not supported in this browser.");
+	}
+
+	const size = { width: { ideal: 1280 }, height: { ideal: 720 } };
+	if (deviceId) {
+		try {
+			return await navigator.mediaDevices.getUserMedia({ video: { ...size, deviceId: { exact: deviceId } }, audio: false });
+		} catch (err) {
+			if (!isMissingCamera(err)) throw err;
+		}
+	}
+
+	return navigator.mediaDevices.getUserMedia({ video: { ...size, facingMode: "environment" }, audio: false });
+}
+
+/** What the track lets us control. Browsers without getCapabilities (Firefox) report nothing. */
+export function getCameraFeatures(track: MediaStreamTrack): CameraFeatures {
+	if (typeof track.getCapabilities !== "function") return NO_CAMERA_FEATURES;
+
+	const capabilities = track.getCapabilities() as ImageTrackCapabilities;
+	return {
+		torch: Boolean(capabilities.torch),
+		zoom: toRange(capabilities.zoom),
+		focusModes: capabilities.focusMode ?? [],
+		focusDistance: toRange(capabilities.focusDistance),
+	};
+}
+
+export type TrackControls = Pick<CameraSettings, "torch" | "zoom" | "focusMode" | "focusDistance">;
+
+/** Applies the controls the track supports; the rest are ignored. */
+export async function applyCameraSettings(track: MediaStreamTrack, settings: TrackControls, features: CameraFeatures) {
+	const constraints: ImageTrackConstraints = {};
+
+	if (features.torch) constraints.torch = settings.torch;
+	if (features.zoom && settings.zoom !== null) constraints.zoom = clamp(settings.zoom, features.zoom);
+	if (settings.focusMode && features.focusModes.includes(settings.focusMode)) {
+		constraints.focusMode = settings.focusMode;
+		if (settings.focusMode === "manual" && features.focusDistance && settings.focusDistance !== null) {
+			constraints.focusDistance = clamp(settings.focusDistance, features.focusDistance);
+		}
+	}
+
+	if (Object.keys(constraints).length === 0) return;
+	await track.applyConstraints({ advanced: [constraints] });
+}
@@ -0,0 +1,229 @@
+import { getCatalogProduct } from "@/actions/catalog";
+import { apiRows } from "@/lib/utils";
+import { parseGs1 } from "./gs1";
+import { computeGs1CheckDigit, expandUpcE } from "./gtin";
+import { parseCsv } from "./csv";
+import { CATALOG_STORE, LOOKUP_STORE, withStore } from "./storage";
+
+export type Product = {
+	// Always stored as GTIN-14 so EAN-13, UPC-A and GTIN-14 spellings match
+	gtin: string;
+	name: string;
+	image?: string;
+	price?: number;
+	currency?: string;
+	stock?: number;
+};
+
+export type CatalogSource = "off" | "api" | "local";
+
+export type CatalogSettings = {
+	source: CatalogSource;
+	// FrontQL collection path and the column holding the GTIN
+	endpoint: string;
+	field: string;
+	// How long a lookup, found or not, is reused before asking again
+	cacheHours: number;
+	// Bumped when the local catalog or the cache changes, so shown lookups are redone
+	revision: number;
+};
+
+export const DEFAULT_CATALOG_SETTINGS: CatalogSettings = {
+	source: "off",
+	endpoint: "/products",
+	field: "gtin",
+	cacheHours: 24,
+	revision: 0,
+};
+
+export type LookupResult = { status: "found"; product: Product } | { status: "unknown" };
+
+export type ProductLookup = LookupResult | { status: "loading" } | { status: "error"; message: string };
+
+type CachedLookup = {
+	gtin: string;
+	// Where the answer came from; it is only reused for the same catalog
+	source: CatalogSource;
+	endpoint: string;
+	field: string;
+	product: Product | null;
+	fetchedAt: number;
+};
+
+// --- GTINs ------------------------------------------------------------------
+
+const GTIN_SYMBOLOGIES = ["EAN_13", "EAN_8", "UPC_A", "UPC_E"];
+
+export function isValidGtin(digits: string) {
+	return /^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(digits) && computeGs1CheckDigit(digits.slice(0, -1)) === digits[digits.length - 1];
+}
+
+/** Pads a GTIN-8/12/13 to GTIN-14, or returns null if it is not a valid GTIN. */
+export function normalizeGtin(value: string) {
+	const digits = value.trim();
+	return isValidGtin(digits) ? digits.padStart(14, "0") : null;
+}
+
+/** The GTIN-14 a scan refers to: a retail code, or AI (01) in GS1 data. */
+export function getScanGtin(result: Pick<ScanResult, "text" | "format">) {
+	if (result.format && GTIN_SYMBOLOGIES.includes(result.format)) {
+		const text = result.format === "UPC_E" ? expandUpcE(result.text) : result.text;
+		return text ? normalizeGtin(text) : null;
+	}
+
+	const gtin = parseGs1(result.text, result.format)?.elements.find(element => element.ai === "01");
+	if (gtin) return normalizeGtin(gtin.value);
+
+	// Codes read without a symbology, e.g. typed in or imported
+	return !result.format && /^\d{8,14}$/.test(result.text) ? normalizeGtin(result.text) : null;
+}
+
+/** Shortest usual spelling: EAN-13 for GTIN-14s starting with 0, EAN-8 for padded EAN-8s. */
+export function displayGtin(gtin: string) {
+	if (gtin.startsWith("000000")) return gtin.slice(6);
+	return gtin.startsWith("0") ? gtin.slice(1) : gtin;
+}
+
+// --- Catalog files ----------------------------------------------------------
+
+const FIELD_ALIASES: Record<keyof Product, string[]> = {
+	gtin: ["gtin", "ean", "upc", "barcode", "code"],
+	name: ["name", "title", "product", "description"],
+	image: ["image", "image_url", "imageurl", "picture", "thumbnail"],
+	price: ["price", "unit_price"],
+	currency: ["currency"],
+	stock: ["stock", "quantity", "qty", "on_hand"],
+};
+
+function pick(entry: Record<string, unknown>, key: keyof Product) {
+	const lower = Object.fromEntries(Object.entries(entry).map(([k, v]) => [k.trim().toLowerCase(), v]));
+	const alias = FIELD_ALIASES[key].find(name => lower[name] !== undefined && lower[name] !== "");
+	return alias ? lower[alias] : undefined;
+}
+
+function toNumber(value: unknown) {
+	if (value === undefined || value === null || value === "") return undefined;
+	const number = typeof value === "number" ? value : Number(String(value).replace(/[^\d.-]/g, ""));
+	return Number.isFinite(number) ? number : undefined;
+}
+
+/** Maps a catalog row with any of the usual column names to a product, or null without a valid GTIN. */
+export function toProduct(entry: Record<string, unknown>): Product | null {
+	const gtin = normalizeGtin(String(pick(entry, "gtin") ?? ""));
+	if (!gtin) return null;
+
+	const image = pick(entry, "image");
+	const currency = pick(entry, "currency");
+	const price = toNumber(pick(entry, "price"));
+	const stock = toNumber(pick(entry, "stock"));
+
+	return {
+		gtin,
+		name: String(pick(entry, "name") ?? ""),
+		...(image && { image: String(image) }),
+		...(price !== undefined && { price }),
+		...(currency && { currency: String(currency) }),
+		...(stock !== undefined && { stock }),
+	};
+}
+
+/** Reads a JSON array (or `{ products: [...] }`) or a CSV file with a header row. */
+export function parseCatalogFile(input: string) {
+	const trimmed = input.trim();
+	let entries: Record<string, unknown>[];
+
+	if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+		const data = JSON.parse(trimmed);
+		entries = Array.isArray(data) ? data : data.products;
+		if (!Array.isArray(entries)) {
+			throw new Error("JSON file does not contain a product list.");
+		}
+	} else {
+		const [header, ...rows] = parseCsv(trimmed);
+		if (!header) return [];
+
+		const columns = header.map(cell => cell.trim().toLowerCase());
+		entries = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+	}
+
+	const products = entries.map(toProduct).filter((product): product is Product => product !== null);
+	if (entries.length > 0 && products.length === 0) {
+		throw new Error("No rows with a valid GTIN, EAN or UPC column were found.");
+	}
+	return products;
+}
+
+// --- Storage ----------------------------------------------------------------
+
+export async function countCatalogProducts() {
+	return withStore<number>(CATALOG_STORE, "readonly", store => store.count());
+}
+
+/** Replaces the local catalog; cached lookups are dropped since they may be out of date. */
+export async function replaceCatalog(products: Product[]) {
+	await withStore(CATALOG_STORE, "readwrite", store => {
+		store.clear();
+		products.forEach(product => store.put(product));
+	});
+	await clearLookupCache();
+}
+
+export function clearLookupCache() {
+	return withStore(LOOKUP_STORE, "readwrite", store => store.clear());
+}
+
+// --- Lookup -----------------------------------------------------------------
+
+function findApiProduct(response: unknown, gtin: string) {
+	return apiRows(response).map(toProduct).find(product => product?.gtin === gtin) ?? null;
+}
+
+async function fetchProduct(gtin: string, settings: CatalogSettings) {
+	if (settings.source === "local") {
+		return (await withStore<Product | undefined>(CATALOG_STORE, "readonly", store => store.get(gtin))) ?? null;
+	}
+
+	// Catalogs usually store the 13 digit form; the 14 digit one is only used for cases
+	const response = await getCatalogProduct({ endpoint: settings.endpoint, field: settings.field, gtin: displayGtin(gtin) });
+	return findApiProduct(response, gtin);
+}
+
+/**
+ * Looks a GTIN-14 up in the configured catalog. Answers, including "unknown",
+ * are cached for `cacheHours` and only reused while the source, endpoint and
+ * field stay the same; failed requests are not cached and throw.
+ */
+export async function lookupProduct(gtin: string, settings: CatalogSettings): Promise<LookupResult> {
+	const cached = await withStore<CachedLookup | undefined>(LOOKUP_STORE, "readonly", store => store.get(gtin));
+	const maxAge = settings.cacheHours * 60 * 60 * 1000;
+	const { source, endpoint, field } = settings;
+
+	let product: Product | null;
+	if (
+		cached &&
+		cached.source === source &&
+		cached.endpoint === endpoint &&
+		cached.field === field &&
+		Date.now() - cached.fetchedAt < maxAge
+	) {
+		product = cached.product;
+	} else {
+		product = await fetchProduct(gtin, settings);
+		const entry: CachedLookup = { gtin, source, endpoint, field, product, fetchedAt: Date.now() };
+		await withStore(LOOKUP_STORE, "readwrite", store => store.put(entry));
+	}
+
+	return product ? { status: "found", product } : { status: "unknown" };
+}
+
+export function formatPrice(product: Product) {
+	if (product.price === undefined) return null;
+	if (!product.currency) return product.price.toFixed(2);
+
+	try {
+		return new Intl.NumberFormat(undefined, { style: "currency", currency: product.currency }).format(product.price);
+	} catch {
+		// Not an ISO currency code, e.g. "EUR " with a space or a symbol
+		return `${product.price.toFixed(2)} ${product.currency}`;
+	}
+}
@@ -0,0 +1,66 @@
+export function csvField(value: string) {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export type CsvRecord = {
+	// 1-based line the record starts on
+	line: number;
+	cells: string[];
+};
+
+/**
+ * Splits CSV text into records of cells. Quoted fields may contain the delimiter,
+ * "" escapes and line breaks; blank rows are dropped.
+ */
+export function parseCsvRecords(input: string, delimiter = ",") {
+	const records: CsvRecord[] = [];
+	let row: string[] = [];
+	let field = "";
+	let inQuotes = false;
+	let line = 1;
+	let rowLine = 1;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+		if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && input[i + 1] === "\n") {
+				i++;
+				line++;
+			}
+			row.push(field);
+			records.push({ line: rowLine, cells: row });
+			row = [];
+			field = "";
+			rowLine = line;
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		records.push({ line: rowLine, cells: row });
+	}
+
+	return records.filter(record => record.cells.some(cell => cell.trim()));
+}
+
+/** Splits CSV text into rows of cells. Quoted fields may span lines; blank rows are dropped. */
+export function parseCsv(input: string, delimiter = ",") {
+	return parseCsvRecords(input, delimiter).map(record => record.cells);
+}
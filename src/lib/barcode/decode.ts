@@ -0,0 +1,331 @@
+import {
+	BarcodeFormat,
+	BinaryBitmap,
+	DecodeHintType,
+	HybridBinarizer,
+	MultiFormatReader,
+	RGBLuminanceSource,
+	Result,
+} from "@zxing/library";
+
+export type DecodedPoint = { x: number; y: number };
+
+export type DecodedBarcode = {
+	text: string;
+	// zxing symbology name, e.g. "EAN_13"
+	format: string;
+	// Hex encoded codewords; linear symbologies have none
+	rawBytes?: string;
+	points: DecodedPoint[];
+	page?: number;
+	// Milliseconds spent finding the code
+	duration?: number;
+};
+
+export type DecodeProgress = {
+	page: number;
+	pageCount: number;
+};
+
+/** zxing symbologies the camera can read, 1D first. */
+export const SCAN_SYMBOLOGIES = [
+	"EAN_13",
+	"EAN_8",
+	"UPC_A",
+	"UPC_E",
+	"CODE_128",
+	"CODE_39",
+	"CODE_93",
+	"CODABAR",
+	"ITF",
+	"RSS_14",
+	"RSS_EXPANDED",
+	"QR_CODE",
+	"DATA_MATRIX",
+	"PDF_417",
+	"AZTEC",
+];
+
+const MAX_BARCODES_PER_IMAGE = 25;
+// Larger images are downscaled first; zxing gains little above this and memory use grows fast
+const MAX_IMAGE_SIDE = 3000;
+// Render PDF pages at 200 dpi (PDF user space is 72 units per inch)
+const PDF_RENDER_SCALE = 200 / 72;
+// Longest side of the preview kept with results from a pasted image
+const THUMBNAIL_SIDE = 160;
+
+function createCanvas(width: number, height: number) {
+	const canvas = document.createElement("canvas");
+	canvas.width = width;
+	canvas.height = height;
+	return canvas;
+}
+
+function getContext(canvas: HTMLCanvasElement) {
+	const context = canvas.getContext("2d", { willReadFrequently: true });
+	if (!context) throw new Error("Canvas is not supported in this browser.");
+	return context;
+}
+
+// Transparent pixels are treated as white, as they would appear on paper
+function toLuminance(data: Uint8ClampedArray) {
+	const luminance = new Uint8ClampedArray(data.length / 4);
+	for (let i = 0, j = 0; i < data.length; i += 4, j++) {
+		const alpha = data[i + 3] / 255;
+		const gray = (data[i] * 306 + data[i + 1] * 601 + data[i + 2] * 117) >> 10;
+		luminance[j] = gray * alpha + 255 * (1 - alpha);
+	}
+	return luminance;
+}
+
+function decodeOnce(reader: MultiFormatReader, context: CanvasRenderingContext2D): Result | null {
+	const { width, height } = context.canvas;
+	const luminance = toLuminance(context.getImageData(0, 0, width, height).data);
+	const source = new RGBLuminanceSource(luminance, width, height, width, height, 0, 0);
+
+	try {
+		return reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(source)));
+	} catch {
+		// zxing signals "nothing found" by throwing NotFoundException
+		return null;
+	} finally {
+		reader.reset();
+	}
+}
+
+function toHex(bytes: Uint8Array | null) {
+	if (!bytes || bytes.length === 0) return undefined;
+	return Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function describeResult(result: Result): DecodedBarcode {
+	return {
+		text: result.getText(),
+		format: BarcodeFormat[result.getBarcodeFormat()],
+		rawBytes: toHex(result.getRawBytes()),
+		points: result.getResultPoints().map(p => ({ x: p.getX(), y: p.getY() })),
+	};
+}
+
+function boundingBox(points: DecodedPoint[]) {
+	const xs = points.map(p => p.x);
+	const ys = points.map(p => p.y);
+	return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+}
+
+/**
+ * Paints over a found symbol so the next pass finds a different one. Linear
+ * symbols only report points along the scan line, so the mask is grown
+ * vertically in proportion to the symbol width; growth doubles on each retry.
+ */
+function maskSymbol(context: CanvasRenderingContext2D, points: DecodedPoint[], growth: number) {
+	const { minX, maxX, minY, maxY } = boundingBox(points);
+	const width = Math.max(maxX - minX, 10);
+	const padX = width * 0.15 * growth;
+	const padY = Math.max(maxY - minY, width * 0.6) * 0.5 * growth;
+
+	context.fillStyle = "#ffffff";
+	context.fillRect(minX - padX, minY - padY, width + padX * 2, maxY - minY + padY * 2);
+}
+
+function isInside(point: DecodedPoint, points: DecodedPoint[]) {
+	const { minX, maxX, minY, maxY } = boundingBox(points);
+	return point.x >= minX && point.x <= maxX && point.y >= minY && point.y <= maxY;
+}
+
+function center(points: DecodedPoint[]) {
+	const { minX, maxX, minY, maxY } = boundingBox(points);
+	return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+}
+
+/** Finds every barcode on the canvas. The canvas is modified while decoding. */
+export function decodeCanvas(canvas: HTMLCanvasElement): DecodedBarcode[] {
+	const context = getContext(canvas);
+	const reader = new MultiFormatReader();
+	// ASSUME_GS1 keeps FNC1 in GS1-128 as the "]C1" prefix and GS separators
+	reader.setHints(new Map<DecodeHintType, unknown>([
+		[DecodeHintType.TRY_HARDER, true],
+		[DecodeHintType.ASSUME_GS1, true],
+	]));
+
+	const found: DecodedBarcode[] = [];
+	let growth = 1;
+	let started = performance.now();
+
+	for (let attempt = 0; attempt < MAX_BARCODES_PER_IMAGE * 2 && found.length < MAX_BARCODES_PER_IMAGE; attempt++) {
+		const result = decodeOnce(reader, context);
+		if (!result) break;
+
+		const decoded = describeResult(result);
+		if (decoded.points.length === 0) break;
+
+		// The same symbol again means the previous mask was too small
+		const previous = found.find(f => f.text === decoded.text && isInside(center(decoded.points), f.points));
+		if (previous) {
+			growth *= 2;
+		} else {
+			const now = performance.now();
+			found.push({ ...decoded, duration: Math.round(now - started) });
+			started = now;
+			growth = 1;
+		}
+		maskSymbol(context, decoded.points, growth);
+	}
+
+	return found;
+}
+
+export type FrameRegion = { x: number; y: number; width: number; height: number };
+
+/** A reader for repeated camera frames, limited to the given zxing formats. */
+export function createFrameReader(formats: BarcodeFormat[]) {
+	const reader = new MultiFormatReader();
+	reader.setHints(new Map<DecodeHintType, unknown>([
+		[DecodeHintType.POSSIBLE_FORMATS, formats],
+		[DecodeHintType.ASSUME_GS1, true],
+	]));
+	return reader;
+}
+
+/** Decodes one code from the whole canvas with a reader from createFrameReader. */
+export function decodeCanvasOnce(canvas: HTMLCanvasElement, reader: MultiFormatReader): DecodedBarcode | null {
+	const result = decodeOnce(reader, getContext(canvas));
+	return result ? describeResult(result) : null;
+}
+
+/**
+ * Decodes one code from the current video frame. `region` is a fraction of the
+ * frame to look in; points are returned in full-frame video pixels.
+ */
+export function decodeVideoFrame(
+	video: HTMLVideoElement,
+	canvas: HTMLCanvasElement,
+	reader: MultiFormatReader,
+	region?: FrameRegion,
+): DecodedBarcode | null {
+	const { videoWidth, videoHeight } = video;
+	if (!videoWidth || !videoHeight) return null;
+
+	const { x, y, width, height } = region ?? { x: 0, y: 0, width: 1, height: 1 };
+	const left = Math.round(videoWidth * x);
+	const top = Math.round(videoHeight * y);
+	canvas.width = Math.round(videoWidth * width);
+	canvas.height = Math.round(videoHeight * height);
+
+	const context = getContext(canvas);
+	context.drawImage(video, left, top, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+
+	const result = decodeOnce(reader, context);
+	if (!result) return null;
+
+	const decoded = describeResult(result);
+	return { ...decoded, points: decoded.points.map(p => ({ x: p.x + left, y: p.y + top })) };
+}
+
+function drawScaled(source: CanvasImageSource, width: number, height: number) {
+	const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(width, height));
+	const canvas = createCanvas(Math.round(width * scale), Math.round(height * scale));
+	const context = getContext(canvas);
+
+	context.fillStyle = "#ffffff";
+	context.fillRect(0, 0, canvas.width, canvas.height);
+	context.drawImage(source, 0, 0, canvas.width, canvas.height);
+	return canvas;
+}
+
+export async function imageToCanvas(image: Blob) {
+	const bitmap = await createImageBitmap(image);
+	try {
+		return drawScaled(bitmap, bitmap.width, bitmap.height);
+	} finally {
+		bitmap.close();
+	}
+}
+
+export async function decodeImage(image: Blob) {
+	return decodeCanvas(await imageToCanvas(image));
+}
+
+/** Small JPEG data URL of the canvas, cheap enough to store with every scan. */
+export function createThumbnail(canvas: HTMLCanvasElement) {
+	const scale = Math.min(1, THUMBNAIL_SIDE / Math.max(canvas.width, canvas.height));
+	const thumbnail = createCanvas(Math.round(canvas.width * scale), Math.round(canvas.height * scale));
+	getContext(thumbnail).drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+	return thumbnail.toDataURL("image/jpeg", 0.8);
+}
+
+/** Decodes every barcode in the image and returns a thumbnail of it to show next to the results. */
+export async function decodeImageWithThumbnail(image: Blob) {
+	const canvas = await imageToCanvas(image);
+	// Taken first, decoding paints over the symbols it finds
+	const thumbnail = createThumbnail(canvas);
+	return { results: decodeCanvas(canvas), thumbnail };
+}
+
+export async function decodePdf(file: Blob, onProgress?: (progress: DecodeProgress) => void) {
+	// pdf.js is large, so it is only fetched when a PDF is actually scanned
+	const [{ getDocument, GlobalWorkerOptions }, { default: workerUrl }] = await Promise.all([
+		import("pdfjs-dist"),
+		import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+	]);
+	GlobalWorkerOptions.workerSrc = workerUrl;
+
+	const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+	const results: DecodedBarcode[] = [];
+
+	try {
+		for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+			onProgress?.({ page: pageNumber, pageCount: pdf.numPages });
+
+			const page = await pdf.getPage(pageNumber);
+			const unscaled = page.getViewport({ scale: 1 });
+			const scale = Math.min(PDF_RENDER_SCALE, MAX_IMAGE_SIDE / Math.max(unscaled.width, unscaled.height));
+			const viewport = page.getViewport({ scale });
+			const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+			await page.render({ canvas, canvasContext: getContext(canvas), viewport }).promise;
+			page.cleanup();
+
+			results.push(...decodeCanvas(canvas).map(result => ({ ...result, page: pageNumber })));
+		}
+	} finally {
+		await pdf.destroy();
+	}
+
+	return results;
+}
+
+export function isPdfFile(file: File) {
+	return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+}
+
+export async function decodeFile(file: File, onProgress?: (progress: DecodeProgress) => void) {
+	if (isPdfFile(file)) {
+		return decodePdf(file, onProgress);
+	}
+
+	onProgress?.({ page: 1, pageCount: 1 });
+	return decodeImage(file);
+}
+
+/** The image in a paste event's clipboard data, or null if it holds none. */
+export function getPastedImage(data: DataTransfer | null) {
+	const item = Array.from(data?.items ?? []).find(entry => entry.kind === "file" && entry.type.startsWith("image/"));
+	return item?.getAsFile() ?? null;
+}
+
+/**
+ * Reads an image with the async Clipboard API; null when the clipboard holds no
+ * image. Throws when the browser lacks the API or the user denies access.
+ */
+export async function readClipboardImage(): Promise<Blob | null> {
+	if (!navigator.clipboard?.read) {
+		throw new Error("This browser cannot read images from the clipboard. Press Ctrl+V (⌘V) instead.");
+	}
+
+	for (const item of await navigator.clipboard.read()) {
+		const type = item.types.find(entry => entry.startsWith("image/"));
+		if (type) return item.getType(type);
+	}
+	return null;
+}
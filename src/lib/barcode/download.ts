@@ -0,0 +1,19 @@
+export function sanitizeFilename(value: string, maxLength = 20) {
+	return value.replace(/[^a-zA-Z0-9]/g, "_").substring(0, maxLength);
+}
+
+export function downloadUrl(href: string, filename: string) {
+	const link = document.createElement("a");
+	link.href = href;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+	const url = URL.createObjectURL(blob);
+	downloadUrl(url, filename);
+	// Revoke on the next tick so the browser has started the download
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
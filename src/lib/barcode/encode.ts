@@ -0,0 +1,47 @@
+import { resolveFormat } from "./formats";
+import { DEFAULT_RENDER_OPTIONS, RenderOptions, getSvgSize, rasterizeSvg, renderBarcodeSvg, svgToDataUrl } from "./render";
+import { firstValidationError, validateBarcodeInput } from "./validation";
+
+export type EncodeOptions = Partial<RenderOptions>;
+
+export type EncodedBarcode = {
+	// Generator format the data was encoded in, e.g. "EAN13"
+	format: string;
+	data: string;
+	svg: string;
+	// Intrinsic size in CSS pixels
+	width: number;
+	height: number;
+	toDataUrl: () => string;
+	// Raster copy; scale 2 gives a sharp image on high density screens
+	toCanvas: (scale?: number) => Promise<HTMLCanvasElement>;
+};
+
+/**
+ * Encodes data as a barcode without any UI. `format` is a generator format or its
+ * label ("EAN13", "EAN-13", "qr"); options not given use the generator defaults.
+ * Throws with the same message the generator shows when the data is not valid
+ * for the format.
+ */
+export function encode(format: string, data: string, options: EncodeOptions = {}): EncodedBarcode {
+	const resolved = resolveFormat(format);
+	if (!resolved) throw new Error(`Unknown barcode format "${format}"`);
+
+	const value = data.trim();
+	if (!value) throw new Error("Nothing to encode");
+
+	const validationError = firstValidationError(validateBarcodeInput(value, resolved));
+	if (validationError) throw new Error(validationError);
+
+	const svg = renderBarcodeSvg(value, resolved, { ...DEFAULT_RENDER_OPTIONS, ...options });
+	const { width, height } = getSvgSize(svg);
+	return {
+		format: resolved,
+		data: value,
+		svg,
+		width,
+		height,
+		toDataUrl: () => svgToDataUrl(svg),
+		toCanvas: (scale = 1) => rasterizeSvg(svg, scale),
+	};
+}
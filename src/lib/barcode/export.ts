@@ -0,0 +1,194 @@
+import { jsPDF } from "jspdf";
+import { getFormat } from "./formats";
+import {
+	DEFAULT_RENDER_OPTIONS,
+	RenderOptions,
+	canvasToBlob,
+	getSvgSize,
+	rasterizeSvgToSize,
+	renderNominalSvg,
+	resizeSvg,
+	screenPixelsToMm,
+} from "./render";
+
+export type ExportFileType = "svg" | "png" | "jpeg" | "pdf";
+
+export type ExportSettings = {
+	type: ExportFileType;
+	dpi: number;
+	// Physical output size in millimetres
+	width: number;
+	height: number;
+	// JPEG quality between 0 and 1
+	quality: number;
+};
+
+export const EXPORT_FILE_TYPES: { value: ExportFileType; label: string; mimeType: string }[] = [
+	{ value: "svg", label: "SVG (vector)", mimeType: "image/svg+xml" },
+	{ value: "png", label: "PNG", mimeType: "image/png" },
+	{ value: "jpeg", label: "JPEG", mimeType: "image/jpeg" },
+	{ value: "pdf", label: "PDF (single page)", mimeType: "application/pdf" },
+];
+
+const MM_PER_INCH = 25.4;
+
+export function mmToPixels(mm: number, dpi: number) {
+	return Math.max(1, Math.round((mm / MM_PER_INCH) * dpi));
+}
+
+/** Size of the barcode in millimetres as it appears on screen at 100% zoom. */
+export function getScreenSize(svgString: string) {
+	const { width, height } = getSvgSize(svgString);
+	return { width: screenPixelsToMm(width), height: screenPixelsToMm(height) };
+}
+
+/** X-dimension in millimetres at a magnification (1 = 100%), if GS1 defines a nominal one for the format. */
+export function getMagnifiedXDimension(format: string, magnification: number) {
+	const nominal = getFormat(format)?.nominalXDimension;
+	return nominal ? nominal * magnification : null;
+}
+
+/**
+ * The drawing to export at a magnification and its size in millimetres. EAN/UPC
+ * are redrawn at GS1 proportions, so 100% gives the nominal size, e.g.
+ * 37.29 × 25.93 mm for EAN-13. Other formats keep their drawing, scaled so the
+ * bars print at the X-dimension. Null if GS1 defines no X-dimension.
+ */
+export function getMagnifiedExport(
+	svgString: string,
+	value: string,
+	format: string,
+	options: RenderOptions,
+	magnification: number
+) {
+	const xDimension = getMagnifiedXDimension(format, magnification);
+	if (!xDimension) return null;
+
+	// One module per unit
+	const nominalSvg = renderNominalSvg(value, format, options);
+	if (nominalSvg) {
+		const { width, height } = getSvgSize(nominalSvg);
+		return { svg: nominalSvg, width: width * xDimension, height: height * xDimension };
+	}
+
+	const scale = xDimension / screenPixelsToMm(options.width ?? DEFAULT_RENDER_OPTIONS.width);
+	const screen = getScreenSize(svgString);
+	return { svg: svgString, width: screen.width * scale, height: screen.height * scale };
+}
+
+// --- PNG: pHYs chunk --------------------------------------------------------
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array) {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (const byte of bytes) {
+		crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Rewrites the PNG with a pHYs chunk so printers and editors pick up the DPI. */
+export function setPngDpi(png: Uint8Array, dpi: number) {
+	const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+	const pixelsPerMetre = Math.round(dpi / (MM_PER_INCH / 1000));
+
+	const phys = new Uint8Array(21);
+	const physView = new DataView(phys.buffer);
+	physView.setUint32(0, 9);
+	phys.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+	physView.setUint32(8, pixelsPerMetre);
+	physView.setUint32(12, pixelsPerMetre);
+	phys[16] = 1; // unit: metre
+	physView.setUint32(17, crc32(phys.subarray(4, 17)));
+
+	// Copy the signature and IHDR, insert pHYs, then every other chunk except an existing pHYs
+	const parts: Uint8Array[] = [png.subarray(0, 8)];
+	let offset = 8;
+	while (offset < png.length) {
+		const length = view.getUint32(offset);
+		const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+		const end = offset + 12 + length;
+
+		if (type !== "pHYs") parts.push(png.subarray(offset, end));
+		if (type === "IHDR") parts.push(phys);
+		offset = end;
+	}
+
+	const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+	let position = 0;
+	for (const part of parts) {
+		result.set(part, position);
+		position += part.length;
+	}
+	return result;
+}
+
+// --- JPEG: JFIF density -----------------------------------------------------
+
+/** Sets the JFIF APP0 density fields to the DPI, adding the segment if the encoder left it out. */
+export function setJpegDpi(jpeg: Uint8Array, dpi: number) {
+	const hasJfif =
+		jpeg[2] === 0xff && jpeg[3] === 0xe0 && String.fromCharCode(...jpeg.subarray(6, 11)) === "JFIF\0";
+
+	let result = jpeg;
+	if (!hasJfif) {
+		const app0 = new Uint8Array([0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0, 0, 0, 0, 0, 0, 0]);
+		result = new Uint8Array(jpeg.length + app0.length);
+		result.set(jpeg.subarray(0, 2));
+		result.set(app0, 2);
+		result.set(jpeg.subarray(2), 2 + app0.length);
+	} else {
+		result = jpeg.slice();
+	}
+
+	const view = new DataView(result.buffer);
+	result[13] = 1; // density unit: dots per inch
+	view.setUint16(14, dpi);
+	view.setUint16(16, dpi);
+	return result;
+}
+
+// --- Export -----------------------------------------------------------------
+
+export async function exportBarcode(svgString: string, settings: ExportSettings, title = "Barcode"): Promise<Blob> {
+	const { type, dpi, width, height } = settings;
+
+	if (type === "svg") {
+		return new Blob([resizeSvg(svgString, width, height, "mm", true)], { type: "image/svg+xml" });
+	}
+
+	const canvas = await rasterizeSvgToSize(svgString, mmToPixels(width, dpi), mmToPixels(height, dpi));
+
+	if (type === "pdf") {
+		const doc = new jsPDF({
+			unit: "mm",
+			format: [width, height],
+			orientation: width > height ? "landscape" : "portrait",
+		});
+		doc.setProperties({ title });
+		doc.addImage(canvas, "PNG", 0, 0, width, height);
+		return doc.output("blob");
+	}
+
+	if (type === "jpeg") {
+		const blob = await canvasToBlob(canvas, "image/jpeg", settings.quality);
+		const bytes = setJpegDpi(new Uint8Array(await blob.arrayBuffer()), dpi);
+		return new Blob([bytes], { type: "image/jpeg" });
+	}
+
+	const blob = await canvasToBlob(canvas, "image/png");
+	const bytes = setPngDpi(new Uint8Array(await blob.arrayBuffer()), dpi);
+	return new Blob([bytes], { type: "image/png" });
+}
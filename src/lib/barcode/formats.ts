@@ -0,0 +1,285 @@
+export type BarcodeKind = "linear" | "matrix";
+
+export interface ErrorCorrectionLevel {
+	value: string;
+	label: string;
+}
+
+export interface BarcodeFormat {
+	value: string;
+	label: string;
+	description: string;
+	kind: BarcodeKind;
+	// Valid example data, offered when the input is empty
+	sample: string;
+	// Accepts an EAN-2 or EAN-5 supplement after a space, e.g. 9781234567897 51299
+	addOn?: boolean;
+	// Data is a GS1 element string of bracketed AIs, e.g. (01)09506000134352(10)LOT123
+	gs1?: boolean;
+	// X-dimension (narrowest bar) in millimetres at 100% magnification, for formats GS1 lets scale
+	nominalXDimension?: number;
+	// GS1 retail symbols: height in millimetres at 100% including the digits, and quiet zones left and right in modules
+	nominalHeight?: number;
+	quietZones?: [number, number];
+	errorCorrection?: {
+		levels: ErrorCorrectionLevel[];
+		default: string;
+	};
+}
+
+const QR_ERROR_CORRECTION = {
+	levels: [
+		{ value: "L", label: "L (7% recovery)" },
+		{ value: "M", label: "M (15% recovery)" },
+		{ value: "Q", label: "Q (25% recovery)" },
+		{ value: "H", label: "H (30% recovery)" },
+	],
+	default: "M",
+};
+
+export const BARCODE_FORMATS: BarcodeFormat[] = [
+	{
+		value: "CODE128",
+		label: "CODE 128",
+		description: "Most versatile, supports all ASCII characters",
+		kind: "linear",
+		sample: "ABC-12345",
+	},
+	{
+		value: "EAN13",
+		label: "EAN-13",
+		description: "International retail standard (13 digits), optional 2 or 5 digit add-on",
+		kind: "linear",
+		sample: "4006381333931",
+		addOn: true,
+		nominalXDimension: 0.33,
+		nominalHeight: 25.93,
+		quietZones: [11, 7],
+	},
+	{
+		value: "EAN8",
+		label: "EAN-8",
+		description: "Retail items too small for EAN-13 (8 digits)",
+		kind: "linear",
+		sample: "96385074",
+		nominalXDimension: 0.33,
+		nominalHeight: 21.64,
+		quietZones: [7, 7],
+	},
+	{
+		value: "UPC",
+		label: "UPC-A",
+		description: "North American retail standard (12 digits), optional 2 or 5 digit add-on",
+		kind: "linear",
+		sample: "036000291452",
+		addOn: true,
+		nominalXDimension: 0.33,
+		nominalHeight: 25.93,
+		quietZones: [9, 9],
+	},
+	{
+		value: "UPCE",
+		label: "UPC-E",
+		description: "Zero-suppressed UPC for small packs (6 or 8 digits)",
+		kind: "linear",
+		sample: "01234565",
+		addOn: true,
+		nominalXDimension: 0.33,
+		nominalHeight: 25.93,
+		quietZones: [9, 7],
+	},
+	{
+		value: "EAN5",
+		label: "EAN-5",
+		description: "Add-on on its own, e.g. the price on books (5 digits)",
+		kind: "linear",
+		sample: "52495",
+	},
+	{
+		value: "EAN2",
+		label: "EAN-2",
+		description: "Add-on on its own, e.g. the issue of a periodical (2 digits)",
+		kind: "linear",
+		sample: "05",
+	},
+	{
+		value: "GS1_128",
+		label: "GS1-128",
+		description: "Logistics labels with GS1 AIs (GTIN, batch, expiry, SSCC)",
+		kind: "linear",
+		sample: "(01)09506000134352(10)LOT123",
+		gs1: true,
+	},
+	{
+		value: "CODE39",
+		label: "CODE 39",
+		description: "Alphanumeric, widely used in logistics",
+		kind: "linear",
+		sample: "ASSET-0042",
+	},
+	{
+		value: "CODE93",
+		label: "CODE 93",
+		description: "Denser alternative to CODE 39, used by postal services",
+		kind: "linear",
+		sample: "PKG-2024/07",
+	},
+	{
+		value: "CODABAR",
+		label: "Codabar",
+		description: "Digits and - $ : / . + with A-D start/stop, used by libraries and blood banks",
+		kind: "linear",
+		sample: "A40156B",
+	},
+	{
+		value: "ITF",
+		label: "ITF",
+		description: "Interleaved 2 of 5, any even number of digits",
+		kind: "linear",
+		sample: "1234567890",
+	},
+	{
+		value: "ITF14",
+		label: "ITF-14",
+		description: "Shipping containers (14 digits)",
+		kind: "linear",
+		sample: "15400141288763",
+		nominalXDimension: 1.016,
+	},
+	{
+		value: "MSI",
+		label: "MSI Plessey",
+		description: "Digits with a mod 10 check, used on warehouse shelf labels",
+		kind: "linear",
+		sample: "1234567",
+	},
+	{
+		value: "PHARMACODE",
+		label: "Pharmacode",
+		description: "Packaging control code for pharmaceuticals (3 to 131070)",
+		kind: "linear",
+		sample: "1234",
+	},
+	{
+		value: "QR",
+		label: "QR Code",
+		description: "URLs, text and structured payloads, readable by phones",
+		kind: "matrix",
+		sample: "https://example.com",
+		errorCorrection: QR_ERROR_CORRECTION,
+	},
+	{
+		value: "GS1_QR",
+		label: "GS1 QR Code",
+		description: "QR Code carrying GS1 AI fields",
+		kind: "matrix",
+		sample: "(01)09506000134352(17)271231(10)ABC123",
+		gs1: true,
+		errorCorrection: QR_ERROR_CORRECTION,
+	},
+	{
+		value: "DATAMATRIX",
+		label: "Data Matrix",
+		description: "Compact ECC 200 square symbol for small part marking",
+		kind: "matrix",
+		sample: "SN-000123-XY",
+	},
+	{
+		value: "GS1_DATAMATRIX",
+		label: "GS1 DataMatrix",
+		description: "Data Matrix with GS1 AI fields, used in healthcare",
+		kind: "matrix",
+		sample: "(01)09506000134352(17)271231(21)SN0001",
+		gs1: true,
+	},
+	{
+		value: "PDF417",
+		label: "PDF417",
+		description: "Stacked symbol for IDs, boarding passes and documents",
+		kind: "matrix",
+		sample: "ID 123456789; JANE DOE; EXP 2030-01-01",
+		errorCorrection: {
+			levels: Array.from({ length: 9 }, (_, level) => ({ value: String(level), label: `Level ${level}` })),
+			default: "2",
+		},
+	},
+	{
+		value: "AZTEC",
+		label: "Aztec",
+		description: "No quiet zone needed, common on transport tickets",
+		kind: "matrix",
+		sample: "TICKET 0042 / SEAT 12A",
+		errorCorrection: {
+			levels: ["5", "10", "23", "36", "50"].map(percent => ({ value: percent, label: `${percent}%` })),
+			default: "23",
+		},
+	},
+];
+
+export function getFormat(format: string) {
+	return BARCODE_FORMATS.find(f => f.value === format);
+}
+
+export function isMatrixFormat(format: string) {
+	return getFormat(format)?.kind === "matrix";
+}
+
+export function isGs1Format(format: string) {
+	return Boolean(getFormat(format)?.gs1);
+}
+
+export function getFormatLabel(format: string) {
+	return getFormat(format)?.label || format;
+}
+
+// Accepts either the JsBarcode value ("EAN13") or the display label ("EAN-13", "ean 13")
+export function resolveFormat(input: string): string | null {
+	const normalized = input.trim().toUpperCase().replace(/[\s_-]/g, "");
+	if (!normalized) return null;
+
+	const match = BARCODE_FORMATS.find(
+		f => f.value === normalized || f.label.toUpperCase().replace(/[\s_-]/g, "") === normalized
+	);
+	return match ? match.value : null;
+}
+
+// zxing symbology names as reported by the scanner, with the generator formats that reproduce them.
+// byLength picks a more specific format from the length of the scanned text.
+const SYMBOLOGIES: Record<string, { label: string; format?: string; gs1Format?: string; byLength?: Record<number, string> }> = {
+	AZTEC: { label: "Aztec", format: "AZTEC" },
+	CODABAR: { label: "Codabar", format: "CODABAR" },
+	CODE_39: { label: "CODE 39", format: "CODE39" },
+	CODE_93: { label: "CODE 93", format: "CODE93" },
+	CODE_128: { label: "CODE 128", format: "CODE128", gs1Format: "GS1_128" },
+	DATA_MATRIX: { label: "Data Matrix", format: "DATAMATRIX", gs1Format: "GS1_DATAMATRIX" },
+	EAN_8: { label: "EAN-8", format: "EAN8" },
+	EAN_13: { label: "EAN-13", format: "EAN13" },
+	ITF: { label: "ITF", format: "ITF", byLength: { 14: "ITF14" } },
+	MAXICODE: { label: "MaxiCode" },
+	PDF_417: { label: "PDF417", format: "PDF417" },
+	QR_CODE: { label: "QR Code", format: "QR", gs1Format: "GS1_QR" },
+	RSS_14: { label: "GS1 DataBar" },
+	RSS_EXPANDED: { label: "GS1 DataBar Expanded" },
+	UPC_A: { label: "UPC-A", format: "UPC" },
+	UPC_E: { label: "UPC-E", format: "UPCE" },
+	UPC_EAN_EXTENSION: { label: "EAN add-on", byLength: { 2: "EAN2", 5: "EAN5" } },
+};
+
+export function getSymbologyLabel(symbology: string) {
+	return SYMBOLOGIES[symbology]?.label || symbology;
+}
+
+/** zxing symbology a generator format is read back as, or null if the scanner has no reader for it. */
+export function symbologyForFormat(format: string) {
+	const match = Object.entries(SYMBOLOGIES).find(([, entry]) =>
+		[entry.format, entry.gs1Format, ...Object.values(entry.byLength ?? {})].includes(format)
+	);
+	return match ? match[0] : null;
+}
+
+/** Generator format for a scanned symbology, or null if it cannot be generated. */
+export function formatForSymbology(symbology: string | undefined, gs1 = false, text = "") {
+	const entry = symbology ? SYMBOLOGIES[symbology] : undefined;
+	if (gs1) return entry?.gs1Format || null;
+	return entry?.byLength?.[text.length] || entry?.format || null;
+}
@@ -0,0 +1,306 @@
+import { computeGs1CheckDigit } from "./gtin";
+import type { ValidationIssue, ValidationResult } from "./validation";
+
+/**
+ * GS1 Application Identifiers (AIs) prefix each field of a GS1 element string,
+ * e.g. "(01)09506000134352(17)271231(10)LOT123". In the symbol the brackets are
+ * dropped and variable-length fields are terminated by FNC1, which scanners
+ * report as the GS control character.
+ */
+export type Gs1AiDefinition = {
+	// Two to four digit AI; for weight AIs this is the first three digits and the
+	// fourth gives the number of implied decimal places
+	ai: string;
+	// GS1 data title as printed under the barcode
+	title: string;
+	description: string;
+	numeric: boolean;
+	length?: number;
+	maxLength?: number;
+	checkDigit?: boolean;
+	// YYMMDD
+	date?: boolean;
+	decimal?: boolean;
+	unit?: string;
+};
+
+export type Gs1Element = {
+	ai: string;
+	value: string;
+};
+
+export type Gs1ParsedElement = Gs1Element & {
+	title: string;
+	description: string;
+	// Human readable value, e.g. a date or weight with its decimal point
+	display: string;
+	error?: string;
+};
+
+export type Gs1ParseResult = {
+	elements: Gs1ParsedElement[];
+	// Set when the data could not be split into AIs to the end
+	error?: string;
+};
+
+export const GS1_AIS: Gs1AiDefinition[] = [
+	{ ai: "00", title: "SSCC", description: "Serial shipping container code", numeric: true, length: 18, checkDigit: true },
+	{ ai: "01", title: "GTIN", description: "Global trade item number", numeric: true, length: 14, checkDigit: true },
+	{ ai: "02", title: "CONTENT", description: "GTIN of contained trade items", numeric: true, length: 14, checkDigit: true },
+	{ ai: "10", title: "BATCH/LOT", description: "Batch or lot number", numeric: false, maxLength: 20 },
+	{ ai: "11", title: "PROD DATE", description: "Production date", numeric: true, length: 6, date: true },
+	{ ai: "12", title: "DUE DATE", description: "Due date", numeric: true, length: 6, date: true },
+	{ ai: "13", title: "PACK DATE", description: "Packaging date", numeric: true, length: 6, date: true },
+	{ ai: "15", title: "BEST BEFORE", description: "Best before date", numeric: true, length: 6, date: true },
+	{ ai: "16", title: "SELL BY", description: "Sell by date", numeric: true, length: 6, date: true },
+	{ ai: "17", title: "USE BY", description: "Expiration date", numeric: true, length: 6, date: true },
+	{ ai: "20", title: "VARIANT", description: "Internal product variant", numeric: true, length: 2 },
+	{ ai: "21", title: "SERIAL", description: "Serial number", numeric: false, maxLength: 20 },
+	{ ai: "22", title: "CPV", description: "Consumer product variant", numeric: false, maxLength: 20 },
+	{ ai: "240", title: "ADDITIONAL ID", description: "Additional product identification", numeric: false, maxLength: 30 },
+	{ ai: "241", title: "CUST. PART No.", description: "Customer part number", numeric: false, maxLength: 30 },
+	{ ai: "250", title: "SECONDARY SERIAL", description: "Secondary serial number", numeric: false, maxLength: 30 },
+	{ ai: "30", title: "VAR. COUNT", description: "Variable count of items", numeric: true, maxLength: 8 },
+	{ ai: "310", title: "NET WEIGHT (kg)", description: "Net weight in kilograms", numeric: true, length: 6, decimal: true, unit: "kg" },
+	{ ai: "320", title: "NET WEIGHT (lb)", description: "Net weight in pounds", numeric: true, length: 6, decimal: true, unit: "lb" },
+	{ ai: "330", title: "GROSS WEIGHT (kg)", description: "Logistic weight in kilograms", numeric: true, length: 6, decimal: true, unit: "kg" },
+	{ ai: "37", title: "COUNT", description: "Count of trade items contained", numeric: true, maxLength: 8 },
+	{ ai: "400", title: "ORDER NUMBER", description: "Customer purchase order number", numeric: false, maxLength: 30 },
+	{ ai: "401", title: "GINC", description: "Global identification number for consignment", numeric: false, maxLength: 30 },
+	{ ai: "402", title: "GSIN", description: "Global shipment identification number", numeric: true, length: 17, checkDigit: true },
+	{ ai: "410", title: "SHIP TO LOC", description: "Ship to / deliver to GLN", numeric: true, length: 13, checkDigit: true },
+	{ ai: "411", title: "BILL TO", description: "Bill to / invoice to GLN", numeric: true, length: 13, checkDigit: true },
+	{ ai: "412", title: "PURCHASE FROM", description: "Purchased from GLN", numeric: true, length: 13, checkDigit: true },
+	{ ai: "413", title: "SHIP FOR LOC", description: "Ship for / forward to GLN", numeric: true, length: 13, checkDigit: true },
+	{ ai: "414", title: "LOC No.", description: "Physical location GLN", numeric: true, length: 13, checkDigit: true },
+	{ ai: "420", title: "SHIP TO POST", description: "Ship to postal code", numeric: false, maxLength: 20 },
+	{ ai: "422", title: "ORIGIN", description: "Country of origin (ISO 3166 numeric)", numeric: true, length: 3 },
+	{ ai: "7003", title: "EXPIRY TIME", description: "Expiration date and time (YYMMDDhhmm)", numeric: true, length: 10 },
+	{ ai: "8020", title: "REF No.", description: "Payment slip reference number", numeric: false, maxLength: 25 },
+	{ ai: "90", title: "INTERNAL", description: "Mutually agreed information", numeric: false, maxLength: 30 },
+	...["91", "92", "93", "94", "95", "96", "97", "98", "99"].map(ai => ({
+		ai,
+		title: "INTERNAL",
+		description: "Company internal information",
+		numeric: false,
+		maxLength: 90,
+	})),
+];
+
+// Scanners report FNC1 as ASCII 29
+const GS = String.fromCharCode(29);
+// Symbology identifiers that mark GS1 data: GS1-128, GS1 DataBar, GS1 DataMatrix, GS1 QR Code
+const GS1_SYMBOLOGY_IDS = ["]C1", "]e0", "]d2", "]Q3"];
+const GS1_ONLY_SYMBOLOGIES = ["RSS_14", "RSS_EXPANDED"];
+// GS1 character set 82: printable ASCII except space and a few symbols
+const GS1_CHARSET = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/;
+
+export function findAi(ai: string) {
+	return GS1_AIS.find(def => (def.decimal ? ai.length === 4 && ai.startsWith(def.ai) : def.ai === ai));
+}
+
+function aiLength(def: Gs1AiDefinition) {
+	return def.decimal ? def.ai.length + 1 : def.ai.length;
+}
+
+export function describeAiFormat(def: Gs1AiDefinition) {
+	const kind = def.numeric ? "digits" : "characters";
+	if (def.checkDigit) return `${def.length! - 1} digits, check digit added automatically`;
+	if (def.date) return "Date as YYMMDD";
+	return def.length ? `${def.length} ${kind}` : `Up to ${def.maxLength} ${kind}`;
+}
+
+/** Reads a YYMMDD date using the GS1 rule that years fall within 49 years back and 50 forward. */
+function parseGs1Date(value: string) {
+	const [yy, mm, dd] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)].map(Number);
+	const currentYear = new Date().getFullYear();
+	const century = Math.floor(currentYear / 100) * 100;
+	const difference = yy - (currentYear % 100);
+	const year = century + yy + (difference > 50 ? -100 : difference < -49 ? 100 : 0);
+
+	if (mm < 1 || mm > 12) return null;
+	// Day 00 means the last day of the month
+	const lastDay = new Date(year, mm, 0).getDate();
+	if (dd > lastDay) return null;
+
+	return { year, month: mm, day: dd === 0 ? lastDay : dd };
+}
+
+/** Problem with a single AI value, or null when it is valid. Check digits are verified when present. */
+export function validateGs1Value(ai: string, value: string) {
+	const def = findAi(ai);
+	if (!def) return `AI (${ai}) is not supported.`;
+	if (!value) return `AI (${ai}) ${def.title} is empty.`;
+
+	if (def.numeric && !/^\d+$/.test(value)) return `AI (${ai}) ${def.title} takes digits only.`;
+	if (!def.numeric && !GS1_CHARSET.test(value)) {
+		return `AI (${ai}) ${def.title} contains characters outside the GS1 character set.`;
+	}
+
+	if (def.length && value.length !== def.length) {
+		return `AI (${ai}) ${def.title} needs ${def.length} digits, got ${value.length}.`;
+	}
+	if (def.maxLength && value.length > def.maxLength) {
+		return `AI (${ai}) ${def.title} holds at most ${def.maxLength} characters, got ${value.length}.`;
+	}
+
+	if (def.checkDigit) {
+		const expected = computeGs1CheckDigit(value.slice(0, -1));
+		if (value[value.length - 1] !== expected) {
+			return `AI (${ai}) ${def.title} check digit is ${value[value.length - 1]}, but should be ${expected}.`;
+		}
+	}
+	if (def.date && !parseGs1Date(value)) return `AI (${ai}) ${def.title} is not a valid YYMMDD date.`;
+
+	return null;
+}
+
+/** Appends the check digit when a check-digit AI is one digit short. */
+export function completeGs1Value(ai: string, value: string) {
+	const def = findAi(ai);
+	if (def?.checkDigit && /^\d+$/.test(value) && value.length === def.length! - 1) {
+		return value + computeGs1CheckDigit(value);
+	}
+	return value;
+}
+
+export function formatGs1Value(ai: string, value: string) {
+	const def = findAi(ai);
+	if (!def) return value;
+
+	if (def.date) {
+		const date = parseGs1Date(value);
+		if (date) {
+			return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+		}
+	}
+	if (def.decimal && /^\d+$/.test(value)) {
+		const decimals = Number(ai[3]);
+		const number = Number(value) / 10 ** decimals;
+		return `${number.toFixed(decimals)} ${def.unit}`;
+	}
+	return value;
+}
+
+/** Bracketed element string for bwip-js, completing missing check digits. */
+export function buildElementString(elements: Gs1Element[]) {
+	return elements
+		.filter(element => element.ai)
+		.map(element => `(${element.ai})${completeGs1Value(element.ai, element.value.trim())}`)
+		.join("");
+}
+
+function describeElement({ ai, value }: Gs1Element): Gs1ParsedElement {
+	const def = findAi(ai);
+	return {
+		ai,
+		value,
+		title: def?.title ?? "UNKNOWN",
+		description: def?.description ?? "Application identifier not in the supported list",
+		display: formatGs1Value(ai, value),
+		error: validateGs1Value(ai, value) ?? undefined,
+	};
+}
+
+/** Splits "(01)...(10)..." into elements; returns null if the text is not in bracketed form. */
+export function parseBracketed(text: string): Gs1Element[] | null {
+	if (!/^\(\d{2,4}\)/.test(text)) return null;
+
+	const elements: Gs1Element[] = [];
+	const pattern = /\((\d{2,4})\)([^(]*)/g;
+	let consumed = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(text)) !== null) {
+		if (match.index !== consumed) return null;
+		elements.push({ ai: match[1], value: match[2] });
+		consumed = pattern.lastIndex;
+	}
+
+	return consumed === text.length ? elements : null;
+}
+
+/** Splits raw symbol data where variable-length fields end at a GS separator or the end of the data. */
+function parseRaw(data: string): Gs1ParseResult {
+	const elements: Gs1Element[] = [];
+	let position = 0;
+
+	while (position < data.length) {
+		if (data[position] === GS) {
+			position++;
+			continue;
+		}
+
+		const def = [2, 3, 4].map(length => findAi(data.slice(position, position + length))).find(Boolean);
+		if (!def) {
+			return {
+				elements: elements.map(describeElement),
+				error: `Unknown AI at "${data.slice(position, position + 4)}".`,
+			};
+		}
+
+		const ai = data.slice(position, position + aiLength(def));
+		position += ai.length;
+
+		let end: number;
+		if (def.length) {
+			end = position + def.length;
+		} else {
+			const separator = data.indexOf(GS, position);
+			end = Math.min(separator === -1 ? data.length : separator, position + def.maxLength!);
+		}
+
+		elements.push({ ai, value: data.slice(position, end) });
+		position = end;
+	}
+
+	return { elements: elements.map(describeElement) };
+}
+
+/**
+ * Interprets scanned text as GS1 data. Returns null when the text is not GS1:
+ * without a symbology identifier or separator, plain text is only treated as GS1
+ * if it starts with an SSCC or GTIN and every field is valid.
+ */
+export function parseGs1(text: string, symbology?: string): Gs1ParseResult | null {
+	const bracketed = parseBracketed(text);
+	if (bracketed) return { elements: bracketed.map(describeElement) };
+
+	const symbologyId = GS1_SYMBOLOGY_IDS.find(id => text.startsWith(id));
+	const data = symbologyId ? text.slice(symbologyId.length) : text;
+	const marked = Boolean(symbologyId) || data.includes(GS) || GS1_ONLY_SYMBOLOGIES.includes(symbology ?? "");
+
+	if (!marked && !/^0[012]\d{14}/.test(data)) return null;
+
+	const result = parseRaw(data);
+	if (marked) return result;
+	return result.error || result.elements.some(element => element.error) ? null : result;
+}
+
+/** Generator validation for bracketed GS1 input, offering to fill in missing check digits. */
+export function validateElementString(value: string, label: string): ValidationResult {
+	const elements = parseBracketed(value);
+	if (!elements) {
+		return {
+			valid: false,
+			issues: [{ severity: "error", message: `${label} data must be AI fields like (01)09506000134352(10)LOT123.` }],
+		};
+	}
+
+	const completed = elements.map(element => ({ ...element, value: completeGs1Value(element.ai, element.value) }));
+	const issues: ValidationIssue[] = completed
+		.map(element => validateGs1Value(element.ai, element.value))
+		.filter((message): message is string => message !== null)
+		.map(message => ({ severity: "error", message }));
+
+	const fixed = buildElementString(completed);
+	if (issues.length === 0 && fixed !== value) {
+		return {
+			valid: true,
+			issues: [{ severity: "warning", message: "Check digits missing. They will be calculated automatically." }],
+			fix: { label: "Append check digits", value: fixed },
+		};
+	}
+
+	return { valid: issues.length === 0, issues };
+}
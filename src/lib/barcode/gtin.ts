@@ -0,0 +1,31 @@
+/** GS1 mod-10 check digit: weights 3,1,3,... from the rightmost data digit. */
+export function computeGs1CheckDigit(digits: string) {
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		const digit = Number(digits[digits.length - 1 - i]);
+		sum += i % 2 === 0 ? digit * 3 : digit;
+	}
+	return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * UPC-A digits of a zero-suppressed UPC-E: number system, six digits and an
+ * optional check digit, which is carried over. Null if the code is not UPC-E.
+ */
+export function expandUpcE(code: string) {
+	if (!/^[01]\d{6}\d?$/.test(code)) return null;
+
+	const [system, d1, d2, d3, d4, d5, d6, check = ""] = code;
+	switch (d6) {
+		case "0":
+		case "1":
+		case "2":
+			return `${system}${d1}${d2}${d6}0000${d3}${d4}${d5}${check}`;
+		case "3":
+			return `${system}${d1}${d2}${d3}00000${d4}${d5}${check}`;
+		case "4":
+			return `${system}${d1}${d2}${d3}${d4}00000${d5}${check}`;
+		default:
+			return `${system}${d1}${d2}${d3}${d4}${d5}0000${d6}${check}`;
+	}
+}
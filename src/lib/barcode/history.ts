@@ -0,0 +1,156 @@
+import { createId } from "@/lib/utils";
+import { getSymbologyLabel } from "./formats";
+import { csvField, parseCsv } from "./csv";
+import { SCAN_STORE, withStore } from "./storage";
+
+export type HistoryFilter = {
+	query: string;
+	// Inclusive local dates as YYYY-MM-DD, empty for no limit
+	from: string;
+	to: string;
+};
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = { query: "", from: "", to: "" };
+
+// --- IndexedDB --------------------------------------------------------------
+
+/** All stored scans, newest first. */
+export async function loadHistory() {
+	const scans = await withStore<ScanResult[]>(SCAN_STORE, "readonly", store => store.index("timestamp").getAll());
+	return scans.reverse();
+}
+
+export function putHistoryEntries(results: ScanResult[]) {
+	return withStore(SCAN_STORE, "readwrite", store => {
+		results.forEach(result => store.put(result));
+	});
+}
+
+export function deleteHistoryEntries(ids: string[]) {
+	return withStore(SCAN_STORE, "readwrite", store => {
+		ids.forEach(id => store.delete(id));
+	});
+}
+
+export function clearHistory() {
+	return withStore(SCAN_STORE, "readwrite", store => store.clear());
+}
+
+// --- Search -----------------------------------------------------------------
+
+function searchableText(result: ScanResult) {
+	const format = result.format ? getSymbologyLabel(result.format) : "";
+	return [result.text, format, result.notes, result.source?.fileName, result.input, ...(result.tags ?? [])].join("\n").toLowerCase();
+}
+
+/** Every word of the query has to appear in the code, symbology, notes, tags, source file name or "HID". */
+export function filterHistory(results: ScanResult[], filter: HistoryFilter) {
+	const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+	const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+	const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+
+	return results.filter(result => {
+		if (result.timestamp < from || result.timestamp > to) return false;
+		if (words.length === 0) return true;
+
+		const haystack = searchableText(result);
+		return words.every(word => haystack.includes(word));
+	});
+}
+
+export function parseTags(input: string) {
+	return [...new Set(input.split(",").map(tag => tag.trim()).filter(Boolean))];
+}
+
+// --- Export -----------------------------------------------------------------
+
+const CSV_COLUMNS = ["id", "timestamp", "text", "format", "count", "file", "page", "input", "tags", "notes"];
+
+export function historyToCsv(results: ScanResult[]) {
+	const rows = results.map(result => [
+		result.id,
+		new Date(result.timestamp).toISOString(),
+		result.text,
+		result.format ?? "",
+		String(result.count ?? 1),
+		result.source?.fileName ?? "",
+		result.source?.page ? String(result.source.page) : "",
+		result.input ?? "",
+		(result.tags ?? []).join("; "),
+		result.notes ?? "",
+	]);
+	return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(",")).join("\r\n");
+}
+
+export function historyToJson(results: ScanResult[]) {
+	return JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), scans: results }, null, 2);
+}
+
+// --- Import -----------------------------------------------------------------
+
+function parseTimestamp(value: unknown) {
+	const time = typeof value === "number" ? value : Date.parse(String(value));
+	return Number.isFinite(time) ? time : Date.now();
+}
+
+function toScanResult(entry: Record<string, unknown>): ScanResult | null {
+	const text = typeof entry.text === "string" ? entry.text : "";
+	if (!text) return null;
+
+	const source = entry.source as ScanSource | undefined;
+	const fileName = source?.fileName ?? (typeof entry.file === "string" ? entry.file : "");
+	const page = Number(source?.page ?? entry.page) || undefined;
+	const thumbnail = typeof source?.thumbnail === "string" && source.thumbnail.startsWith("data:image/") ? source.thumbnail : undefined;
+	const count = Number(entry.count) || 1;
+	const tags = Array.isArray(entry.tags) ? entry.tags.map(String) : parseTags(String(entry.tags ?? "").replace(/;/g, ","));
+	const notes = typeof entry.notes === "string" ? entry.notes : "";
+	const input = entry.input === "HID" ? entry.input : undefined;
+	// JSON exports carry the full scan metadata
+	const { format, rawBytes, points, camera, duration } = entry as Partial<ScanResult>;
+
+	return {
+		id: typeof entry.id === "string" && entry.id ? entry.id : createId(),
+		text,
+		timestamp: parseTimestamp(entry.timestamp),
+		...(format && { format }),
+		...(rawBytes && { rawBytes }),
+		...(Array.isArray(points) && { points }),
+		...(camera && { camera }),
+		...(typeof duration === "number" && { duration }),
+		...(fileName && { source: { fileName, page, ...(thumbnail && { thumbnail }) } }),
+		...(input && { input }),
+		...(count > 1 && { count }),
+		...(tags.length > 0 && { tags }),
+		...(notes && { notes }),
+	};
+}
+
+function parseHistoryCsv(input: string) {
+	const [header, ...rows] = parseCsv(input);
+	if (!header) return [];
+
+	const columns = header.map(cell => cell.trim().toLowerCase());
+	if (!columns.includes("text")) {
+		throw new Error('CSV needs a "text" column.');
+	}
+
+	return rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+}
+
+/** Reads a JSON or CSV history export. Entries keep their id, so importing twice does not duplicate them. */
+export function parseHistoryFile(input: string) {
+	const trimmed = input.trim();
+	let entries: Record<string, unknown>[];
+
+	if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+		const data = JSON.parse(trimmed);
+		entries = Array.isArray(data) ? data : data.scans;
+		if (!Array.isArray(entries)) {
+			throw new Error("JSON file does not contain a scan list.");
+		}
+	} else {
+		entries = parseHistoryCsv(trimmed);
+	}
+
+	return entries.map(toScanResult).filter((result): result is ScanResult => result !== null);
+}
@@ -0,0 +1,292 @@
+import { getCountSession, getCountSessions, saveCountSession, updateCountSession } from "@/actions/inventory";
+import { apiRows, createId } from "@/lib/utils";
+import { displayGtin, normalizeGtin } from "./catalog";
+import { csvField, parseCsv } from "./csv";
+
+export type CountLine = {
+	code: string;
+	quantity: number;
+	updatedAt: number;
+};
+
+export type CountSession = {
+	id: string;
+	// Row id on the server once the session has been saved
+	remoteId?: string;
+	location: string;
+	operator: string;
+	startedAt: number;
+	updatedAt: number;
+	// `updatedAt` of the version last saved to the server
+	savedAt?: number;
+	// Most recently counted first
+	lines: CountLine[];
+};
+
+export type ExpectedItem = {
+	code: string;
+	quantity: number;
+	name?: string;
+};
+
+export type DiscrepancyStatus = "match" | "over" | "short" | "missing" | "unexpected";
+
+export type Discrepancy = {
+	code: string;
+	name?: string;
+	expected: number;
+	counted: number;
+	// Counted minus expected
+	difference: number;
+	status: DiscrepancyStatus;
+};
+
+// --- Counting ---------------------------------------------------------------
+
+/** GTINs match in any spelling (EAN-13, UPC-A, GTIN-14); other codes must match exactly. */
+export function countKey(code: string) {
+	const trimmed = code.trim();
+	const gtin = normalizeGtin(trimmed);
+	return gtin ? displayGtin(gtin) : trimmed;
+}
+
+export function createCountSession(location: string, operator: string): CountSession {
+	const now = Date.now();
+	return { id: createId(), location: location.trim(), operator: operator.trim(), startedAt: now, updatedAt: now, lines: [] };
+}
+
+function putLine(session: CountSession, code: string, quantity: number, toTop: boolean): CountSession {
+	const key = countKey(code);
+	if (!key) return session;
+
+	const now = Date.now();
+	const line = { code: key, quantity: Math.max(0, Math.round(quantity)), updatedAt: now };
+	const index = session.lines.findIndex(l => l.code === key);
+	const lines = toTop || index === -1
+		? [line, ...session.lines.filter(l => l.code !== key)]
+		: session.lines.map((l, i) => (i === index ? line : l));
+	return { ...session, updatedAt: now, lines };
+}
+
+/** Manual edit: sets a line's quantity in place, adding the line at the top if it is new. */
+export function setCountQuantity(session: CountSession, code: string, quantity: number) {
+	return putLine(session, code, quantity, false);
+}
+
+/** A scan: adds to the line's quantity and moves it to the top. */
+export function addCount(session: CountSession, code: string, by = 1) {
+	const current = session.lines.find(line => line.code === countKey(code))?.quantity ?? 0;
+	return putLine(session, code, current + by, true);
+}
+
+export function removeCountLine(session: CountSession, code: string): CountSession {
+	return { ...session, updatedAt: Date.now(), lines: session.lines.filter(line => line.code !== code) };
+}
+
+export function hasUnsavedCounts(session: CountSession) {
+	return session.savedAt !== session.updatedAt;
+}
+
+export function getCountTotals(session: CountSession) {
+	return {
+		codes: session.lines.length,
+		units: session.lines.reduce((total, line) => total + line.quantity, 0),
+	};
+}
+
+// --- Expected stock ---------------------------------------------------------
+
+const CODE_COLUMNS = ["code", "gtin", "ean", "upc", "sku", "barcode"];
+const QUANTITY_COLUMNS = ["expected", "quantity", "qty", "stock", "on_hand"];
+const NAME_COLUMNS = ["name", "title", "description", "product"];
+
+function pickColumn(entry: Record<string, unknown>, columns: string[]) {
+	const lower = Object.fromEntries(Object.entries(entry).map(([k, v]) => [k.trim().toLowerCase(), v]));
+	const column = columns.find(name => lower[name] !== undefined && lower[name] !== "");
+	return column ? lower[column] : undefined;
+}
+
+/** Reads a JSON list or CSV of codes and expected quantities; repeated codes are added up. */
+export function parseExpectedStock(input: string) {
+	const trimmed = input.trim();
+	let entries: Record<string, unknown>[];
+
+	if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+		const data = JSON.parse(trimmed);
+		entries = Array.isArray(data) ? data : (data.items ?? data.products);
+		if (!Array.isArray(entries)) {
+			throw new Error("JSON file does not contain a stock list.");
+		}
+	} else {
+		const [header, ...rows] = parseCsv(trimmed);
+		if (!header) return [];
+
+		const columns = header.map(cell => cell.trim().toLowerCase());
+		if (!columns.some(column => CODE_COLUMNS.includes(column))) {
+			throw new Error(`CSV needs a code column (${CODE_COLUMNS.join(", ")}).`);
+		}
+		entries = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+	}
+
+	const items = new Map<string, ExpectedItem>();
+	entries.forEach(entry => {
+		const code = countKey(String(pickColumn(entry, CODE_COLUMNS) ?? ""));
+		if (!code) return;
+
+		const quantity = Number(pickColumn(entry, QUANTITY_COLUMNS) ?? 0) || 0;
+		const name = pickColumn(entry, NAME_COLUMNS);
+		const existing = items.get(code);
+		items.set(code, {
+			code,
+			quantity: (existing?.quantity ?? 0) + quantity,
+			...((name || existing?.name) && { name: existing?.name ?? String(name) }),
+		});
+	});
+
+	return [...items.values()];
+}
+
+// --- Discrepancies ----------------------------------------------------------
+
+const STATUS_ORDER: DiscrepancyStatus[] = ["missing", "short", "over", "unexpected", "match"];
+
+function getStatus(expected: number, counted: number, listed: boolean): DiscrepancyStatus {
+	if (!listed) return "unexpected";
+	if (counted === expected) return "match";
+	if (counted === 0) return "missing";
+	return counted > expected ? "over" : "short";
+}
+
+/** Compares counts with the expected stock; problems come first, largest differences first. */
+export function diffCounts(lines: CountLine[], expected: ExpectedItem[]): Discrepancy[] {
+	const counted = new Map(lines.map(line => [line.code, line.quantity]));
+	const listed = new Map(expected.map(item => [item.code, item]));
+	const codes = [...new Set([...listed.keys(), ...counted.keys()])];
+
+	return codes
+		.map(code => {
+			const item = listed.get(code);
+			const expectedQuantity = item?.quantity ?? 0;
+			const countedQuantity = counted.get(code) ?? 0;
+			return {
+				code,
+				...(item?.name && { name: item.name }),
+				expected: expectedQuantity,
+				counted: countedQuantity,
+				difference: countedQuantity - expectedQuantity,
+				status: getStatus(expectedQuantity, countedQuantity, Boolean(item)),
+			};
+		})
+		.sort((a, b) =>
+			STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+			Math.abs(b.difference) - Math.abs(a.difference) ||
+			a.code.localeCompare(b.code)
+		);
+}
+
+export function getDiscrepancySummary(rows: Discrepancy[]) {
+	const summary = Object.fromEntries(STATUS_ORDER.map(status => [status, 0])) as Record<DiscrepancyStatus, number>;
+	rows.forEach(row => summary[row.status]++);
+	return { ...summary, netDifference: rows.reduce((total, row) => total + row.difference, 0) };
+}
+
+export function discrepancyReportToCsv(session: CountSession, rows: Discrepancy[]) {
+	const header = [
+		["location", session.location],
+		["operator", session.operator],
+		["started", new Date(session.startedAt).toISOString()],
+		["updated", new Date(session.updatedAt).toISOString()],
+		[],
+		["code", "name", "expected", "counted", "difference", "status"],
+	];
+	const body = rows.map(row => [
+		row.code,
+		row.name ?? "",
+		String(row.expected),
+		String(row.counted),
+		String(row.difference),
+		row.status,
+	]);
+	return [...header, ...body].map(row => row.map(csvField).join(",")).join("\r\n");
+}
+
+// --- Server -----------------------------------------------------------------
+
+function toRecord(session: CountSession) {
+	return {
+		session_id: session.id,
+		location: session.location,
+		operator: session.operator,
+		started_at: new Date(session.startedAt).toISOString(),
+		updated_at: new Date(session.updatedAt).toISOString(),
+		// Stored as one JSON column so a session is a single row
+		lines: JSON.stringify(session.lines),
+	};
+}
+
+function parseLines(value: unknown): unknown {
+	if (typeof value !== "string") return value;
+	try {
+		return JSON.parse(value);
+	} catch {
+		return null;
+	}
+}
+
+/** The session in a row, or null if the row has no readable lines. */
+function fromRecord(record: Record<string, unknown>): CountSession | null {
+	const lines = parseLines(record.lines);
+	if (!Array.isArray(lines)) return null;
+
+	const startedAt = Date.parse(String(record.started_at)) || Date.now();
+	const updatedAt = Date.parse(String(record.updated_at)) || startedAt;
+	return {
+		id: String(record.session_id ?? record.id ?? createId()),
+		remoteId: record.id !== undefined ? String(record.id) : undefined,
+		location: String(record.location ?? ""),
+		operator: String(record.operator ?? ""),
+		startedAt,
+		updatedAt,
+		savedAt: updatedAt,
+		lines: lines
+			.filter(line => line && typeof line.code === "string")
+			.map(line => ({ code: line.code, quantity: Number(line.quantity) || 0, updatedAt: Number(line.updatedAt) || startedAt })),
+	};
+}
+
+export type CountSaveResult = { status: "saved"; session: CountSession } | { status: "conflict"; remote: CountSession };
+
+/**
+ * Creates the session row on the first save and updates it afterwards. If the
+ * server copy changed since this session last synced, nothing is written and
+ * the server copy is returned so the user can choose; `force` overwrites it.
+ */
+export async function saveCountSessionRemote(session: CountSession, force = false): Promise<CountSaveResult> {
+	if (session.remoteId && !force) {
+		const remote = fromRecord(apiRows(await getCountSession({ id: session.remoteId }))[0] ?? {});
+		if (remote && remote.updatedAt !== session.savedAt) {
+			return { status: "conflict", remote };
+		}
+	}
+
+	const body = toRecord(session);
+	const response = session.remoteId
+		? await updateCountSession({ id: session.remoteId, body })
+		: await saveCountSession({ body });
+
+	const saved = apiRows(response)[0];
+	const remoteId = saved?.id !== undefined ? String(saved.id) : session.remoteId;
+	if (!remoteId) {
+		throw new Error("The server did not return an id for the saved session.");
+	}
+	return { status: "saved", session: { ...session, remoteId, savedAt: session.updatedAt } };
+}
+
+/** Saved sessions, most recently updated first; rows that cannot be read are skipped. */
+export async function loadCountSessionsRemote() {
+	const response = await getCountSessions();
+	return apiRows(response)
+		.map(fromRecord)
+		.filter((session): session is CountSession => session !== null)
+		.sort((a, b) => b.updatedAt - a.updatedAt);
+}
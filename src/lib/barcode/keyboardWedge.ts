@@ -0,0 +1,103 @@
+import { createId } from "@/lib/utils";
+
+// USB and Bluetooth handheld scanners in keyboard mode ("keyboard wedge") type
+// the code as keystrokes. They type far faster than people, which is how their
+// input is told apart from ordinary typing.
+
+export type WedgeTerminator = "Enter" | "Tab" | "";
+
+export type WedgeSettings = {
+	enabled: boolean;
+	// Longest pause between two keystrokes of one scan, in milliseconds
+	maxKeyInterval: number;
+	// Shorter bursts are taken for fast typing rather than scans
+	minLength: number;
+	// Characters the scanner is set up to send before and after each code; stripped from the result
+	prefix: string;
+	suffix: string;
+	// Key the scanner sends after the code; empty ends a scan when the keystrokes stop
+	terminator: WedgeTerminator;
+};
+
+export const DEFAULT_WEDGE_SETTINGS: WedgeSettings = {
+	enabled: false,
+	maxKeyInterval: 50,
+	minLength: 4,
+	prefix: "",
+	suffix: "",
+	terminator: "Enter",
+};
+
+export const MIN_KEY_INTERVAL = 10;
+export const MAX_KEY_INTERVAL = 500;
+
+export const WEDGE_TERMINATORS: { value: WedgeTerminator; label: string }[] = [
+	{ value: "Enter", label: "Enter" },
+	{ value: "Tab", label: "Tab" },
+	{ value: "", label: "None (pause)" },
+];
+
+/** The code inside a burst of keystrokes, or null if the burst does not look like a scan. */
+export function extractWedgeScan(keys: string, settings: WedgeSettings) {
+	const { prefix, suffix, minLength } = settings;
+	if (keys.length < prefix.length + suffix.length) return null;
+	if (!keys.startsWith(prefix) || !keys.endsWith(suffix)) return null;
+
+	const text = keys.slice(prefix.length, keys.length - suffix.length).trim();
+	return text.length >= Math.max(minLength, 1) ? text : null;
+}
+
+/**
+ * Collects keystrokes into bursts and calls `onScan` with the code of every burst
+ * that looks like a scan. `handleKey` takes a KeyboardEvent key and time stamp
+ * and returns true when the key belongs to a scan, so the caller can keep it from
+ * reaching the page (an Enter would otherwise press the focused button). The
+ * first key of a burst cannot be told from typing and is never claimed.
+ */
+export function createWedgeReader(getSettings: () => WedgeSettings, onScan: (text: string) => void) {
+	let keys = "";
+	let lastKeyTime = 0;
+	let pauseTimer: ReturnType<typeof setTimeout> | undefined;
+
+	const reset = () => {
+		keys = "";
+		clearTimeout(pauseTimer);
+	};
+
+	const finish = () => {
+		const text = extractWedgeScan(keys, getSettings());
+		reset();
+		if (text) onScan(text);
+		return text !== null;
+	};
+
+	const handleKey = (key: string, time: number) => {
+		const settings = getSettings();
+		const inBurst = keys.length > 0 && time - lastKeyTime <= settings.maxKeyInterval;
+
+		if (settings.terminator && key === settings.terminator) {
+			if (inBurst) return finish();
+			reset();
+			return false;
+		}
+		// Shift and other named keys come between the characters of upper case codes
+		if (key.length !== 1) return false;
+
+		if (!inBurst) reset();
+		keys += key;
+		lastKeyTime = time;
+
+		if (!settings.terminator) {
+			clearTimeout(pauseTimer);
+			pauseTimer = setTimeout(finish, settings.maxKeyInterval);
+		}
+		return inBurst;
+	};
+
+	return { handleKey, reset };
+}
+
+/** History entry for a code typed in by a hardware scanner, which does not say what symbology it read. */
+export function createWedgeScanResult(text: string): ScanResult {
+	return { id: createId(), text, timestamp: Date.now(), input: "HID" };
+}
@@ -0,0 +1,219 @@
+import { jsPDF } from "jspdf";
+import { rasterizeSvg } from "./render";
+
+// All label sheet measurements are in millimetres
+export type LabelLayout = {
+	id: string;
+	name: string;
+	pageWidth: number;
+	pageHeight: number;
+	columns: number;
+	rows: number;
+	labelWidth: number;
+	labelHeight: number;
+	marginTop: number;
+	marginLeft: number;
+	columnGap: number;
+	rowGap: number;
+};
+
+export type LabelItem = {
+	svg: string;
+	lines: string[];
+};
+
+export type LabelRect = {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+};
+
+export const PAGE_SIZES = {
+	letter: { name: "US Letter", width: 215.9, height: 279.4 },
+	a4: { name: "A4", width: 210, height: 297 },
+} as const;
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+	{
+		id: "avery-5160",
+		name: "Avery 5160 (30 per sheet, Letter)",
+		pageWidth: PAGE_SIZES.letter.width,
+		pageHeight: PAGE_SIZES.letter.height,
+		columns: 3,
+		rows: 10,
+		labelWidth: 66.675,
+		labelHeight: 25.4,
+		marginTop: 12.7,
+		marginLeft: 4.7625,
+		columnGap: 3.175,
+		rowGap: 0,
+	},
+	{
+		id: "avery-5163",
+		name: "Avery 5163 (10 per sheet, Letter)",
+		pageWidth: PAGE_SIZES.letter.width,
+		pageHeight: PAGE_SIZES.letter.height,
+		columns: 2,
+		rows: 5,
+		labelWidth: 101.6,
+		labelHeight: 50.8,
+		marginTop: 12.7,
+		marginLeft: 3.9688,
+		columnGap: 4.7625,
+		rowGap: 0,
+	},
+	{
+		id: "avery-l7160",
+		name: "Avery L7160 (21 per sheet, A4)",
+		pageWidth: PAGE_SIZES.a4.width,
+		pageHeight: PAGE_SIZES.a4.height,
+		columns: 3,
+		rows: 7,
+		labelWidth: 63.5,
+		labelHeight: 38.1,
+		marginTop: 15.15,
+		marginLeft: 7.2,
+		columnGap: 2.54,
+		rowGap: 0,
+	},
+	{
+		id: "avery-l7163",
+		name: "Avery L7163 (14 per sheet, A4)",
+		pageWidth: PAGE_SIZES.a4.width,
+		pageHeight: PAGE_SIZES.a4.height,
+		columns: 2,
+		rows: 7,
+		labelWidth: 99.1,
+		labelHeight: 38.1,
+		marginTop: 15.15,
+		marginLeft: 4.65,
+		columnGap: 2.5,
+		rowGap: 0,
+	},
+];
+
+export const CUSTOM_LAYOUT_ID = "custom";
+
+export function labelsPerPage(layout: LabelLayout) {
+	return layout.columns * layout.rows;
+}
+
+export function getLabelRects(layout: LabelLayout): LabelRect[] {
+	const rects: LabelRect[] = [];
+	for (let row = 0; row < layout.rows; row++) {
+		for (let column = 0; column < layout.columns; column++) {
+			rects.push({
+				x: layout.marginLeft + column * (layout.labelWidth + layout.columnGap),
+				y: layout.marginTop + row * (layout.labelHeight + layout.rowGap),
+				width: layout.labelWidth,
+				height: layout.labelHeight,
+			});
+		}
+	}
+	return rects;
+}
+
+// Returns a list of problems with a layout, e.g. labels running off the page
+export function validateLabelLayout(layout: LabelLayout) {
+	const problems: string[] = [];
+
+	if (layout.columns < 1 || layout.rows < 1) {
+		problems.push("Layout needs at least one row and one column.");
+	}
+	if (layout.labelWidth <= 0 || layout.labelHeight <= 0) {
+		problems.push("Label width and height must be positive.");
+	}
+
+	const usedWidth = layout.marginLeft + layout.columns * layout.labelWidth + (layout.columns - 1) * layout.columnGap;
+	const usedHeight = layout.marginTop + layout.rows * layout.labelHeight + (layout.rows - 1) * layout.rowGap;
+	if (usedWidth > layout.pageWidth + 0.01) {
+		problems.push(`Labels are ${(usedWidth - layout.pageWidth).toFixed(1)} mm wider than the page.`);
+	}
+	if (usedHeight > layout.pageHeight + 0.01) {
+		problems.push(`Labels are ${(usedHeight - layout.pageHeight).toFixed(1)} mm taller than the page.`);
+	}
+
+	return problems;
+}
+
+export type LabelSheetOptions = {
+	padding: number;
+	fontSize: number;
+	startPosition: number;
+	showOutlines: boolean;
+};
+
+export const DEFAULT_LABEL_SHEET_OPTIONS: LabelSheetOptions = {
+	padding: 2,
+	fontSize: 8,
+	startPosition: 0,
+	showOutlines: false,
+};
+
+const PT_TO_MM = 25.4 / 72;
+const LINE_SPACING = 1.2;
+// Rasterize at roughly 600 dpi so bar edges stay crisp on thermal and laser printers
+const RASTER_SCALE = 6;
+
+/**
+ * Lays the items out on the given label stock, filling pages left-to-right,
+ * top-to-bottom. startPosition skips labels already used on a partial sheet.
+ */
+export async function createLabelSheetPdf(
+	items: LabelItem[],
+	layout: LabelLayout,
+	options: LabelSheetOptions = DEFAULT_LABEL_SHEET_OPTIONS
+) {
+	const doc = new jsPDF({
+		unit: "mm",
+		format: [layout.pageWidth, layout.pageHeight],
+		orientation: layout.pageWidth > layout.pageHeight ? "landscape" : "portrait",
+	});
+	const rects = getLabelRects(layout);
+	const lineHeight = options.fontSize * PT_TO_MM * LINE_SPACING;
+
+	doc.setFontSize(options.fontSize);
+
+	let slot = Math.min(Math.max(options.startPosition, 0), rects.length - 1);
+	for (const item of items) {
+		if (slot === rects.length) {
+			doc.addPage([layout.pageWidth, layout.pageHeight]);
+			slot = 0;
+		}
+
+		const rect = rects[slot++];
+		if (options.showOutlines) {
+			doc.setDrawColor(200);
+			doc.rect(rect.x, rect.y, rect.width, rect.height);
+		}
+
+		const lines = item.lines.filter(line => line.trim() !== "");
+		const textHeight = lines.length * lineHeight;
+		const innerWidth = rect.width - options.padding * 2;
+		const innerHeight = rect.height - options.padding * 2 - textHeight;
+
+		if (innerWidth > 0 && innerHeight > 0) {
+			const canvas = await rasterizeSvg(item.svg, RASTER_SCALE);
+			const ratio = Math.min(innerWidth / canvas.width, innerHeight / canvas.height);
+			const width = canvas.width * ratio;
+			const height = canvas.height * ratio;
+
+			doc.addImage(
+				canvas,
+				"PNG",
+				rect.x + (rect.width - width) / 2,
+				rect.y + options.padding + (innerHeight - height) / 2,
+				width,
+				height
+			);
+		}
+
+		lines.forEach((line, index) => {
+			const baseline = rect.y + rect.height - options.padding - textHeight + (index + 1) * lineHeight - lineHeight * 0.25;
+			doc.text(line, rect.x + rect.width / 2, baseline, { align: "center", maxWidth: innerWidth });
+		});
+	}
+
+	return doc;
+}
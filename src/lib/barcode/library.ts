@@ -0,0 +1,113 @@
+import { createId } from "@/lib/utils";
+import { resolveFormat } from "./formats";
+import { DEFAULT_RENDER_OPTIONS, RenderOptions } from "./render";
+
+/** A named format plus styling, applied to whatever data is in the generator. */
+export type GeneratorPreset = {
+	id: string;
+	name: string;
+	format: string;
+	options: RenderOptions;
+	createdAt: number;
+};
+
+/** A complete barcode kept for regenerating or downloading again later. */
+export type FavoriteBarcode = {
+	id: string;
+	name: string;
+	format: string;
+	data: string;
+	options: RenderOptions;
+	createdAt: number;
+	updatedAt: number;
+};
+
+export type BarcodeLibrary = {
+	presets: GeneratorPreset[];
+	favorites: FavoriteBarcode[];
+};
+
+export function createPreset(name: string, format: string, options: RenderOptions): GeneratorPreset {
+	return { id: createId(), name: name.trim(), format, options: { ...options }, createdAt: Date.now() };
+}
+
+export function createFavorite(name: string, format: string, data: string, options: RenderOptions): FavoriteBarcode {
+	const now = Date.now();
+	return { id: createId(), name: name.trim(), format, data, options: { ...options }, createdAt: now, updatedAt: now };
+}
+
+export function duplicateFavorite(favorite: FavoriteBarcode): FavoriteBarcode {
+	return createFavorite(`${favorite.name} (copy)`, favorite.format, favorite.data, favorite.options);
+}
+
+/** Suggested name for a new favorite: the first line of its data, shortened. */
+export function suggestFavoriteName(data: string) {
+	const firstLine = data.trim().split(/\r?\n/)[0];
+	return firstLine.length > 40 ? `${firstLine.slice(0, 39)}…` : firstLine;
+}
+
+// --- Import / export --------------------------------------------------------
+
+export function libraryToJson(library: BarcodeLibrary) {
+	return JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), ...library }, null, 2);
+}
+
+function parseTimestamp(value: unknown) {
+	const time = typeof value === "number" ? value : Date.parse(String(value));
+	return Number.isFinite(time) ? time : Date.now();
+}
+
+// Unknown option keys from newer versions are kept; missing ones fall back to the defaults
+function toOptions(value: unknown): RenderOptions {
+	return { ...DEFAULT_RENDER_OPTIONS, ...(value && typeof value === "object" ? value : {}) };
+}
+
+function toPreset(entry: Record<string, unknown>): GeneratorPreset | null {
+	const format = resolveFormat(String(entry.format ?? ""));
+	const name = typeof entry.name === "string" ? entry.name.trim() : "";
+	if (!format || !name) return null;
+
+	return {
+		id: typeof entry.id === "string" && entry.id ? entry.id : createId(),
+		name,
+		format,
+		options: toOptions(entry.options),
+		createdAt: parseTimestamp(entry.createdAt),
+	};
+}
+
+function toFavorite(entry: Record<string, unknown>): FavoriteBarcode | null {
+	const format = resolveFormat(String(entry.format ?? ""));
+	const data = typeof entry.data === "string" ? entry.data : "";
+	if (!format || !data) return null;
+
+	const createdAt = parseTimestamp(entry.createdAt);
+	return {
+		id: typeof entry.id === "string" && entry.id ? entry.id : createId(),
+		name: typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : suggestFavoriteName(data),
+		format,
+		data,
+		options: toOptions(entry.options),
+		createdAt,
+		updatedAt: entry.updatedAt === undefined ? createdAt : parseTimestamp(entry.updatedAt),
+	};
+}
+
+/** Reads a library export. Entries keep their id, so importing the same file twice replaces rather than duplicates. */
+export function parseLibraryFile(input: string): BarcodeLibrary {
+	const data = JSON.parse(input);
+	if (!data || typeof data !== "object" || (!Array.isArray(data.presets) && !Array.isArray(data.favorites))) {
+		throw new Error("File does not contain presets or favorites.");
+	}
+
+	return {
+		presets: (Array.isArray(data.presets) ? data.presets : []).map(toPreset).filter(Boolean),
+		favorites: (Array.isArray(data.favorites) ? data.favorites : []).map(toFavorite).filter(Boolean),
+	};
+}
+
+/** Imported entries replace existing ones with the same id; everything else is kept. */
+export function mergeById<T extends { id: string }>(existing: T[], imported: T[]) {
+	const ids = new Set(imported.map(item => item.id));
+	return [...existing.filter(item => !ids.has(item.id)), ...imported];
+}
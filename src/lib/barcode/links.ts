@@ -0,0 +1,117 @@
+import { resolveFormat } from "./formats";
+import {
+	DEFAULT_RENDER_OPTIONS,
+	FONT_FAMILIES,
+	FONT_STYLES,
+	OPTION_RANGES,
+	RenderOptions,
+	TEXT_ALIGNS,
+	TEXT_POSITIONS,
+} from "./render";
+
+export type GeneratorLink = {
+	format: string | null;
+	data: string | null;
+	options: RenderOptions;
+};
+
+type OptionParam = {
+	param: string;
+	option: keyof RenderOptions;
+	type: "number" | "color" | "boolean" | "string" | "choice";
+	min?: number;
+	max?: number;
+	// Accepted values of a "choice"
+	values?: string[];
+};
+
+// Short query names keep links readable, e.g. /generate?format=EAN13&data=4006381333931&w=2&h=80
+const OPTION_PARAMS: OptionParam[] = [
+	{ param: "w", option: "width", type: "number", ...OPTION_RANGES.width },
+	{ param: "h", option: "height", type: "number", ...OPTION_RANGES.height },
+	{ param: "margin", option: "margin", type: "number", ...OPTION_RANGES.margin },
+	{ param: "fg", option: "lineColor", type: "color" },
+	{ param: "bg", option: "background", type: "color" },
+	{ param: "text", option: "displayValue", type: "boolean" },
+	{ param: "font", option: "font", type: "choice", values: FONT_FAMILIES },
+	{ param: "fontstyle", option: "fontOptions", type: "choice", values: FONT_STYLES.map(style => style.value) },
+	{ param: "fontsize", option: "fontSize", type: "number", ...OPTION_RANGES.fontSize },
+	{ param: "align", option: "textAlign", type: "choice", values: TEXT_ALIGNS.map(align => align.value) },
+	{ param: "textpos", option: "textPosition", type: "choice", values: TEXT_POSITIONS.map(position => position.value) },
+	{ param: "textmargin", option: "textMargin", type: "number", ...OPTION_RANGES.textMargin },
+	{ param: "module", option: "moduleSize", type: "number", ...OPTION_RANGES.moduleSize },
+	{ param: "quiet", option: "quietZone", type: "number", ...OPTION_RANGES.quietZone },
+	{ param: "ec", option: "errorCorrection", type: "string" },
+];
+
+/** Query parameters for render options, also the attribute names of <barcode-generator>. */
+export const LINK_OPTION_PARAMS = OPTION_PARAMS.map(entry => entry.param);
+
+function parseOption({ type, min, max, values }: OptionParam, raw: string) {
+	switch (type) {
+		case "number": {
+			const value = Number(raw);
+			return raw !== "" && Number.isFinite(value) && value >= min && value <= max ? value : undefined;
+		}
+		case "color": {
+			const hex = raw.replace(/^#/, "");
+			return /^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(hex) ? `#${hex.toLowerCase()}` : undefined;
+		}
+		case "boolean":
+			return ["1", "true", "yes"].includes(raw) ? true : ["0", "false", "no"].includes(raw) ? false : undefined;
+		case "choice":
+			return values.includes(raw) ? raw : undefined;
+		default:
+			return raw.trim().toUpperCase() || undefined;
+	}
+}
+
+function formatOption({ type }: OptionParam, value: unknown) {
+	if (type === "boolean") return value ? "1" : "0";
+	if (type === "color") return String(value).replace(/^#/, "");
+	return String(value);
+}
+
+/**
+ * Reads a generator configuration from query parameters. Unknown formats and
+ * out-of-range options are ignored so a mistyped link still shows something.
+ */
+export function parseGeneratorLink(params: URLSearchParams): GeneratorLink {
+	const options: RenderOptions = { ...DEFAULT_RENDER_OPTIONS };
+	OPTION_PARAMS.forEach(entry => {
+		const raw = params.get(entry.param);
+		const value = raw === null ? undefined : parseOption(entry, raw);
+		if (value !== undefined) (options as Record<string, unknown>)[entry.option] = value;
+	});
+
+	const format = params.get("format");
+	return {
+		format: format ? resolveFormat(format) : null,
+		data: params.get("data"),
+		options,
+	};
+}
+
+/** Query string for a generator configuration; options at their defaults are left out. */
+export function toGeneratorSearch(format: string, data: string, options: RenderOptions) {
+	const params = new URLSearchParams({ format, data });
+	OPTION_PARAMS.forEach(entry => {
+		const value = options[entry.option];
+		if (value !== undefined && value !== DEFAULT_RENDER_OPTIONS[entry.option]) {
+			params.set(entry.param, formatOption(entry, value));
+		}
+	});
+	return params.toString();
+}
+
+export function getGeneratorUrl(format: string, data: string, options: RenderOptions) {
+	return `${window.location.origin}/generate?${toGeneratorSearch(format, data, options)}`;
+}
+
+/**
+ * Link to a page showing only the barcode, for iframes. The app is static files
+ * and has no image endpoint: this is an HTML page, not an <img> src.
+ */
+export function getRenderUrl(format: string, data: string, options: RenderOptions) {
+	return `${window.location.origin}/render?${toGeneratorSearch(format, data, options)}`;
+}
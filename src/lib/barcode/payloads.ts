@@ -0,0 +1,424 @@
+/**
+ * Structured QR payloads as understood by phone camera apps: Wi-Fi credentials,
+ * contacts, e-mail, SMS, locations and calendar events. Each template builds
+ * the payload string from form values and parsePayload reads it back.
+ */
+export type PayloadType = "wifi" | "vcard" | "mecard" | "email" | "sms" | "geo" | "event";
+
+export type PayloadField = {
+	key: string;
+	label: string;
+	input?: "text" | "password" | "textarea" | "select" | "checkbox" | "number" | "datetime-local" | "email" | "tel";
+	options?: { value: string; label: string }[];
+	placeholder?: string;
+	required?: boolean;
+};
+
+export type PayloadTemplate = {
+	type: PayloadType;
+	label: string;
+	fields: PayloadField[];
+	defaults: Record<string, string>;
+};
+
+export type ParsedPayload = {
+	type: PayloadType;
+	label: string;
+	values: Record<string, string>;
+};
+
+export const PAYLOAD_TEMPLATES: PayloadTemplate[] = [
+	{
+		type: "wifi",
+		label: "Wi-Fi network",
+		fields: [
+			{ key: "ssid", label: "Network name (SSID)", required: true },
+			{
+				key: "security",
+				label: "Security",
+				input: "select",
+				options: [
+					{ value: "WPA", label: "WPA/WPA2/WPA3" },
+					{ value: "WEP", label: "WEP" },
+					{ value: "nopass", label: "None" },
+				],
+			},
+			{ key: "password", label: "Password", input: "password" },
+			{ key: "hidden", label: "Hidden network", input: "checkbox" },
+		],
+		defaults: { ssid: "", security: "WPA", password: "", hidden: "" },
+	},
+	{
+		type: "vcard",
+		label: "Contact (vCard)",
+		fields: [
+			{ key: "firstName", label: "First name" },
+			{ key: "lastName", label: "Last name", required: true },
+			{ key: "organization", label: "Organization" },
+			{ key: "title", label: "Job title" },
+			{ key: "phone", label: "Phone", input: "tel" },
+			{ key: "email", label: "E-mail", input: "email" },
+			{ key: "url", label: "Website" },
+			{ key: "address", label: "Address", input: "textarea" },
+			{ key: "note", label: "Note", input: "textarea" },
+		],
+		defaults: {},
+	},
+	{
+		type: "mecard",
+		label: "Contact (MeCard)",
+		fields: [
+			{ key: "name", label: "Name (Last, First)", required: true },
+			{ key: "phone", label: "Phone", input: "tel" },
+			{ key: "email", label: "E-mail", input: "email" },
+			{ key: "url", label: "Website" },
+			{ key: "address", label: "Address" },
+			{ key: "note", label: "Note" },
+		],
+		defaults: {},
+	},
+	{
+		type: "email",
+		label: "E-mail",
+		fields: [
+			{ key: "to", label: "To", input: "email", required: true },
+			{ key: "subject", label: "Subject" },
+			{ key: "body", label: "Message", input: "textarea" },
+		],
+		defaults: {},
+	},
+	{
+		type: "sms",
+		label: "SMS",
+		fields: [
+			{ key: "phone", label: "Phone number", input: "tel", required: true },
+			{ key: "message", label: "Message", input: "textarea" },
+		],
+		defaults: {},
+	},
+	{
+		type: "geo",
+		label: "Location",
+		fields: [
+			{ key: "latitude", label: "Latitude", input: "number", placeholder: "52.3731", required: true },
+			{ key: "longitude", label: "Longitude", input: "number", placeholder: "4.8922", required: true },
+			{ key: "query", label: "Place name" },
+		],
+		defaults: {},
+	},
+	{
+		type: "event",
+		label: "Calendar event",
+		fields: [
+			{ key: "summary", label: "Title", required: true },
+			{ key: "start", label: "Starts", input: "datetime-local", required: true },
+			{ key: "end", label: "Ends", input: "datetime-local" },
+			{ key: "location", label: "Location" },
+			{ key: "description", label: "Description", input: "textarea" },
+		],
+		defaults: {},
+	},
+];
+
+export function getPayloadTemplate(type: PayloadType) {
+	return PAYLOAD_TEMPLATES.find(template => template.type === type)!;
+}
+
+// --- Escaping ---------------------------------------------------------------
+
+// WIFI: and MECARD: escape their separators with a backslash
+function escapeFields(value: string) {
+	return value.replace(/([\\;,:"])/g, "\\$1");
+}
+
+function unescapeFields(value: string) {
+	return value.replace(/\\(.)/g, "$1");
+}
+
+// vCard and iCalendar text values (RFC 6350 / RFC 5545)
+function escapeText(value: string) {
+	return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string) {
+	return value.replace(/\\([nN;,\\])/g, (_, char) => (char === "n" || char === "N" ? "\n" : char));
+}
+
+/** Splits on a separator that is not escaped with a backslash. */
+function splitEscaped(value: string, separator: string) {
+	const parts: string[] = [];
+	let current = "";
+	for (let i = 0; i < value.length; i++) {
+		if (value[i] === "\\" && i + 1 < value.length) {
+			current += value[i] + value[i + 1];
+			i++;
+		} else if (value[i] === separator) {
+			parts.push(current);
+			current = "";
+		} else {
+			current += value[i];
+		}
+	}
+	parts.push(current);
+	return parts;
+}
+
+// datetime-local "2026-10-18T14:30" <-> iCalendar floating time "20261018T143000"
+function toIcalDate(value: string) {
+	const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+	return match ? `${match[1]}${match[2]}${match[3]}T${match[4]}${match[5]}00` : "";
+}
+
+function fromIcalDate(value: string) {
+	const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2}))?/.exec(value);
+	if (!match) return value;
+	return `${match[1]}-${match[2]}-${match[3]}T${match[4] ?? "00"}:${match[5] ?? "00"}`;
+}
+
+// --- Building ---------------------------------------------------------------
+
+function contentLines(lines: [string, string | undefined][]) {
+	return lines.filter(([, value]) => value).map(([name, value]) => `${name}:${value}`);
+}
+
+export function buildPayload(type: PayloadType, values: Record<string, string>) {
+	const v = (key: string) => (values[key] ?? "").trim();
+
+	switch (type) {
+		case "wifi": {
+			const security = v("security") || "WPA";
+			const parts = [`T:${security}`, `S:${escapeFields(v("ssid"))}`];
+			if (security !== "nopass") parts.push(`P:${escapeFields(values.password ?? "")}`);
+			if (v("hidden") === "true") parts.push("H:true");
+			return `WIFI:${parts.join(";")};;`;
+		}
+		case "vcard": {
+			const fullName = [v("firstName"), v("lastName")].filter(Boolean).join(" ");
+			return [
+				"BEGIN:VCARD",
+				"VERSION:3.0",
+				`N:${escapeText(v("lastName"))};${escapeText(v("firstName"))};;;`,
+				`FN:${escapeText(fullName)}`,
+				...contentLines([
+					["ORG", escapeText(v("organization"))],
+					["TITLE", escapeText(v("title"))],
+					["TEL;TYPE=CELL", escapeText(v("phone"))],
+					["EMAIL", escapeText(v("email"))],
+					["URL", escapeText(v("url"))],
+					// Whole address in the street component; phones show it as typed
+					["ADR", v("address") && `;;${escapeText(v("address"))};;;;`],
+					["NOTE", escapeText(v("note"))],
+				]),
+				"END:VCARD",
+			].join("\n");
+		}
+		case "mecard": {
+			const parts = contentLines([
+				// The comma between last and first name is a separator, not data
+				["N", v("name").split(",").map(part => escapeFields(part.trim())).join(",")],
+				["TEL", escapeFields(v("phone"))],
+				["EMAIL", escapeFields(v("email"))],
+				["URL", escapeFields(v("url"))],
+				["ADR", escapeFields(v("address"))],
+				["NOTE", escapeFields(v("note"))],
+			]);
+			return `MECARD:${parts.join(";")};;`;
+		}
+		case "email": {
+			const query = [
+				v("subject") && `subject=${encodeURIComponent(v("subject"))}`,
+				v("body") && `body=${encodeURIComponent(values.body.trim())}`,
+			].filter(Boolean);
+			return `mailto:${v("to")}${query.length > 0 ? `?${query.join("&")}` : ""}`;
+		}
+		case "sms":
+			return `SMSTO:${v("phone")}:${values.message?.trim() ?? ""}`;
+		case "geo": {
+			const query = v("query") ? `?q=${encodeURIComponent(v("query"))}` : "";
+			return `geo:${v("latitude")},${v("longitude")}${query}`;
+		}
+		case "event":
+			return [
+				"BEGIN:VEVENT",
+				`SUMMARY:${escapeText(v("summary"))}`,
+				...contentLines([
+					["DTSTART", toIcalDate(v("start"))],
+					["DTEND", toIcalDate(v("end"))],
+					["LOCATION", escapeText(v("location"))],
+					["DESCRIPTION", escapeText(v("description"))],
+				]),
+				"END:VEVENT",
+			].join("\n");
+	}
+}
+
+/** Required fields that are still empty, by label. */
+export function missingPayloadFields(type: PayloadType, values: Record<string, string>) {
+	return getPayloadTemplate(type)
+		.fields.filter(field => field.required && !(values[field.key] ?? "").trim())
+		.map(field => field.label);
+}
+
+// --- Parsing ----------------------------------------------------------------
+
+/** Content lines of a vCard or iCalendar block, with folded lines joined and parameters dropped. */
+function readContentLines(text: string) {
+	const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+	const properties: Record<string, string> = {};
+	for (const line of lines) {
+		const colon = line.indexOf(":");
+		if (colon === -1) continue;
+		const name = line.slice(0, colon).split(";")[0].toUpperCase();
+		if (!(name in properties)) properties[name] = line.slice(colon + 1);
+	}
+	return properties;
+}
+
+/** Percent-decodes a URI part; a malformed escape in a scanned code leaves the text as it was. */
+function decodeUriText(value: string) {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+function parseKeyValues(body: string) {
+	const values: Record<string, string> = {};
+	for (const part of splitEscaped(body, ";")) {
+		const colon = part.indexOf(":");
+		if (colon > 0 && !(part.slice(0, colon).toUpperCase() in values)) {
+			values[part.slice(0, colon).toUpperCase()] = unescapeFields(part.slice(colon + 1));
+		}
+	}
+	return values;
+}
+
+function parseWifi(text: string): Record<string, string> {
+	const fields = parseKeyValues(text.slice(5));
+	return {
+		ssid: fields.S ?? "",
+		security: fields.T || "nopass",
+		password: fields.P ?? "",
+		hidden: fields.H === "true" ? "true" : "",
+	};
+}
+
+function parseVcard(text: string): Record<string, string> {
+	const properties = readContentLines(text);
+	const [lastName = "", firstName = ""] = splitEscaped(properties.N ?? "", ";").map(unescapeText);
+	const address = splitEscaped(properties.ADR ?? "", ";").map(unescapeText).filter(Boolean).join(", ");
+
+	return {
+		firstName: firstName || (!lastName ? unescapeText(properties.FN ?? "") : ""),
+		lastName,
+		organization: splitEscaped(properties.ORG ?? "", ";").map(unescapeText).filter(Boolean).join(" "),
+		title: unescapeText(properties.TITLE ?? ""),
+		phone: unescapeText(properties.TEL ?? ""),
+		email: unescapeText(properties.EMAIL ?? ""),
+		url: unescapeText(properties.URL ?? ""),
+		address,
+		note: unescapeText(properties.NOTE ?? ""),
+	};
+}
+
+function parseMecard(text: string): Record<string, string> {
+	const fields = parseKeyValues(text.slice(7));
+	return {
+		name: fields.N ?? "",
+		phone: fields.TEL ?? "",
+		email: fields.EMAIL ?? "",
+		url: fields.URL ?? "",
+		address: fields.ADR ?? "",
+		note: fields.NOTE ?? "",
+	};
+}
+
+function parseMailto(text: string): Record<string, string> {
+	const [address, query = ""] = text.slice(7).split("?");
+	const params = new URLSearchParams(query);
+	return {
+		to: decodeUriText(address),
+		subject: params.get("subject") ?? "",
+		body: params.get("body") ?? "",
+	};
+}
+
+function parseSms(text: string): Record<string, string> {
+	// SMSTO:number:message, or the sms:number?body=message URI form
+	if (/^smsto:/i.test(text)) {
+		const body = text.slice(6);
+		const colon = body.indexOf(":");
+		return colon === -1
+			? { phone: body, message: "" }
+			: { phone: body.slice(0, colon), message: body.slice(colon + 1) };
+	}
+	const [phone, query = ""] = text.slice(4).split("?");
+	return { phone, message: new URLSearchParams(query).get("body") ?? "" };
+}
+
+function parseGeo(text: string): Record<string, string> | null {
+	const match = /^geo:(-?[\d.]+),(-?[\d.]+)(?:,[-\d.]+)?(?:\?q=(.*))?$/i.exec(text);
+	if (!match) return null;
+	return { latitude: match[1], longitude: match[2], query: match[3] ? decodeUriText(match[3]) : "" };
+}
+
+function parseEvent(text: string): Record<string, string> {
+	const event = text.slice(text.toUpperCase().indexOf("BEGIN:VEVENT"));
+	// A truncated scan may lack the END line; everything after BEGIN is then the event
+	const end = event.toUpperCase().indexOf("END:VEVENT");
+	const properties = readContentLines(end === -1 ? event : event.slice(0, end));
+	return {
+		summary: unescapeText(properties.SUMMARY ?? ""),
+		start: properties.DTSTART ? fromIcalDate(properties.DTSTART) : "",
+		end: properties.DTEND ? fromIcalDate(properties.DTEND) : "",
+		location: unescapeText(properties.LOCATION ?? ""),
+		description: unescapeText(properties.DESCRIPTION ?? ""),
+	};
+}
+
+function detectValues(text: string): [PayloadType, Record<string, string> | null] | null {
+	const upper = text.slice(0, 16).toUpperCase();
+	if (upper.startsWith("WIFI:")) return ["wifi", parseWifi(text)];
+	if (upper.startsWith("BEGIN:VCARD")) return ["vcard", parseVcard(text)];
+	if (upper.startsWith("MECARD:")) return ["mecard", parseMecard(text)];
+	if (upper.startsWith("MAILTO:")) return ["email", parseMailto(text)];
+	if (upper.startsWith("SMSTO:") || upper.startsWith("SMS:")) return ["sms", parseSms(text)];
+	if (upper.startsWith("GEO:")) return ["geo", parseGeo(text)];
+	if (/BEGIN:VEVENT/i.test(text) && /^BEGIN:(VEVENT|VCALENDAR)/i.test(text)) return ["event", parseEvent(text)];
+	return null;
+}
+
+/** Recognizes a structured payload in scanned text; returns null for anything else. */
+export function parsePayload(text: string): ParsedPayload | null {
+	const detected = detectValues(text.trim());
+	if (!detected || !detected[1]) return null;
+
+	const [type, values] = detected;
+	return { type, label: getPayloadTemplate(type).label, values };
+}
+
+/** vCard file contents for a scanned vCard or MeCard, for "add contact". */
+export function toVcardFile(payload: ParsedPayload) {
+	if (payload.type === "mecard") {
+		const [lastName = "", firstName = ""] = payload.values.name.split(",").map(part => part.trim());
+		return buildPayload("vcard", { ...payload.values, firstName, lastName });
+	}
+	return buildPayload("vcard", payload.values);
+}
+
+/** iCalendar file for a scanned event; calendar apps need the VCALENDAR wrapper, a UID and a timestamp. */
+export function toIcsFile(payload: ParsedPayload) {
+	const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+	const [begin, ...event] = buildPayload("event", payload.values).split("\n");
+	return [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		"PRODID:-//Barcode Toolkit//EN",
+		begin,
+		`UID:${stamp}-${Math.random().toString(36).slice(2)}@barcode-toolkit`,
+		`DTSTAMP:${stamp}`,
+		...event,
+		"END:VCALENDAR",
+	].join("\r\n");
+}
@@ -0,0 +1,394 @@
+import JsBarcode from "jsbarcode";
+import {
+	qrcode,
+	datamatrix,
+	pdf417,
+	azteccode,
+	gs1_128,
+	gs1datamatrix,
+	gs1qrcode,
+	drawingSVG,
+	RenderOptions as BwipRenderOptions,
+} from "bwip-js/browser";
+import { getFormat, isGs1Format, isMatrixFormat } from "./formats";
+import { buildElementString, parseBracketed } from "./gs1";
+import { splitAddOn } from "./validation";
+
+// Options for 2D symbols; moduleSize is in pixels and quietZone in modules
+export type MatrixOptions = {
+	errorCorrection?: string;
+	moduleSize?: number;
+	quietZone?: number;
+};
+
+export type RenderOptions = JsBarcode.Options & MatrixOptions;
+
+export type NumericRenderOption = "width" | "height" | "margin" | "fontSize" | "textMargin" | "moduleSize" | "quietZone";
+
+// Limits shared by the style panel and generator links, so a link never sets what the panel cannot show
+export const OPTION_RANGES: Record<NumericRenderOption, { min: number; max: number }> = {
+	width: { min: 0.5, max: 10 },
+	height: { min: 10, max: 400 },
+	margin: { min: 0, max: 100 },
+	fontSize: { min: 6, max: 48 },
+	textMargin: { min: 0, max: 40 },
+	moduleSize: { min: 1, max: 20 },
+	quietZone: { min: 0, max: 20 },
+};
+
+export const FONT_FAMILIES = ["monospace", "sans-serif", "serif", "Arial", "Courier New", "Verdana"];
+
+export const FONT_STYLES = [
+	{ value: "", label: "Regular" },
+	{ value: "bold", label: "Bold" },
+	{ value: "italic", label: "Italic" },
+	{ value: "bold italic", label: "Bold italic" },
+];
+
+export const TEXT_ALIGNS = [
+	{ value: "left", label: "Left" },
+	{ value: "center", label: "Center" },
+	{ value: "right", label: "Right" },
+];
+
+export const TEXT_POSITIONS = [
+	{ value: "bottom", label: "Below bars" },
+	{ value: "top", label: "Above bars" },
+];
+
+// Fixed pixel values so the same options always produce the same file, whatever the viewport
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+	lineColor: "#1f2937",
+	background: "#ffffff",
+	width: 1.8,
+	height: 80,
+	displayValue: true,
+	margin: 12,
+	font: "monospace",
+	fontSize: 12,
+	fontOptions: "bold",
+	textAlign: "center",
+	textPosition: "bottom",
+	textMargin: 6,
+	moduleSize: 4,
+	quietZone: 4,
+};
+
+// bwip-js draws one module as this many points at scale 1
+const MATRIX_ENCODERS: Record<string, { bcid: string; encode: typeof qrcode; modulePoints: number }> = {
+	QR: { bcid: "qrcode", encode: qrcode, modulePoints: 2 },
+	GS1_QR: { bcid: "gs1qrcode", encode: gs1qrcode, modulePoints: 2 },
+	DATAMATRIX: { bcid: "datamatrix", encode: datamatrix, modulePoints: 2 },
+	GS1_DATAMATRIX: { bcid: "gs1datamatrix", encode: gs1datamatrix, modulePoints: 2 },
+	PDF417: { bcid: "pdf417", encode: pdf417, modulePoints: 1 },
+	AZTEC: { bcid: "azteccode", encode: azteccode, modulePoints: 2 },
+};
+
+// Generator formats whose JsBarcode encoder has a different name; MSI uses the common mod 10 check
+const JSBARCODE_FORMATS: Record<string, string> = {
+	CODABAR: "codabar",
+	PHARMACODE: "pharmacode",
+	MSI: "MSI10",
+};
+
+// Gap between a main symbol and its add-on, in modules
+const ADD_ON_GAP = 9;
+
+// Modules JsBarcode leaves blank left and right of the guards for the digits printed outside them
+const OUTSIDE_DIGIT_MODULES: Record<string, [number, number]> = {
+	EAN13: [12, 0],
+	UPC: [8, 8],
+	UPCE: [8, 8],
+};
+// GS1 human readable digits take 9⅓ modules below the bars, the guard bars reach 5 of them
+const HRI_MODULES = 28 / 3;
+const GUARD_EXTENSION_MODULES = 5;
+// Quiet zone right of an add-on, in modules
+const ADD_ON_QUIET_ZONE = 5;
+
+// Linear bwip-js symbols also use two points per module, with heights given in millimetres at 72 points per inch
+const LINEAR_MODULE_POINTS = 2;
+const POINTS_PER_MM = 72 / 25.4;
+
+export function resolveErrorCorrection(format: string, level?: string) {
+	const errorCorrection = getFormat(format)?.errorCorrection;
+	if (!errorCorrection) return undefined;
+
+	return errorCorrection.levels.some(l => l.value === level) ? level : errorCorrection.default;
+}
+
+// bwip-js expects bare RRGGBB hex values
+function toBwipColor(color?: string) {
+	if (!color) return undefined;
+
+	const hex = color.replace(/^#/, "");
+	if (/^[0-9a-f]{6}$/i.test(hex)) return hex.toUpperCase();
+	if (/^[0-9a-f]{3}$/i.test(hex)) return hex.replace(/./g, c => c + c).toUpperCase();
+	return undefined;
+}
+
+// Strips the "bwipp.qrcodeInvalidEClevel#27076:" style prefix from bwip-js errors
+function encodeBwip(encode: typeof qrcode, options: BwipRenderOptions) {
+	try {
+		return encode(options, drawingSVG());
+	} catch (err: any) {
+		throw new Error(String(err?.message || err).replace(/^bwip(p|-js)[^:]*:\s*/, ""));
+	}
+}
+
+// bwip-js only sets a viewBox at 1 point per unit; give the SVG a pixel size from the scale factor
+function sizeBwipSvg(svgString: string, factor: number) {
+	const [, width, height] = /viewBox="0 0 (\d+) (\d+)"/.exec(svgString) || [];
+	return svgString.replace("<svg ", `<svg width="${Number(width) * factor}" height="${Number(height) * factor}" `);
+}
+
+function renderMatrixSvg(value: string, format: string, options: RenderOptions) {
+	const { bcid, encode, modulePoints } = MATRIX_ENCODERS[format];
+	const moduleSize = options.moduleSize ?? DEFAULT_RENDER_OPTIONS.moduleSize;
+	const quietZone = options.quietZone ?? DEFAULT_RENDER_OPTIONS.quietZone;
+	const eclevel = resolveErrorCorrection(format, options.errorCorrection);
+
+	const barcolor = toBwipColor(options.lineColor);
+
+	// bwip-js rejects options that are present but undefined
+	const bwipOptions: BwipRenderOptions & { eclevel?: string } = {
+		bcid,
+		text: value,
+		scale: 1,
+		padding: quietZone * modulePoints,
+		backgroundcolor: toBwipColor(options.background) ?? "FFFFFF",
+	};
+	if (barcolor) bwipOptions.barcolor = barcolor;
+	if (eclevel) bwipOptions.eclevel = eclevel;
+
+	// Size the SVG so one module is moduleSize pixels
+	return sizeBwipSvg(encodeBwip(encode, bwipOptions), moduleSize / modulePoints);
+}
+
+/**
+ * GS1-128 needs FNC1 characters that JsBarcode cannot encode, so it is drawn by
+ * bwip-js with the linear options translated: bar width and height in pixels,
+ * margin as padding and the human readable text below the bars.
+ */
+function renderGs1LinearSvg(value: string, options: RenderOptions) {
+	const width = options.width ?? DEFAULT_RENDER_OPTIONS.width;
+	const height = options.height ?? DEFAULT_RENDER_OPTIONS.height;
+	const margin = options.margin ?? DEFAULT_RENDER_OPTIONS.margin;
+	const factor = width / LINEAR_MODULE_POINTS;
+
+	const barcolor = toBwipColor(options.lineColor);
+	const bwipOptions: BwipRenderOptions = {
+		bcid: "gs1-128",
+		text: value,
+		scale: 1,
+		height: height / factor / POINTS_PER_MM,
+		padding: margin / factor,
+		backgroundcolor: toBwipColor(options.background) ?? "FFFFFF",
+		includetext: options.displayValue ?? true,
+		textsize: (options.fontSize ?? DEFAULT_RENDER_OPTIONS.fontSize) / factor,
+		textyoffset: (options.textMargin ?? DEFAULT_RENDER_OPTIONS.textMargin) / factor,
+	};
+	if (barcolor) {
+		bwipOptions.barcolor = barcolor;
+		bwipOptions.textcolor = barcolor;
+	}
+
+	return sizeBwipSvg(encodeBwip(gs1_128, bwipOptions), factor);
+}
+
+// Fills in missing check digits so "(01)0950600013435" renders like the validator promised
+function completeElementString(value: string) {
+	const elements = parseBracketed(value);
+	return elements ? buildElementString(elements) : value;
+}
+
+// Returns SVG markup for the value in the given format; throws on invalid input
+export function renderBarcodeSvg(value: string, format: string, options: RenderOptions = DEFAULT_RENDER_OPTIONS) {
+	if (isGs1Format(format)) {
+		value = completeElementString(value);
+		if (!isMatrixFormat(format)) return renderGs1LinearSvg(value, options);
+	}
+
+	if (isMatrixFormat(format)) {
+		return renderMatrixSvg(value, format, options);
+	}
+
+	const { errorCorrection, moduleSize, quietZone, ...linearOptions } = options;
+	const svgNode = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+	const addOn = getFormat(format)?.addOn ? splitAddOn(value) : null;
+
+	if (addOn) {
+		renderWithAddOn(svgNode, addOn.main, addOn.addOn, format, linearOptions);
+	} else {
+		// JsBarcode only uppercases CODE 39 itself
+		const text = format === "CODE93" ? value.toUpperCase() : value;
+		JsBarcode(svgNode, text, { ...linearOptions, format: JSBARCODE_FORMATS[format] ?? format });
+	}
+
+	return svgNode.outerHTML;
+}
+
+/**
+ * Draws the main symbol followed by its EAN-2/EAN-5 supplement, with the add-on
+ * digits above its bars so the bars end level with the main symbol's.
+ */
+function renderWithAddOn(svgNode: SVGSVGElement, main: string, addOn: string, format: string, options: JsBarcode.Options) {
+	const height = options.height ?? DEFAULT_RENDER_OPTIONS.height;
+	const textHeight = options.displayValue === false
+		? 0
+		: (options.fontSize ?? DEFAULT_RENDER_OPTIONS.fontSize) + (options.textMargin ?? DEFAULT_RENDER_OPTIONS.textMargin);
+
+	// The typings leave out UPCE, which the chain API registers like every other encoder
+	const api = JsBarcode(svgNode).options(options) as JsBarcode.api & Record<string, (value: string, options?: JsBarcode.Options) => JsBarcode.api>;
+	const addOnFormat = addOn.length === 2 ? "EAN2" : "EAN5";
+	api[format](main, {}).blank(ADD_ON_GAP);
+	api[addOnFormat](addOn, { height: Math.max(height - textHeight, 10), textPosition: "top" }).render();
+}
+
+/**
+ * Draws an EAN/UPC symbol at GS1 proportions with one module per SVG unit: the
+ * quiet zones, bar height and digits of 100% magnification, so scaling by the
+ * X-dimension gives the nominal size. Colours and font follow the options.
+ * Returns null for formats without a GS1 layout.
+ */
+export function renderNominalSvg(value: string, format: string, options: RenderOptions = DEFAULT_RENDER_OPTIONS) {
+	const definition = getFormat(format);
+	if (!definition?.nominalHeight || !definition.quietZones || !definition.nominalXDimension) return null;
+
+	const addOn = definition.addOn ? splitAddOn(value) : null;
+	const [outsideLeft, outsideRight] = OUTSIDE_DIGIT_MODULES[format] ?? [0, 0];
+	const quietLeft = definition.quietZones[0];
+	// An add-on follows the main symbol's right digit block and has its own quiet zone
+	const [quietRight, blankRight] = addOn ? [ADD_ON_QUIET_ZONE, 0] : [definition.quietZones[1], outsideRight];
+	const fontSize = 2 * (HRI_MODULES - GUARD_EXTENSION_MODULES);
+
+	const { errorCorrection, moduleSize, quietZone, ...linearOptions } = options;
+	const nominalOptions: JsBarcode.Options = {
+		...linearOptions,
+		width: 1,
+		height: definition.nominalHeight / definition.nominalXDimension - HRI_MODULES,
+		displayValue: true,
+		fontSize,
+		textMargin: GUARD_EXTENSION_MODULES - fontSize / 2,
+		textAlign: "center",
+		textPosition: "bottom",
+		margin: 0,
+		marginTop: 0,
+		marginBottom: 0,
+		marginLeft: Math.max(quietLeft - outsideLeft, 0),
+		marginRight: Math.max(quietRight - blankRight, 0),
+	};
+
+	const svgNode = document.createElementNS("http://www.w3.org/2000/svg", "svg");
+	if (addOn) {
+		renderWithAddOn(svgNode, addOn.main, addOn.addOn, format, nominalOptions);
+	} else {
+		JsBarcode(svgNode, value, { ...nominalOptions, format });
+	}
+
+	// Where JsBarcode's blank modules are wider than the quiet zone, crop them and move their digit in
+	const cropLeft = Math.max(outsideLeft - quietLeft, 0);
+	const cropRight = Math.max(blankRight - quietRight, 0);
+	const groups = svgNode.querySelectorAll("g");
+	const shiftText = (group: Element | undefined, offset: number) => {
+		const text = group?.querySelector("text");
+		if (text && offset) text.setAttribute("x", String(Number(text.getAttribute("x")) + offset));
+	};
+	shiftText(groups[0], cropLeft);
+	shiftText(groups[groups.length - 1], -cropRight);
+
+	const width = parseFloat(svgNode.getAttribute("width") || "") - cropLeft - cropRight;
+	const height = parseFloat(svgNode.getAttribute("height") || "");
+	svgNode.setAttribute("width", `${width}px`);
+	svgNode.setAttribute("viewBox", `${cropLeft} 0 ${width} ${height}`);
+
+	return svgNode.outerHTML;
+}
+
+export function svgToDataUrl(svgString: string) {
+	return `data:image/svg+xml,${encodeURIComponent(svgString)}`;
+}
+
+// Browsers lay out SVG pixels at 96 per inch
+const CSS_PIXELS_PER_INCH = 96;
+
+// 203 and 300 dpi match common thermal label printers
+export const DPI_PRESETS = [72, 150, 203, 300, 600];
+
+/** Length in millimetres of SVG pixels at 100% zoom. */
+export function screenPixelsToMm(pixels: number) {
+	return (pixels / CSS_PIXELS_PER_INCH) * 25.4;
+}
+
+// Intrinsic pixel size from the width/height attributes, falling back to the viewBox
+export function getSvgSize(svgString: string) {
+	const svg = new DOMParser().parseFromString(svgString, "image/svg+xml").documentElement;
+	const viewBox = (svg.getAttribute("viewBox") || "").split(/[\s,]+/).map(Number);
+
+	return {
+		width: parseFloat(svg.getAttribute("width") || "") || viewBox[2] || 0,
+		height: parseFloat(svg.getAttribute("height") || "") || viewBox[3] || 0,
+	};
+}
+
+/**
+ * Returns the SVG with new outer dimensions, e.g. resizeSvg(svg, 37.29, 25.93, "mm").
+ * With stretch the drawing fills the box exactly instead of keeping its aspect ratio.
+ */
+export function resizeSvg(svgString: string, width: number, height: number, unit = "", stretch = false) {
+	const svg = new DOMParser().parseFromString(svgString, "image/svg+xml").documentElement;
+	const { width: naturalWidth, height: naturalHeight } = getSvgSize(svgString);
+
+	if (!svg.getAttribute("viewBox")) {
+		svg.setAttribute("viewBox", `0 0 ${naturalWidth} ${naturalHeight}`);
+	}
+	svg.setAttribute("width", `${width}${unit}`);
+	svg.setAttribute("height", `${height}${unit}`);
+	if (stretch) {
+		svg.setAttribute("preserveAspectRatio", "none");
+	}
+
+	return new XMLSerializer().serializeToString(svg);
+}
+
+/** Draws the SVG onto a canvas of exactly width x height pixels. */
+export function rasterizeSvgToSize(svgString: string, width: number, height: number): Promise<HTMLCanvasElement> {
+	return new Promise((resolve, reject) => {
+		const image = new Image();
+
+		image.onload = () => {
+			const canvas = document.createElement("canvas");
+			canvas.width = width;
+			canvas.height = height;
+
+			const context = canvas.getContext("2d");
+			if (!context) {
+				reject(new Error("Canvas is not supported in this browser."));
+				return;
+			}
+
+			context.fillStyle = "#ffffff";
+			context.fillRect(0, 0, canvas.width, canvas.height);
+			context.drawImage(image, 0, 0, canvas.width, canvas.height);
+			resolve(canvas);
+		};
+		image.onerror = () => reject(new Error("Failed to load SVG for rasterizing."));
+		// Size the SVG itself so the browser rasterizes the vector at the target resolution
+		image.src = svgToDataUrl(resizeSvg(svgString, width, height, "", true));
+	});
+}
+
+export function rasterizeSvg(svgString: string, scale = 2): Promise<HTMLCanvasElement> {
+	const { width, height } = getSvgSize(svgString);
+	return rasterizeSvgToSize(svgString, Math.ceil(width * scale), Math.ceil(height * scale));
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = "image/png", quality?: number): Promise<Blob> {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`Failed to encode ${type}.`))), type, quality);
+	});
+}
+
+export async function svgToPngBlob(svgString: string, scale = 2): Promise<Blob> {
+	return canvasToBlob(await rasterizeSvg(svgString, scale));
+}
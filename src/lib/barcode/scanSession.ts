@@ -0,0 +1,125 @@
+import { createId } from "@/lib/utils";
+import { DecodedBarcode, SCAN_SYMBOLOGIES } from "./decode";
+import { getSymbologyLabel } from "./formats";
+
+// --- Formats ----------------------------------------------------------------
+
+export type ScanFormatPreset = {
+	id: string;
+	label: string;
+	formats: string[];
+};
+
+export const SCAN_FORMAT_PRESETS: ScanFormatPreset[] = [
+	{ id: "all", label: "All formats", formats: SCAN_SYMBOLOGIES },
+	{ id: "retail", label: "Retail (EAN/UPC)", formats: ["EAN_13", "EAN_8", "UPC_A", "UPC_E"] },
+	// SSCC labels are GS1-128, which zxing reports as CODE_128
+	{ id: "logistics", label: "Logistics (ITF/Code128/SSCC)", formats: ["ITF", "CODE_128", "CODE_39"] },
+	{ id: "2d", label: "All 2D", formats: ["QR_CODE", "DATA_MATRIX", "PDF_417", "AZTEC"] },
+];
+
+function sameFormats(a: string[], b: string[]) {
+	return a.length === b.length && a.every(format => b.includes(format));
+}
+
+export function findScanFormatPreset(formats: string[]) {
+	return SCAN_FORMAT_PRESETS.find(preset => sameFormats(preset.formats, formats)) ?? null;
+}
+
+/** Short description of the active filter, e.g. "Retail (EAN/UPC)" or "EAN-13, QR Code". */
+export function describeScanFormats(formats: string[]) {
+	const preset = findScanFormatPreset(formats);
+	if (preset) return preset.label;
+	if (formats.length > 3) return `${formats.length} formats`;
+	return formats.map(getSymbologyLabel).join(", ");
+}
+
+// --- Session ----------------------------------------------------------------
+
+export type ScanSettings = {
+	// Keep the camera open and count repeat reads instead of stopping after the first hit
+	continuous: boolean;
+	// Seconds before the same code is accepted again in continuous mode
+	cooldown: number;
+	sound: boolean;
+	vibrate: boolean;
+	// zxing symbologies to look for; fewer formats decode faster with fewer false reads
+	formats: string[];
+};
+
+export const DEFAULT_SCAN_SETTINGS: ScanSettings = {
+	continuous: false,
+	cooldown: 2,
+	sound: true,
+	vibrate: true,
+	formats: SCAN_SYMBOLOGIES,
+};
+
+/** Turns a decoder hit into a history entry; `extra` carries where it came from. */
+export function createScanResult(decoded: DecodedBarcode, extra: Partial<ScanResult> = {}): ScanResult {
+	const { text, format, rawBytes, points, duration } = decoded;
+	return { id: createId(), text: text.trim(), timestamp: Date.now(), format, rawBytes, points, duration, ...extra };
+}
+
+/**
+ * Returns true if the code has not been accepted within the cooldown and records
+ * the read. The camera reports the same code on every frame it stays in view.
+ */
+export function acceptScan(lastAccepted: Map<string, number>, text: string, now: number, cooldownMs: number) {
+	const previous = lastAccepted.get(text);
+	if (previous !== undefined && now - previous < cooldownMs) return false;
+
+	lastAccepted.set(text, now);
+	return true;
+}
+
+/** Adds a camera read to the history, bumping the count of an earlier camera read of the same code. */
+export function countScanResult(results: ScanResult[], result: ScanResult) {
+	const existing = results.find(r => r.text === result.text && !r.source && !r.input);
+	if (!existing) return [{ ...result, count: 1 }, ...results];
+
+	const updated = { ...existing, timestamp: result.timestamp, count: (existing.count ?? 1) + 1 };
+	return [updated, ...results.filter(r => r !== existing)];
+}
+
+export function getScanTotals(results: ScanResult[]) {
+	return {
+		distinct: new Set(results.map(r => r.text)).size,
+		reads: results.reduce((total, r) => total + (r.count ?? 1), 0),
+	};
+}
+
+// --- Feedback ---------------------------------------------------------------
+
+let audioContext: AudioContext | null = null;
+
+/** Creates the audio context; browsers only allow this from a user gesture such as starting the scanner. */
+export function prepareScanFeedback() {
+	if (!audioContext && typeof AudioContext !== "undefined") {
+		audioContext = new AudioContext();
+	}
+	audioContext?.resume().catch(() => {});
+}
+
+function beep() {
+	if (!audioContext) return;
+
+	const oscillator = audioContext.createOscillator();
+	const gain = audioContext.createGain();
+	const start = audioContext.currentTime;
+
+	oscillator.type = "square";
+	oscillator.frequency.value = 1800;
+	gain.gain.setValueAtTime(0.08, start);
+	gain.gain.exponentialRampToValueAtTime(0.001, start + 0.12);
+
+	oscillator.connect(gain).connect(audioContext.destination);
+	oscillator.start(start);
+	oscillator.stop(start + 0.12);
+}
+
+export function playScanFeedback(settings: ScanSettings) {
+	if (settings.sound) beep();
+	// Not available on iOS Safari; the beep is the only feedback there
+	if (settings.vibrate) navigator.vibrate?.(60);
+}
@@ -0,0 +1,58 @@
+const DB_NAME = "barcode-toolkit";
+const DB_VERSION = 4;
+
+export const SCAN_STORE = "scans";
+export const CATALOG_STORE = "catalog";
+export const LOOKUP_STORE = "lookups";
+export const OUTBOX_STORE = "outbox";
+export const WEBHOOK_STORE = "webhooks";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+	if (!databasePromise) {
+		databasePromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			// Stores are created as needed, so this works from any older version
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains(SCAN_STORE)) {
+					db.createObjectStore(SCAN_STORE, { keyPath: "id" }).createIndex("timestamp", "timestamp");
+				}
+				if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+					db.createObjectStore(CATALOG_STORE, { keyPath: "gtin" });
+				}
+				if (!db.objectStoreNames.contains(LOOKUP_STORE)) {
+					db.createObjectStore(LOOKUP_STORE, { keyPath: "gtin" });
+				}
+				if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+					db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+				}
+				if (!db.objectStoreNames.contains(WEBHOOK_STORE)) {
+					db.createObjectStore(WEBHOOK_STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+				}
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+		// Allow a retry after a failure such as private browsing without storage
+		databasePromise.catch(() => (databasePromise = null));
+	}
+	return databasePromise;
+}
+
+/** Runs `run` in a transaction on one store and resolves with its request's result once committed. */
+export async function withStore<T>(
+	storeName: string,
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => IDBRequest<T> | void,
+) {
+	const db = await openDatabase();
+	return new Promise<T>((resolve, reject) => {
+		const transaction = db.transaction(storeName, mode);
+		const request = run(transaction.objectStore(storeName));
+		transaction.oncomplete = () => resolve(request ? request.result : undefined);
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () => reject(transaction.error);
+	});
+}
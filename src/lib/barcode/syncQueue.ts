@@ -0,0 +1,125 @@
+import { findScan, saveScan, updateScan } from "@/actions/scans";
+import { apiRows, createId } from "@/lib/utils";
+import { CountSession, saveCountSessionRemote } from "./inventory";
+import { OUTBOX_STORE, withStore } from "./storage";
+
+export type SyncSettings = {
+	// Send every accepted scan to the server's "scans" collection
+	uploadScans: boolean;
+};
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+	uploadScans: false,
+};
+
+type SyncPayloads = {
+	scan: ScanResult;
+	count: CountSession;
+};
+
+export type SyncKind = keyof SyncPayloads;
+
+export type SyncJob<K extends SyncKind = SyncKind> = {
+	id: string;
+	kind: K;
+	// Scan or count session id; a newer job for the same record replaces a waiting one
+	key: string;
+	payload: SyncPayloads[K];
+	createdAt: number;
+	attempts: number;
+	status: "pending" | "conflict" | "failed";
+	error?: string;
+	// The server copy when the job is in conflict
+	remote?: CountSession;
+	// Overwrite the server copy even if it changed since the last sync
+	force?: boolean;
+};
+
+export type SyncOutcome =
+	| { status: "done"; kind: "scan" }
+	| { status: "done"; kind: "count"; session: CountSession }
+	| { status: "conflict"; remote: CountSession };
+
+export function createSyncJob<K extends SyncKind>(kind: K, key: string, payload: SyncPayloads[K]): SyncJob<K> {
+	return { id: createId(), kind, key, payload, createdAt: Date.now(), attempts: 0, status: "pending" };
+}
+
+/** True when a request failed for lack of a connection rather than being rejected by the server. */
+export function isOfflineError(err: any) {
+	return !navigator.onLine || (err?.isAxiosError && !err.response);
+}
+
+// --- Outbox -----------------------------------------------------------------
+
+/** Queued jobs, oldest first so they replay in the order they were made. */
+export async function loadOutbox() {
+	const jobs = await withStore<SyncJob[]>(OUTBOX_STORE, "readonly", store => store.getAll());
+	return jobs.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export function putOutboxJobs(jobs: SyncJob[]) {
+	return withStore(OUTBOX_STORE, "readwrite", store => {
+		jobs.forEach(job => store.put(job));
+	});
+}
+
+export function deleteOutboxJobs(ids: string[]) {
+	return withStore(OUTBOX_STORE, "readwrite", store => {
+		ids.forEach(id => store.delete(id));
+	});
+}
+
+// --- Replay -----------------------------------------------------------------
+
+function toScanRecord(result: ScanResult) {
+	return {
+		scan_id: result.id,
+		text: result.text,
+		format: result.format ?? "",
+		scanned_at: new Date(result.timestamp).toISOString(),
+		count: result.count ?? 1,
+		camera: result.camera ?? "",
+		file: result.source?.fileName ?? "",
+		tags: (result.tags ?? []).join(", "),
+		notes: result.notes ?? "",
+	};
+}
+
+/**
+ * Uploads a scan, keyed by its client id so a replayed job never duplicates it.
+ * If the server already has the scan, the copies are merged: the higher read
+ * count and the newer timestamp win, tags are combined and local notes win.
+ */
+async function uploadScan(result: ScanResult) {
+	const body = toScanRecord(result);
+	const existing = apiRows(await findScan({ scanId: result.id }))[0];
+	if (!existing) {
+		await saveScan({ body });
+		return;
+	}
+
+	const remoteTags = String(existing.tags ?? "").split(",").map(tag => tag.trim()).filter(Boolean);
+	const remoteTime = Date.parse(String(existing.scanned_at)) || 0;
+	await updateScan({
+		id: String(existing.id),
+		body: {
+			...body,
+			count: Math.max(Number(existing.count) || 0, body.count),
+			scanned_at: new Date(Math.max(remoteTime, result.timestamp)).toISOString(),
+			tags: [...new Set([...remoteTags, ...(result.tags ?? [])])].join(", "),
+			notes: body.notes || String(existing.notes ?? ""),
+		},
+	});
+}
+
+export async function runSyncJob(job: SyncJob): Promise<SyncOutcome> {
+	if (job.kind === "scan") {
+		await uploadScan(job.payload as ScanResult);
+		return { status: "done", kind: "scan" };
+	}
+
+	const result = await saveCountSessionRemote(job.payload as CountSession, job.force);
+	return result.status === "conflict"
+		? { status: "conflict", remote: result.remote }
+		: { status: "done", kind: "count", session: result.session };
+}
@@ -0,0 +1,318 @@
+import { getFormat, getFormatLabel, isGs1Format } from "./formats";
+import { validateElementString } from "./gs1";
+import { computeGs1CheckDigit, expandUpcE } from "./gtin";
+
+export type ValidationIssue = {
+	severity: "error" | "warning";
+	message: string;
+	// 1-based character position the issue refers to
+	position?: number;
+};
+
+export type ValidationFix = {
+	label: string;
+	value: string;
+};
+
+export type ValidationResult = {
+	valid: boolean;
+	issues: ValidationIssue[];
+	fix?: ValidationFix;
+};
+
+type RuleResult = Omit<ValidationResult, "valid">;
+
+type FormatRule = {
+	charset?: { test: (char: string) => boolean; description: string };
+	// Total length including the GS1 mod-10 check digit
+	checkDigitLength?: number;
+	// Exact length, for symbols without a check digit
+	length?: number;
+	// Format specific structure, checked once the characters are valid
+	check?: (value: string, label: string) => RuleResult;
+	maxBytes?: number;
+	uppercase?: boolean;
+};
+
+const DIGITS = { test: (char: string) => /^[0-9]$/.test(char), description: "digits 0-9 only" };
+
+const CODE39_CHARSET = {
+	test: (char: string) => /^[0-9A-Za-z\-. $/+%]$/.test(char),
+	description: "A-Z, 0-9, space and - . $ / + %",
+};
+
+// Rebuilds the UPC-A number a UPC-E symbol stands for, without its check digit
+function checkUpcE(value: string, label: string): RuleResult {
+	if (value.length === 6) {
+		const digit = computeGs1CheckDigit(expandUpcE(`0${value}`));
+		return {
+			issues: [{ severity: "warning", message: `Number system 0 and check digit ${digit} will be added.` }],
+			fix: { label: `Complete as 0${value}${digit}`, value: `0${value}${digit}` },
+		};
+	}
+
+	if (value.length !== 7 && value.length !== 8) {
+		return {
+			issues: [
+				{
+					severity: "error",
+					message: `${label} needs 6 digits, or 8 digits starting with the number system 0 or 1, got ${value.length}.`,
+				},
+			],
+		};
+	}
+
+	if (value[0] !== "0" && value[0] !== "1") {
+		return {
+			issues: [{ severity: "error", position: 1, message: `${label} number system must be 0 or 1, got ${value[0]}.` }],
+		};
+	}
+
+	const expected = computeGs1CheckDigit(expandUpcE(value.slice(0, 7)));
+	// Unlike the other EAN/UPC encoders, JsBarcode will not add this one itself
+	if (value.length === 7) {
+		return {
+			issues: [{ severity: "error", message: `Check digit missing. With a number system digit it must be given, here ${expected}.` }],
+			fix: { label: `Append check digit (${expected})`, value: value + expected },
+		};
+	}
+	if (value[7] !== expected) {
+		return {
+			issues: [
+				{ severity: "error", position: 8, message: `Check digit at position 8 is ${value[7]}, but should be ${expected}.` },
+			],
+			fix: { label: `Correct check digit to ${expected}`, value: value.slice(0, -1) + expected },
+		};
+	}
+
+	return { issues: [] };
+}
+
+function checkEvenLength(value: string, label: string): RuleResult {
+	if (value.length % 2 === 0) return { issues: [] };
+
+	return {
+		issues: [{ severity: "error", message: `${label} encodes digits in pairs and needs an even number, got ${value.length}.` }],
+		fix: { label: "Add a leading zero", value: `0${value}` },
+	};
+}
+
+// Start and stop characters are either both given or both left out, in which case A is used
+function checkCodabarGuards(value: string, label: string): RuleResult {
+	const upper = value.toUpperCase();
+	const inner = upper.slice(1, -1);
+	const letter = Array.from(inner).findIndex(char => /[A-D]/.test(char));
+	if (letter !== -1) {
+		return {
+			issues: [
+				{
+					severity: "error",
+					position: letter + 2,
+					message: `A-D are start and stop characters and can only appear at the ends of ${label} data.`,
+				},
+			],
+		};
+	}
+
+	const start = /[A-D]/.test(upper[0]);
+	const stop = /[A-D]/.test(upper[upper.length - 1]);
+	if (start !== stop || (start && upper.length < 3)) {
+		return {
+			issues: [{ severity: "error", message: `${label} needs both a start and a stop character (A-D), or neither.` }],
+		};
+	}
+	if (!start) {
+		return { issues: [{ severity: "warning", message: "No start/stop characters given; A will be used for both." }] };
+	}
+	if (upper !== value) {
+		return {
+			issues: [{ severity: "warning", message: "Start and stop characters will be encoded as uppercase." }],
+			fix: { label: "Convert to uppercase", value: upper },
+		};
+	}
+
+	return { issues: [] };
+}
+
+function checkPharmacodeRange(value: string, label: string): RuleResult {
+	const number = Number(value);
+	if (number >= 3 && number <= 131070) return { issues: [] };
+
+	return { issues: [{ severity: "error", message: `${label} encodes a number from 3 to 131070, got ${number}.` }] };
+}
+
+const FORMAT_RULES: Record<string, FormatRule> = {
+	CODE128: { charset: { test: char => char.charCodeAt(0) <= 0x7f, description: "ASCII characters only" } },
+	EAN13: { charset: DIGITS, checkDigitLength: 13 },
+	EAN8: { charset: DIGITS, checkDigitLength: 8 },
+	UPC: { charset: DIGITS, checkDigitLength: 12 },
+	UPCE: { charset: DIGITS, check: checkUpcE },
+	EAN5: { charset: DIGITS, length: 5 },
+	EAN2: { charset: DIGITS, length: 2 },
+	CODE39: { charset: CODE39_CHARSET, uppercase: true },
+	CODE93: { charset: CODE39_CHARSET, uppercase: true },
+	CODABAR: {
+		charset: { test: char => /^[0-9A-Da-d\-$:/.+]$/.test(char), description: "digits, - $ : / . + and A-D as start/stop" },
+		check: checkCodabarGuards,
+	},
+	ITF: { charset: DIGITS, check: checkEvenLength },
+	ITF14: { charset: DIGITS, checkDigitLength: 14 },
+	MSI: { charset: DIGITS },
+	PHARMACODE: { charset: DIGITS, check: checkPharmacodeRange },
+	// Absolute symbol capacities; higher error correction lowers the real limit
+	QR: { maxBytes: 2953 },
+	DATAMATRIX: { maxBytes: 1556 },
+	PDF417: { maxBytes: 1850 },
+	AZTEC: { maxBytes: 1914 },
+};
+
+// Maximum number of bad characters listed individually before summarising
+const MAX_CHARSET_ISSUES = 3;
+
+function describeChar(char: string) {
+	if (char === " ") return "space";
+	const code = char.charCodeAt(0);
+	if (code < 32 || code === 127) return `control character 0x${code.toString(16).padStart(2, "0")}`;
+	return `"${char}"`;
+}
+
+function checkCharset(value: string, label: string, rule: FormatRule) {
+	const issues: ValidationIssue[] = [];
+	if (!rule.charset) return issues;
+
+	const chars = Array.from(value);
+	const invalid = chars
+		.map((char, index) => ({ char, position: index + 1 }))
+		.filter(({ char }) => !rule.charset!.test(char));
+
+	invalid.slice(0, MAX_CHARSET_ISSUES).forEach(({ char, position }) => {
+		issues.push({
+			severity: "error",
+			position,
+			message: `${describeChar(char)} at position ${position} is not allowed. ${label} accepts ${rule.charset!.description}.`,
+		});
+	});
+	if (invalid.length > MAX_CHARSET_ISSUES) {
+		issues.push({ severity: "error", message: `${invalid.length - MAX_CHARSET_ISSUES} more invalid characters.` });
+	}
+
+	return issues;
+}
+
+function checkDigit(value: string, label: string, length: number): RuleResult {
+	if (value.length === length - 1) {
+		const digit = computeGs1CheckDigit(value);
+		return {
+			issues: [{ severity: "warning", message: `Check digit missing. It will be calculated as ${digit}.` }],
+			fix: { label: `Append check digit (${digit})`, value: value + digit },
+		};
+	}
+
+	if (value.length !== length) {
+		return {
+			issues: [
+				{
+					severity: "error",
+					message: `${label} needs ${length - 1} digits (check digit added automatically) or ${length} digits, got ${value.length}.`,
+				},
+			],
+		};
+	}
+
+	const expected = computeGs1CheckDigit(value.slice(0, -1));
+	const actual = value[length - 1];
+	if (actual !== expected) {
+		return {
+			issues: [
+				{
+					severity: "error",
+					position: length,
+					message: `Check digit at position ${length} is ${actual}, but should be ${expected}.`,
+				},
+			],
+			fix: { label: `Correct check digit to ${expected}`, value: value.slice(0, -1) + expected },
+		};
+	}
+
+	return { issues: [] };
+}
+
+/** Splits "9781234567897 51299" into the main symbol and its EAN-2/EAN-5 supplement. */
+export function splitAddOn(value: string) {
+	const match = /^(\S+)\s+(\S+)$/.exec(value);
+	return match ? { main: match[1], addOn: match[2] } : null;
+}
+
+function validateWithAddOn(main: string, addOn: string, format: string): ValidationResult {
+	const mainResult = validateBarcodeInput(main, format);
+	const issues = [...mainResult.issues];
+
+	if (!/^[0-9]+$/.test(addOn) || (addOn.length !== 2 && addOn.length !== 5)) {
+		issues.push({ severity: "error", message: `The add-on after the space must be 2 or 5 digits, got "${addOn}".` });
+	}
+
+	return {
+		valid: !issues.some(issue => issue.severity === "error"),
+		issues,
+		fix: mainResult.fix && { label: mainResult.fix.label, value: `${mainResult.fix.value} ${addOn}` },
+	};
+}
+
+/**
+ * Checks length, character set and check digit for a format before it is rendered.
+ * Warnings still allow rendering; any error means the value cannot be encoded.
+ */
+export function validateBarcodeInput(value: string, format: string): ValidationResult {
+	if (isGs1Format(format) && value) {
+		return validateElementString(value, getFormatLabel(format));
+	}
+
+	const addOn = getFormat(format)?.addOn ? splitAddOn(value) : null;
+	if (addOn) {
+		return validateWithAddOn(addOn.main, addOn.addOn, format);
+	}
+
+	const rule = FORMAT_RULES[format];
+	if (!rule || !value) return { valid: true, issues: [] };
+
+	const label = getFormatLabel(format);
+	const issues = checkCharset(value, label, rule);
+	let fix: ValidationFix | undefined;
+
+	if (issues.length === 0 && rule.checkDigitLength) {
+		const result = checkDigit(value, label, rule.checkDigitLength);
+		issues.push(...result.issues);
+		fix = result.fix;
+	}
+
+	if (issues.length === 0 && rule.length && value.length !== rule.length) {
+		issues.push({ severity: "error", message: `${label} needs exactly ${rule.length} digits, got ${value.length}.` });
+	}
+
+	if (issues.length === 0 && rule.check) {
+		const result = rule.check(value, label);
+		issues.push(...result.issues);
+		fix = result.fix;
+	}
+
+	if (issues.length === 0 && rule.uppercase && value !== value.toUpperCase()) {
+		issues.push({ severity: "warning", message: `${label} has no lowercase letters; they will be encoded as uppercase.` });
+		fix = { label: "Convert to uppercase", value: value.toUpperCase() };
+	}
+
+	if (rule.maxBytes) {
+		const bytes = new TextEncoder().encode(value).length;
+		if (bytes > rule.maxBytes) {
+			issues.push({
+				severity: "error",
+				message: `${label} holds at most ${rule.maxBytes} bytes, this content is ${bytes} bytes.`,
+			});
+		}
+	}
+
+	return { valid: !issues.some(issue => issue.severity === "error"), issues, fix };
+}
+
+export function firstValidationError(result: ValidationResult) {
+	return result.issues.find(issue => issue.severity === "error")?.message ?? null;
+}
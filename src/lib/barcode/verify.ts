@@ -0,0 +1,325 @@
+import { BarcodeFormat } from "@zxing/library";
+import { DecodedBarcode, SCAN_SYMBOLOGIES, createFrameReader, decodeCanvasOnce } from "./decode";
+import { getFormat, getFormatLabel, isGs1Format, isMatrixFormat, symbologyForFormat } from "./formats";
+import { buildElementString, parseBracketed, parseGs1 } from "./gs1";
+import { DEFAULT_RENDER_OPTIONS, RenderOptions, getSvgSize, rasterizeSvg, screenPixelsToMm } from "./render";
+import { splitAddOn, validateBarcodeInput } from "./validation";
+
+export type VerificationGrade = "A" | "B" | "C" | "D" | "F";
+
+export type VerificationCheck = {
+	id: "decode" | "quietZone" | "xDimension" | "contrast" | "size";
+	label: string;
+	// null when the check does not apply, e.g. no reader for the symbology
+	grade: VerificationGrade | null;
+	detail: string;
+};
+
+export type VerificationReport = {
+	// Lowest grade of all checks, as in ISO/IEC 15416 and 15415
+	grade: VerificationGrade;
+	checks: VerificationCheck[];
+	decoded: DecodedBarcode | null;
+	dpi: number;
+};
+
+const GRADES: VerificationGrade[] = ["A", "B", "C", "D", "F"];
+
+// Minimum quiet zone on each side, in modules
+const QUIET_ZONES: Record<string, number> = {
+	EAN13: 11,
+	EAN8: 7,
+	UPC: 9,
+	UPCE: 9,
+	EAN2: 5,
+	EAN5: 5,
+	QR: 4,
+	GS1_QR: 4,
+	DATAMATRIX: 1,
+	GS1_DATAMATRIX: 1,
+	PDF417: 2,
+	AZTEC: 0,
+};
+const DEFAULT_LINEAR_QUIET_ZONE = 10;
+
+// Smallest X-dimension in millimetres; EAN/UPC at 80% magnification, otherwise what general purpose scanners resolve
+const MIN_X_DIMENSIONS: Record<string, number> = {
+	EAN13: 0.264,
+	EAN8: 0.264,
+	UPC: 0.264,
+	UPCE: 0.264,
+	EAN2: 0.264,
+	EAN5: 0.264,
+	ITF14: 0.495,
+	GS1_128: 0.25,
+};
+const DEFAULT_LINEAR_MIN_X = 0.19;
+const DEFAULT_MATRIX_MIN_X = 0.25;
+
+// ISO/IEC 15416 bar height: at least 15% of the symbol width or 6.35 mm, whichever is more
+const MIN_BAR_HEIGHT_MM = 6.35;
+const MIN_BAR_HEIGHT_RATIO = 0.15;
+
+// The bundled zxing UPC-E reader drops the number system digit and never passes its checksum
+const UNREADABLE_SYMBOLOGIES = ["UPC_E"];
+
+// Largest side of the canvas the symbol is decoded from
+const MAX_DECODE_SIDE = 3000;
+
+const MM_PER_INCH = 25.4;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function lowestGrade(grades: VerificationGrade[]) {
+	return grades.reduce((lowest, grade) => (GRADES.indexOf(grade) > GRADES.indexOf(lowest) ? grade : lowest), "A");
+}
+
+function getSizeMm(svgString: string) {
+	const { width, height } = getSvgSize(svgString);
+	return { width: screenPixelsToMm(width), height: screenPixelsToMm(height) };
+}
+
+// Module width in SVG pixels: bar width for linear symbols, module size for 2D
+function getXDimensionPixels(format: string, options: RenderOptions) {
+	return isMatrixFormat(format)
+		? options.moduleSize ?? DEFAULT_RENDER_OPTIONS.moduleSize
+		: options.width ?? DEFAULT_RENDER_OPTIONS.width;
+}
+
+// --- Decode -----------------------------------------------------------------
+
+/** The text a scanner should report for the generator input, with check digits and start/stop characters filled in. */
+function getExpectedText(format: string, data: string) {
+	if (isGs1Format(format)) {
+		const elements = parseBracketed(data);
+		return elements ? buildElementString(elements) : data;
+	}
+
+	// Scanners report the add-on separately from the main symbol
+	const main = (getFormat(format)?.addOn && splitAddOn(data)?.main) || data;
+	const completed = validateBarcodeInput(main, format).fix?.value ?? main;
+
+	if (format === "CODABAR" && !/^[A-D]/.test(completed)) return `A${completed}A`;
+	return completed;
+}
+
+function getDecodedText(decoded: DecodedBarcode, format: string) {
+	if (isGs1Format(format)) {
+		const gs1 = parseGs1(decoded.text, decoded.format);
+		return gs1 && !gs1.error ? buildElementString(gs1.elements) : decoded.text;
+	}
+
+	return decoded.text;
+}
+
+async function checkDecode(
+	svgString: string,
+	format: string,
+	data: string,
+	dpi: number,
+): Promise<{ decoded: DecodedBarcode | null; check: VerificationCheck }> {
+	const symbology = symbologyForFormat(format);
+	if (!symbology || !SCAN_SYMBOLOGIES.includes(symbology) || UNREADABLE_SYMBOLOGIES.includes(symbology)) {
+		const detail = `The scanner cannot read ${getFormatLabel(format)}, so decoding was skipped.`;
+		return { decoded: null, check: { id: "decode", label: "Decode", grade: null, detail } };
+	}
+
+	// Rasterize as a printer at the chosen resolution would, within what the decoder handles quickly
+	const { width, height } = getSvgSize(svgString);
+	const scale = Math.min((screenPixelsToMm(1) / MM_PER_INCH) * dpi, MAX_DECODE_SIDE / Math.max(width, height));
+	// Limited to the one symbology, as the camera scanner is when a single format is selected
+	const reader = createFrameReader([BarcodeFormat[symbology as keyof typeof BarcodeFormat]]);
+	const decoded = decodeCanvasOnce(await rasterizeSvg(svgString, scale), reader);
+	if (!decoded) {
+		return { decoded, check: { id: "decode", label: "Decode", grade: "F", detail: "No barcode was found in the rendered image." } };
+	}
+
+	const expected = getExpectedText(format, data);
+	const text = getDecodedText(decoded, format);
+	const check: VerificationCheck = text === expected
+		? { id: "decode", label: "Decode", grade: "A", detail: `Read back as "${text}".` }
+		: { id: "decode", label: "Decode", grade: "F", detail: `Read back as "${text}" instead of "${expected}".` };
+	return { decoded, check };
+}
+
+// --- Measurements -----------------------------------------------------------
+
+function checkQuietZone(format: string, options: RenderOptions): VerificationCheck {
+	const required = QUIET_ZONES[format] ?? (isMatrixFormat(format) ? 0 : DEFAULT_LINEAR_QUIET_ZONE);
+	const xPixels = getXDimensionPixels(format, options);
+
+	// 2D quiet zones are set in modules, linear margins in pixels
+	const modules = isMatrixFormat(format)
+		? options.quietZone ?? DEFAULT_RENDER_OPTIONS.quietZone
+		: (options.margin ?? DEFAULT_RENDER_OPTIONS.margin) / xPixels;
+	const detail = `${round(modules, 1)} modules on each side, ${getFormatLabel(format)} needs ${required}.`;
+
+	if (modules >= required) return { id: "quietZone", label: "Quiet zone", grade: "A", detail };
+
+	const fix = isMatrixFormat(format)
+		? `Set the quiet zone to at least ${required} modules.`
+		: `Increase the margin to at least ${Math.ceil(required * xPixels)} px.`;
+	return { id: "quietZone", label: "Quiet zone", grade: modules >= required / 2 ? "C" : "F", detail: `${detail} ${fix}` };
+}
+
+function checkXDimension(format: string, options: RenderOptions, dpi: number): VerificationCheck {
+	const xMm = screenPixelsToMm(getXDimensionPixels(format, options));
+	const minimum = MIN_X_DIMENSIONS[format] ?? (isMatrixFormat(format) ? DEFAULT_MATRIX_MIN_X : DEFAULT_LINEAR_MIN_X);
+	const dots = (xMm / MM_PER_INCH) * dpi;
+	const printed = Math.max(1, Math.round(dots));
+	const detail = `${round(xMm, 3)} mm, ${round(dots, 1)} dots at ${dpi} dpi.`;
+
+	if (xMm < minimum) {
+		return { id: "xDimension", label: "X-dimension", grade: "F", detail: `${detail} Below the ${minimum} mm minimum for ${getFormatLabel(format)}.` };
+	}
+
+	// Printers draw whole dots, so every module grows or shrinks by the rounding
+	const error = Math.abs(printed - dots) / dots;
+	const grade: VerificationGrade = error <= 0.05 ? "A" : error <= 0.15 ? "B" : error <= 0.25 ? "C" : "D";
+	return {
+		id: "xDimension",
+		label: "X-dimension",
+		grade,
+		detail: grade === "A" ? detail : `${detail} Printed as ${printed} dots, bars are ${Math.round(error * 100)}% off.`,
+	};
+}
+
+// sRGB channel to linear light, 0-1
+function toLinear(channel: number) {
+	const value = channel / 255;
+	return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+function parseHexColor(color?: string) {
+	const hex = (color ?? "").replace(/^#/, "");
+	const full = /^[0-9a-f]{3}$/i.test(hex) ? hex.replace(/./g, c => c + c) : hex;
+	if (!/^[0-9a-f]{6}$/i.test(full)) return null;
+	return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16));
+}
+
+/**
+ * Reflectance as a scanner sees it: laser and LED scanners for linear symbols
+ * light the code at 660 nm, where only the red channel reflects, while 2D
+ * imagers use white light.
+ */
+function getReflectance(rgb: number[], matrix: boolean) {
+	const [r, g, b] = rgb.map(toLinear);
+	return matrix ? 0.2126 * r + 0.7152 * g + 0.0722 * b : r;
+}
+
+function checkContrast(format: string, options: RenderOptions): VerificationCheck {
+	const bars = parseHexColor(options.lineColor ?? DEFAULT_RENDER_OPTIONS.lineColor);
+	const background = parseHexColor(options.background ?? DEFAULT_RENDER_OPTIONS.background);
+	if (!bars || !background) {
+		return { id: "contrast", label: "Contrast", grade: null, detail: "Only hex colors can be graded." };
+	}
+
+	const matrix = isMatrixFormat(format);
+	const contrast = getReflectance(background, matrix) - getReflectance(bars, matrix);
+	const percent = Math.round(Math.abs(contrast) * 100);
+
+	// ISO/IEC 15416 symbol contrast grades
+	const grade: VerificationGrade = percent >= 70 ? "A" : percent >= 55 ? "B" : percent >= 40 ? "C" : percent >= 20 ? "D" : "F";
+	const light = matrix ? "" : " under red scanner light";
+	if (contrast < 0) {
+		return {
+			id: "contrast",
+			label: "Contrast",
+			grade: lowestGrade([grade, "D"]),
+			detail: `${percent}% symbol contrast${light}, but the bars are lighter than the background. Many scanners cannot read inverted codes.`,
+		};
+	}
+
+	return {
+		id: "contrast",
+		label: "Contrast",
+		grade,
+		detail: grade === "F" && !matrix
+			? `${percent}% symbol contrast${light}. Red and orange bars disappear for most scanners.`
+			: `${percent}% symbol contrast${light}.`,
+	};
+}
+
+function checkSize(svgString: string, format: string, options: RenderOptions): VerificationCheck {
+	const size = getSizeMm(svgString);
+	const xMm = screenPixelsToMm(getXDimensionPixels(format, options));
+	const label = getFormatLabel(format);
+	const printed = `${round(size.width, 1)} × ${round(size.height, 1)} mm`;
+
+	if (isMatrixFormat(format)) {
+		const minimum = (MIN_X_DIMENSIONS[format] ?? DEFAULT_MATRIX_MIN_X) / xMm;
+		return {
+			id: "size",
+			label: "Symbol size",
+			grade: minimum <= 1 ? "A" : "F",
+			detail: `${printed}, at least ${round(size.width * minimum, 1)} × ${round(size.height * minimum, 1)} mm for ${label}.`,
+		};
+	}
+
+	const grades: VerificationGrade[] = [];
+	const notes: string[] = [];
+
+	const nominalX = getFormat(format)?.nominalXDimension;
+	if (nominalX) {
+		const magnification = Math.round((xMm / nominalX) * 100);
+		notes.push(`${magnification}% magnification`);
+		if (magnification < 80) {
+			grades.push("F");
+			notes.push(`GS1 allows ${label} from 80%`);
+		} else if (magnification > 200) {
+			grades.push("C");
+			notes.push(`GS1 allows ${label} up to 200%`);
+		}
+	}
+
+	const margin = options.margin ?? DEFAULT_RENDER_OPTIONS.margin;
+	const barHeight = screenPixelsToMm(options.height ?? DEFAULT_RENDER_OPTIONS.height);
+	const minHeight = Math.max(MIN_BAR_HEIGHT_MM, (size.width - screenPixelsToMm(margin * 2)) * MIN_BAR_HEIGHT_RATIO);
+	if (barHeight < minHeight) {
+		grades.push("C");
+		notes.push(`bars are ${round(barHeight, 1)} mm high, at least ${round(minHeight, 1)} mm is recommended`);
+	}
+
+	return {
+		id: "size",
+		label: "Symbol size",
+		grade: lowestGrade(grades),
+		detail: [printed, ...notes].join("; ") + ".",
+	};
+}
+
+// --- Report -----------------------------------------------------------------
+
+/**
+ * Reads the rendered symbol back with the scanner's decoder and grades the
+ * parameters a verifier would measure, for printing at the given resolution.
+ * The SVG is measured at its own size, 96 pixels to the inch.
+ */
+export async function verifyBarcode(
+	svgString: string,
+	format: string,
+	data: string,
+	options: RenderOptions,
+	dpi: number,
+): Promise<VerificationReport> {
+	const { decoded, check } = await checkDecode(svgString, format, data, dpi);
+	const checks = [
+		check,
+		checkQuietZone(format, options),
+		checkXDimension(format, options, dpi),
+		checkContrast(format, options),
+		checkSize(svgString, format, options),
+	];
+
+	return {
+		grade: lowestGrade(checks.map(c => c.grade).filter(Boolean)),
+		checks,
+		decoded,
+		dpi,
+	};
+}
+
+/** Checks that make the symbol unlikely to scan, for a warning before it is downloaded. */
+export function getFailedChecks(report: VerificationReport | null) {
+	return report ? report.checks.filter(check => check.grade === "F") : [];
+}
@@ -0,0 +1,206 @@
+import { sendWebhook } from "@/actions/webhooks";
+import { createId } from "@/lib/utils";
+import { WEBHOOK_STORE, withStore } from "./storage";
+
+export type WebhookMethod = "POST" | "PUT" | "PATCH";
+
+export const WEBHOOK_METHODS: WebhookMethod[] = ["POST", "PUT", "PATCH"];
+
+export const WEBHOOK_PLACEHOLDERS = ["{{text}}", "{{format}}", "{{timestamp}}"];
+
+export const DEFAULT_WEBHOOK_BODY = `{
+  "text": "{{text}}",
+  "format": "{{format}}",
+  "timestamp": "{{timestamp}}"
+}`;
+
+export type WebhookSettings = {
+	// Forward every accepted scan
+	enabled: boolean;
+	url: string;
+	method: WebhookMethod;
+	// One "Name: value" per line
+	headers: string;
+	// JSON with {{text}}, {{format}} and {{timestamp}} placeholders
+	bodyTemplate: string;
+	// Tries per scan before its delivery is marked failed
+	maxAttempts: number;
+};
+
+export const DEFAULT_WEBHOOK_SETTINGS: WebhookSettings = {
+	enabled: false,
+	url: "",
+	method: "POST",
+	headers: "",
+	bodyTemplate: DEFAULT_WEBHOOK_BODY,
+	maxAttempts: 5,
+};
+
+export const MAX_WEBHOOK_ATTEMPTS = 10;
+
+export type WebhookDelivery = {
+	id: string;
+	scanId: string;
+	text: string;
+	// The request as rendered when the scan was accepted; editing the settings later does not change it
+	url: string;
+	method: WebhookMethod;
+	headers: Record<string, string>;
+	body: unknown;
+	createdAt: number;
+	attempts: number;
+	maxAttempts: number;
+	status: "pending" | "delivered" | "failed";
+	// When a pending delivery is tried next
+	nextAttemptAt?: number;
+	// HTTP status of the last response, if the endpoint answered
+	responseStatus?: number;
+	error?: string;
+	deliveredAt?: number;
+};
+
+// Retries wait 2 s, 4 s, 8 s... up to 5 minutes
+const RETRY_BASE_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+// --- Request ----------------------------------------------------------------
+
+export function parseHeaderLines(input: string) {
+	const headers: Record<string, string> = {};
+	input.split(/\r?\n/).forEach((line, index) => {
+		if (!line.trim()) return;
+
+		const colon = line.indexOf(":");
+		const name = line.slice(0, colon).trim();
+		if (colon === -1 || !name) {
+			throw new Error(`Header line ${index + 1} should look like "Name: value".`);
+		}
+		headers[name] = line.slice(colon + 1).trim();
+	});
+	return headers;
+}
+
+/**
+ * Fills the placeholders and parses the result. Values are escaped as JSON string
+ * content, so a code containing quotes or backslashes cannot break the body.
+ */
+export function renderWebhookBody(template: string, result: ScanResult): unknown {
+	const values: Record<string, string> = {
+		text: result.text,
+		format: result.format ?? "",
+		timestamp: new Date(result.timestamp).toISOString(),
+	};
+	const json = template.replace(/\{\{\s*(text|format|timestamp)\s*\}\}/g, (_, name) => JSON.stringify(values[name]).slice(1, -1));
+
+	try {
+		return JSON.parse(json);
+	} catch (err: any) {
+		throw new Error(`Body template is not valid JSON: ${err.message}`);
+	}
+}
+
+/** The delivery for one scan; throws if the settings cannot produce a request. */
+export function createWebhookDelivery(settings: WebhookSettings, result: ScanResult): WebhookDelivery {
+	let url: URL;
+	try {
+		url = new URL(settings.url.trim());
+	} catch {
+		throw new Error("Enter the full endpoint URL, e.g. https://example.com/scans.");
+	}
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new Error("The endpoint URL has to start with http:// or https://.");
+	}
+
+	return {
+		id: createId(),
+		scanId: result.id,
+		text: result.text,
+		url: url.href,
+		method: settings.method,
+		headers: { "Content-Type": "application/json", ...parseHeaderLines(settings.headers) },
+		body: renderWebhookBody(settings.bodyTemplate, result),
+		createdAt: Date.now(),
+		attempts: 0,
+		maxAttempts: settings.maxAttempts,
+		status: "pending",
+		nextAttemptAt: Date.now(),
+	};
+}
+
+/** A sample scan for trying out the endpoint. */
+export function createTestScan(): ScanResult {
+	return { id: createId(), text: "4006381333931", format: "EAN_13", timestamp: Date.now() };
+}
+
+/** What is wrong with the settings, or null if they produce a request. */
+export function checkWebhookSettings(settings: WebhookSettings) {
+	try {
+		createWebhookDelivery(settings, createTestScan());
+		return null;
+	} catch (err: any) {
+		return err.message as string;
+	}
+}
+
+// --- Delivery ---------------------------------------------------------------
+
+export function getRetryDelay(attempts: number) {
+	return Math.min(RETRY_BASE_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+}
+
+/** Network errors, timeouts, rate limits and server errors may pass; other rejections will not. */
+function isRetryable(err: any) {
+	const status = err?.response?.status;
+	return !status || status === 408 || status === 429 || status >= 500;
+}
+
+/** Sends the delivery once and returns it updated with the outcome and, after a retryable failure, the next try. */
+export async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+	const attempts = delivery.attempts + 1;
+	const { url, method, headers, body } = delivery;
+
+	try {
+		const response = await sendWebhook({ url, method, headers, body });
+		return {
+			...delivery,
+			attempts,
+			status: "delivered",
+			responseStatus: response.status,
+			error: undefined,
+			nextAttemptAt: undefined,
+			deliveredAt: Date.now(),
+		};
+	} catch (err: any) {
+		const responseStatus: number | undefined = err?.response?.status;
+		const error = responseStatus ? `HTTP ${responseStatus} ${err.response.statusText ?? ""}`.trim() : err.message || "Request failed";
+
+		if (!isRetryable(err) || attempts >= delivery.maxAttempts) {
+			return { ...delivery, attempts, status: "failed", responseStatus, error, nextAttemptAt: undefined };
+		}
+
+		// Rate limited endpoints say when to come back
+		const retryAfter = Number(err.response?.headers?.["retry-after"]) * 1000 || 0;
+		const nextAttemptAt = Date.now() + Math.max(getRetryDelay(attempts), retryAfter);
+		return { ...delivery, attempts, status: "pending", responseStatus, error, nextAttemptAt };
+	}
+}
+
+// --- Log --------------------------------------------------------------------
+
+/** Stored deliveries, newest first. */
+export async function loadWebhookLog() {
+	const deliveries = await withStore<WebhookDelivery[]>(WEBHOOK_STORE, "readonly", store => store.index("createdAt").getAll());
+	return deliveries.reverse();
+}
+
+export function putWebhookDeliveries(deliveries: WebhookDelivery[]) {
+	return withStore(WEBHOOK_STORE, "readwrite", store => {
+		deliveries.forEach(delivery => store.put(delivery));
+	});
+}
+
+export function deleteWebhookDeliveries(ids: string[]) {
+	return withStore(WEBHOOK_STORE, "readwrite", store => {
+		ids.forEach(id => store.delete(id));
+	});
+}
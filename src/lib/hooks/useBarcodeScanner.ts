@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from "react";
+import { BarcodeFormat } from "@zxing/library";
+import { DecodedBarcode, createFrameReader, decodeVideoFrame } from "../barcode/decode";
+import {
+	CameraFeatures,
+	CameraSettings,
+	DEFAULT_CAMERA_SETTINGS,
+	GUIDE_REGION,
+	NO_CAMERA_FEATURES,
+	applyCameraSettings,
+	getCameraFeatures,
+	listCameras,
+	openCamera,
+} from "../barcode/camera";
+
+export type ScannerScan = DecodedBarcode & {
+	// Label of the camera that read the code
+	camera?: string;
+};
+
+export type BarcodeScannerOptions = {
+	// zxing symbology names to look for, e.g. ["QR_CODE", "EAN_13"]
+	formats: string[];
+	settings?: Partial<CameraSettings>;
+	onScan: (scan: ScannerScan) => void;
+	// The camera could not be opened
+	onError?: (err: any) => void;
+};
+
+/**
+ * Headless camera scanner: opens the camera into `videoRef`, applies the camera
+ * settings and decodes a frame every `settings.interval` ms until unmounted.
+ * The caller renders the <video> element and any overlay.
+ */
+const useBarcodeScanner = ({ formats, settings, onScan, onError }: BarcodeScannerOptions) => {
+	const [error, setError] = useState<string | null>(null);
+	const [track, setTrack] = useState<MediaStreamTrack | null>(null);
+	const [features, setFeatures] = useState<CameraFeatures>(NO_CAMERA_FEATURES);
+	const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+	const videoRef = useRef<HTMLVideoElement>(null);
+	// When the scanner started looking, reset after every read
+	const searchStartRef = useRef(performance.now());
+	// The decode loop outlives renders, so it reads the latest handlers from refs
+	const onScanRef = useRef(onScan);
+	const onErrorRef = useRef(onError);
+	onScanRef.current = onScan;
+	onErrorRef.current = onError;
+
+	const { deviceId, torch, zoom, focusMode, focusDistance, interval, region } = { ...DEFAULT_CAMERA_SETTINGS, ...settings };
+	// Callers often pass a new array with the same formats on every render
+	const formatKey = formats.join(",");
+
+	// (Re)open the camera whenever a different one is picked
+	useEffect(() => {
+		let cancelled = false;
+		let stream: MediaStream | null = null;
+
+		const start = async () => {
+			try {
+				stream = await openCamera(deviceId);
+				if (cancelled) return;
+
+				const videoTrack = stream.getVideoTracks()[0];
+				videoRef.current.srcObject = stream;
+				await videoRef.current.play().catch(() => {});
+
+				setFeatures(getCameraFeatures(videoTrack));
+				setTrack(videoTrack);
+				// Labels are only available once access has been granted
+				setCameras(await listCameras());
+			} catch (err: any) {
+				if (cancelled) return;
+				console.error("Camera error:", err);
+				setError(err.message || "Unable to open the camera.");
+				onErrorRef.current?.(err);
+			}
+		};
+
+		start();
+
+		return () => {
+			cancelled = true;
+			stream?.getTracks().forEach(t => t.stop());
+			setTrack(null);
+		};
+	}, [deviceId]);
+
+	useEffect(() => {
+		const refresh = () => listCameras().then(setCameras).catch(() => {});
+		navigator.mediaDevices?.addEventListener?.("devicechange", refresh);
+		return () => navigator.mediaDevices?.removeEventListener?.("devicechange", refresh);
+	}, []);
+
+	useEffect(() => {
+		if (!track) return;
+
+		applyCameraSettings(track, { torch, zoom, focusMode, focusDistance }, features).catch(err => {
+			console.error("Camera settings error:", err);
+			setError(err.message || "The camera rejected these settings.");
+		});
+	}, [track, features, torch, zoom, focusMode, focusDistance]);
+
+	useEffect(() => {
+		if (!track) return;
+
+		const symbologies = formatKey.split(",").filter(Boolean);
+		const reader = createFrameReader(symbologies.map(format => BarcodeFormat[format as keyof typeof BarcodeFormat]));
+		const canvas = document.createElement("canvas");
+		searchStartRef.current = performance.now();
+
+		const timer = setInterval(() => {
+			const scan = decodeVideoFrame(videoRef.current, canvas, reader, region === "guide" ? GUIDE_REGION : undefined);
+			if (!scan?.text) return;
+
+			const now = performance.now();
+			setError(null);
+			onScanRef.current({ ...scan, duration: Math.round(now - searchStartRef.current), camera: track.label || undefined });
+			searchStartRef.current = now;
+		}, interval);
+
+		return () => clearInterval(timer);
+	}, [track, interval, region, formatKey]);
+
+	return { videoRef, track, features, cameras, error };
+};
+
+export default useBarcodeScanner;
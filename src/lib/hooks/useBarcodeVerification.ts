@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import { RenderOptions } from "@/lib/barcode/render";
+import { VerificationReport, verifyBarcode } from "@/lib/barcode/verify";
+
+// Waits for typing to settle; also longer than the generator's render delay, so a
+// new value is never checked against the previous SVG
+const VERIFY_DELAY = 400;
+
+/**
+ * Verifies the rendered SVG whenever it or the print resolution changes.
+ * The report is null while there is nothing to verify.
+ */
+const useBarcodeVerification = (
+	svgString: string | null,
+	format: string,
+	data: string,
+	options: RenderOptions,
+	dpi: number,
+) => {
+	const [report, setReport] = useState<VerificationReport | null>(null);
+	const [isVerifying, setIsVerifying] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	// Only the latest run may set state
+	const runRef = useRef(0);
+
+	useEffect(() => {
+		const run = ++runRef.current;
+		setReport(null);
+		setError(null);
+		if (!svgString) {
+			setIsVerifying(false);
+			return;
+		}
+
+		setIsVerifying(true);
+		const timer = setTimeout(() => {
+			verifyBarcode(svgString, format, data, options, dpi)
+				.then(result => {
+					if (run === runRef.current) setReport(result);
+				})
+				.catch(err => {
+					console.error("Barcode verification error:", err);
+					if (run === runRef.current) setError(err.message || "Verification failed");
+				})
+				.finally(() => {
+					if (run === runRef.current) setIsVerifying(false);
+				});
+		}, VERIFY_DELAY);
+
+		return () => clearTimeout(timer);
+	}, [svgString, format, data, options, dpi]);
+
+	return { report, isVerifying, error };
+};
+
+export default useBarcodeVerification;
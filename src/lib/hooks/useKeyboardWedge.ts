@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+import { WedgeSettings, createWedgeReader } from "@/lib/barcode/keyboardWedge";
+
+// Typing into a field is left to the field, even when it comes from a scanner
+function isEditable(target: EventTarget | null) {
+	if (!(target instanceof HTMLElement)) return false;
+	return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/**
+ * Listens for keyboard-wedge scanners on the whole page while `settings.enabled`
+ * is set and calls `onScan` with every code they type.
+ */
+const useKeyboardWedge = (settings: WedgeSettings, onScan: (text: string) => void) => {
+	// The listener outlives renders, so it reads the latest settings and handler from refs
+	const settingsRef = useRef(settings);
+	const onScanRef = useRef(onScan);
+	settingsRef.current = settings;
+	onScanRef.current = onScan;
+
+	useEffect(() => {
+		if (!settings.enabled) return;
+
+		const reader = createWedgeReader(() => settingsRef.current, text => onScanRef.current(text));
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.ctrlKey || event.metaKey || event.altKey || isEditable(event.target)) {
+				reader.reset();
+				return;
+			}
+			if (reader.handleKey(event.key, event.timeStamp)) {
+				event.preventDefault();
+			}
+		};
+
+		// Capture phase, so the keys are seen before any handler on the page
+		document.addEventListener("keydown", handleKeyDown, true);
+		return () => {
+			document.removeEventListener("keydown", handleKeyDown, true);
+			reader.reset();
+		};
+	}, [settings.enabled]);
+};
+
+export default useKeyboardWedge;
@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from "react";
+import { CatalogSettings, ProductLookup, getScanGtin, lookupProduct } from "@/lib/barcode/catalog";
+
+/**
+ * Looks up the GTIN of every given scan in the configured catalog, once per GTIN.
+ * Returns the lookup state keyed by GTIN-14; changing the settings starts over.
+ */
+const useProductLookup = (results: ScanResult[], settings: CatalogSettings) => {
+	const [lookups, setLookups] = useState<Record<string, ProductLookup>>({});
+	const requestedRef = useRef(new Set<string>());
+	// Answers for an earlier configuration are dropped
+	const generationRef = useRef(0);
+
+	const { source, endpoint, field, cacheHours, revision } = settings;
+
+	useEffect(() => {
+		generationRef.current++;
+		requestedRef.current = new Set();
+		setLookups({});
+	}, [source, endpoint, field, cacheHours, revision]);
+
+	useEffect(() => {
+		if (source === "off") return;
+
+		const gtins = [...new Set(results.map(getScanGtin))].filter(gtin => gtin && !requestedRef.current.has(gtin));
+		if (gtins.length === 0) return;
+
+		const generation = generationRef.current;
+		const set = (gtin: string, lookup: ProductLookup) => {
+			if (generation === generationRef.current) setLookups(prev => ({ ...prev, [gtin]: lookup }));
+		};
+
+		gtins.forEach(gtin => {
+			requestedRef.current.add(gtin);
+			set(gtin, { status: "loading" });
+			lookupProduct(gtin, { source, endpoint, field, cacheHours, revision })
+				.then(lookup => set(gtin, lookup))
+				.catch(err => {
+					console.error("Product lookup error:", err);
+					// Allow another attempt the next time the list changes
+					requestedRef.current.delete(gtin);
+					set(gtin, { status: "error", message: err.message || "Lookup failed" });
+				});
+		});
+	}, [results, source, endpoint, field, cacheHours, revision]);
+
+	return lookups;
+};
+
+export default useProductLookup;
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { countScanResult } from "@/lib/barcode/scanSession";
+import { clearHistory, deleteHistoryEntries, loadHistory, putHistoryEntries } from "@/lib/barcode/history";
+
+const persist = (save: Promise<unknown>) => {
+	save.catch(err => {
+		console.error("Scan history error:", err);
+		toast.error("Could not save scan history in this browser.");
+	});
+};
+
+/**
+ * Scan history kept in IndexedDB, newest first. The in-memory list is the source
+ * of truth for the UI; every change is written through to the database.
+ */
+const useScanHistory = () => {
+	const [results, setResults] = useState<ScanResult[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	// Continuous scanning can add several results before React re-renders
+	const resultsRef = useRef<ScanResult[]>([]);
+
+	const update = useCallback((next: ScanResult[]) => {
+		resultsRef.current = next;
+		setResults(next);
+	}, []);
+
+	useEffect(() => {
+		loadHistory()
+			.then(stored => {
+				// Keep anything scanned while the database was opening
+				const ids = new Set(resultsRef.current.map(r => r.id));
+				update([...resultsRef.current, ...stored.filter(r => !ids.has(r.id))]);
+			})
+			.catch(err => {
+				console.error("Scan history error:", err);
+				toast.error("Scan history is not available in this browser.");
+			})
+			.finally(() => setIsLoading(false));
+	}, [update]);
+
+	const addResults = useCallback(
+		(newResults: ScanResult[]) => {
+			update([...newResults, ...resultsRef.current]);
+			persist(putHistoryEntries(newResults));
+		},
+		[update]
+	);
+
+	/** Adds a camera read, or bumps the count of an earlier read of the same code. Returns the stored entry. */
+	const countResult = useCallback(
+		(result: ScanResult) => {
+			const next = countScanResult(resultsRef.current, result);
+			update(next);
+			persist(putHistoryEntries([next[0]]));
+			return next[0];
+		},
+		[update]
+	);
+
+	const updateResult = useCallback(
+		(result: ScanResult) => {
+			update(resultsRef.current.map(r => (r.id === result.id ? result : r)));
+			persist(putHistoryEntries([result]));
+		},
+		[update]
+	);
+
+	const removeResults = useCallback(
+		(ids: string[]) => {
+			const removed = new Set(ids);
+			update(resultsRef.current.filter(r => !removed.has(r.id)));
+			persist(deleteHistoryEntries(ids));
+		},
+		[update]
+	);
+
+	const clearResults = useCallback(() => {
+		update([]);
+		persist(clearHistory());
+	}, [update]);
+
+	/** Merges imported entries by id, so re-importing an export replaces rather than duplicates. */
+	const importResults = useCallback(
+		(imported: ScanResult[]) => {
+			const ids = new Set(imported.map(r => r.id));
+			const merged = [...imported, ...resultsRef.current.filter(r => !ids.has(r.id))];
+			update(merged.sort((a, b) => b.timestamp - a.timestamp));
+			persist(putHistoryEntries(imported));
+		},
+		[update]
+	);
+
+	return { results, isLoading, addResults, countResult, updateResult, removeResults, clearResults, importResults };
+};
+
+export default useScanHistory;
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { CountSession } from "@/lib/barcode/inventory";
+import {
+	SyncJob,
+	SyncKind,
+	createSyncJob,
+	deleteOutboxJobs,
+	isOfflineError,
+	loadOutbox,
+	putOutboxJobs,
+	runSyncJob,
+} from "@/lib/barcode/syncQueue";
+import { createId } from "@/lib/utils";
+
+// How often waiting jobs are retried while online, in case the server was down
+const RETRY_INTERVAL = 30 * 1000;
+
+export type ConflictResolution = "overwrite" | "server" | "copy";
+
+type SyncCallbacks = {
+	// A count was written to the server; the session carries its server id and version
+	onCountSaved: (session: CountSession) => void;
+	// The local count should be replaced, e.g. by the server copy after a conflict
+	onCountReplaced: (session: CountSession) => void;
+};
+
+const persist = (save: Promise<unknown>) => {
+	save.catch(err => {
+		console.error("Sync queue error:", err);
+		toast.error("Could not store pending uploads in this browser.");
+	});
+};
+
+/**
+ * Outbox of server writes kept in IndexedDB. Jobs run in order whenever the
+ * browser is online and are kept, untouched, while it is offline. Conflicts and
+ * rejected jobs stay in the outbox until the user resolves or discards them.
+ */
+const useSyncQueue = (callbacks: SyncCallbacks) => {
+	const [jobs, setJobs] = useState<SyncJob[]>([]);
+	const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+	const [isSyncing, setIsSyncing] = useState(false);
+	const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+	const jobsRef = useRef<SyncJob[]>([]);
+	const processingRef = useRef(false);
+	const callbacksRef = useRef(callbacks);
+	callbacksRef.current = callbacks;
+
+	const update = useCallback((next: SyncJob[]) => {
+		jobsRef.current = next;
+		setJobs(next);
+	}, []);
+
+	const replaceJob = useCallback(
+		(job: SyncJob) => {
+			// A newer job for the same record may have replaced it while it ran
+			if (!jobsRef.current.some(j => j.id === job.id)) return;
+			update(jobsRef.current.map(j => (j.id === job.id ? job : j)));
+			persist(putOutboxJobs([job]));
+		},
+		[update]
+	);
+
+	const removeJob = useCallback(
+		(id: string) => {
+			update(jobsRef.current.filter(j => j.id !== id));
+			persist(deleteOutboxJobs([id]));
+		},
+		[update]
+	);
+
+	const process = useCallback(async () => {
+		if (processingRef.current || !navigator.onLine) return;
+
+		processingRef.current = true;
+		setIsSyncing(true);
+		try {
+			// Re-read the outbox each time: jobs can be added, replaced or discarded while one runs
+			const tried = new Set<string>();
+			let job: SyncJob | undefined;
+			while ((job = jobsRef.current.find(j => j.status === "pending" && !tried.has(j.id)))) {
+				tried.add(job.id);
+				try {
+					const outcome = await runSyncJob(job);
+					if (outcome.status === "conflict") {
+						replaceJob({ ...job, status: "conflict", remote: outcome.remote, error: undefined });
+						continue;
+					}
+
+					removeJob(job.id);
+					if (outcome.kind === "count") callbacksRef.current.onCountSaved(outcome.session);
+				} catch (err: any) {
+					if (isOfflineError(err)) break;
+
+					console.error("Sync error:", err);
+					const message = err.response?.data?.err || err.message || "Upload failed";
+					replaceJob({ ...job, status: "failed", attempts: job.attempts + 1, error: String(message) });
+				}
+			}
+			setLastSyncedAt(Date.now());
+		} finally {
+			processingRef.current = false;
+			setIsSyncing(false);
+		}
+	}, [replaceJob, removeJob]);
+
+	useEffect(() => {
+		loadOutbox()
+			.then(stored => {
+				const ids = new Set(jobsRef.current.map(j => j.id));
+				update([...stored.filter(j => !ids.has(j.id)), ...jobsRef.current]);
+				process();
+			})
+			.catch(err => {
+				console.error("Sync queue error:", err);
+				toast.error("Offline uploads are not available in this browser.");
+			});
+	}, [update, process]);
+
+	useEffect(() => {
+		const goOnline = () => {
+			setIsOnline(true);
+			process();
+		};
+		const goOffline = () => setIsOnline(false);
+
+		window.addEventListener("online", goOnline);
+		window.addEventListener("offline", goOffline);
+		const timer = setInterval(() => {
+			if (jobsRef.current.some(j => j.status === "pending")) process();
+		}, RETRY_INTERVAL);
+
+		return () => {
+			window.removeEventListener("online", goOnline);
+			window.removeEventListener("offline", goOffline);
+			clearInterval(timer);
+		};
+	}, [process]);
+
+	/** Queues a write and starts syncing; a waiting job for the same record is replaced. */
+	const enqueue = useCallback(
+		<K extends SyncKind>(kind: K, key: string, payload: SyncJob<K>["payload"]) => {
+			const replaced = jobsRef.current.filter(j => j.kind === kind && j.key === key && j.status === "pending");
+			const job = createSyncJob(kind, key, payload);
+
+			update([...jobsRef.current.filter(j => !replaced.includes(j)), job]);
+			persist(putOutboxJobs([job]));
+			if (replaced.length > 0) persist(deleteOutboxJobs(replaced.map(j => j.id)));
+			process();
+		},
+		[update, process]
+	);
+
+	const retryJob = useCallback(
+		(id: string) => {
+			const job = jobsRef.current.find(j => j.id === id);
+			if (!job) return;
+			replaceJob({ ...job, status: "pending", error: undefined });
+			process();
+		},
+		[replaceJob, process]
+	);
+
+	const resolveConflict = useCallback(
+		(id: string, resolution: ConflictResolution) => {
+			const job = jobsRef.current.find(j => j.id === id);
+			if (!job || job.kind !== "count" || !job.remote) return;
+
+			const local = job.payload as CountSession;
+			if (resolution === "server") {
+				removeJob(id);
+				callbacksRef.current.onCountReplaced(job.remote);
+				return;
+			}
+
+			if (resolution === "overwrite") {
+				replaceJob({ ...job, status: "pending", force: true, remote: undefined });
+			} else {
+				// Save the local counts as a separate session next to the server copy
+				const copy: CountSession = { ...local, id: createId(), remoteId: undefined, savedAt: undefined };
+				removeJob(id);
+				callbacksRef.current.onCountReplaced(copy);
+				const copyJob = createSyncJob("count", copy.id, copy);
+				update([...jobsRef.current, copyJob]);
+				persist(putOutboxJobs([copyJob]));
+			}
+			process();
+		},
+		[update, replaceJob, removeJob, process]
+	);
+
+	return { jobs, isOnline, isSyncing, lastSyncedAt, enqueue, syncNow: process, retryJob, discardJob: removeJob, resolveConflict };
+};
+
+export default useSyncQueue;
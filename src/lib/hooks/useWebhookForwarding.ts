@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import {
+	WebhookDelivery,
+	WebhookSettings,
+	attemptDelivery,
+	createTestScan,
+	createWebhookDelivery,
+	deleteWebhookDeliveries,
+	loadWebhookLog,
+	putWebhookDeliveries,
+} from "@/lib/barcode/webhook";
+
+// How often due retries are looked for
+const TICK_INTERVAL = 1000;
+// Finished deliveries kept in the log
+const MAX_LOG_ENTRIES = 200;
+
+const persist = (save: Promise<unknown>) => {
+	save.catch(err => {
+		console.error("Webhook log error:", err);
+		toast.error("Could not store the webhook log in this browser.");
+	});
+};
+
+/**
+ * Forwards scans to the configured webhook. Deliveries are kept in IndexedDB,
+ * newest first, and double as the delivery log; pending ones run one at a time
+ * when due and survive a reload. Nothing is tried while the browser is offline,
+ * so a lost connection does not use up attempts.
+ */
+const useWebhookForwarding = (settings: WebhookSettings) => {
+	const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+	const deliveriesRef = useRef<WebhookDelivery[]>([]);
+	const processingRef = useRef(false);
+	const settingsRef = useRef(settings);
+	settingsRef.current = settings;
+
+	const update = useCallback((next: WebhookDelivery[]) => {
+		deliveriesRef.current = next;
+		setDeliveries(next);
+	}, []);
+
+	const replaceDelivery = useCallback(
+		(delivery: WebhookDelivery) => {
+			// It may have been discarded while its request ran
+			if (!deliveriesRef.current.some(d => d.id === delivery.id)) return;
+			update(deliveriesRef.current.map(d => (d.id === delivery.id ? delivery : d)));
+			persist(putWebhookDeliveries([delivery]));
+		},
+		[update]
+	);
+
+	const process = useCallback(async () => {
+		if (processingRef.current || !navigator.onLine) return;
+
+		processingRef.current = true;
+		try {
+			// Oldest first (the list is newest first), re-read each time as scans keep arriving
+			const nextDue = () =>
+				[...deliveriesRef.current].reverse().find(d => d.status === "pending" && (d.nextAttemptAt ?? 0) <= Date.now());
+			let delivery: WebhookDelivery | undefined;
+			while ((delivery = nextDue())) {
+				replaceDelivery(await attemptDelivery(delivery));
+			}
+		} finally {
+			processingRef.current = false;
+		}
+	}, [replaceDelivery]);
+
+	useEffect(() => {
+		loadWebhookLog()
+			.then(stored => {
+				const ids = new Set(deliveriesRef.current.map(d => d.id));
+				update([...deliveriesRef.current, ...stored.filter(d => !ids.has(d.id))]);
+				process();
+			})
+			.catch(err => {
+				console.error("Webhook log error:", err);
+				toast.error("The webhook log is not available in this browser.");
+			});
+	}, [update, process]);
+
+	useEffect(() => {
+		const timer = setInterval(() => {
+			if (deliveriesRef.current.some(d => d.status === "pending")) process();
+		}, TICK_INTERVAL);
+		return () => clearInterval(timer);
+	}, [process]);
+
+	const enqueue = useCallback(
+		(created: WebhookDelivery[]) => {
+			const next = [...created, ...deliveriesRef.current];
+			const expired = next.filter(d => d.status !== "pending").slice(MAX_LOG_ENTRIES);
+
+			update(next.filter(d => !expired.includes(d)));
+			persist(putWebhookDeliveries(created));
+			if (expired.length > 0) persist(deleteWebhookDeliveries(expired.map(d => d.id)));
+			process();
+		},
+		[update, process]
+	);
+
+	/** Queues a delivery for each scan while forwarding is on. */
+	const forward = useCallback(
+		(results: ScanResult[]) => {
+			if (!settingsRef.current.enabled || results.length === 0) return;
+
+			try {
+				enqueue(results.map(result => createWebhookDelivery(settingsRef.current, result)));
+			} catch (err: any) {
+				console.error("Webhook error:", err);
+				toast.error(`Scan not forwarded: ${err.message}`);
+			}
+		},
+		[enqueue]
+	);
+
+	/** Sends a sample scan, whether or not forwarding is on. */
+	const sendTest = useCallback(() => {
+		try {
+			enqueue([createWebhookDelivery(settingsRef.current, createTestScan())]);
+		} catch (err: any) {
+			toast.error(err.message);
+		}
+	}, [enqueue]);
+
+	/** Gives a failed delivery a fresh set of attempts, starting now. */
+	const retry = useCallback(
+		(id: string) => {
+			const delivery = deliveriesRef.current.find(d => d.id === id);
+			if (!delivery) return;
+			replaceDelivery({
+				...delivery,
+				status: "pending",
+				maxAttempts: delivery.attempts + settingsRef.current.maxAttempts,
+				nextAttemptAt: Date.now(),
+			});
+			process();
+		},
+		[replaceDelivery, process]
+	);
+
+	const discard = useCallback(
+		(id: string) => {
+			update(deliveriesRef.current.filter(d => d.id !== id));
+			persist(deleteWebhookDeliveries([id]));
+		},
+		[update]
+	);
+
+	/** Removes delivered and failed entries; pending ones stay queued. */
+	const clearLog = useCallback(() => {
+		const finished = deliveriesRef.current.filter(d => d.status !== "pending");
+		update(deliveriesRef.current.filter(d => d.status === "pending"));
+		persist(deleteWebhookDeliveries(finished.map(d => d.id)));
+	}, [update]);
+
+	return { deliveries, forward, sendTest, retry, discard, clearLog };
+};
+
+export default useWebhookForwarding;
@@ -0,0 +1,49 @@
+import toast from "react-hot-toast";
+
+/**
+ * Registers the service worker that caches the app for offline use. Only production
+ * builds have one; in development it would serve stale modules to the dev server.
+ * A new version waits until the user chooses to reload, so a count in progress is
+ * never interrupted.
+ */
+export function registerServiceWorker() {
+	if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+	window.addEventListener("load", async () => {
+		try {
+			const registration = await navigator.serviceWorker.register("/sw.js");
+			registration.addEventListener("updatefound", () => {
+				const worker = registration.installing;
+				worker?.addEventListener("statechange", () => {
+					// The first install has no controller and nothing to update
+					if (worker.state === "installed" && navigator.serviceWorker.controller) {
+						promptUpdate(worker);
+					}
+				});
+			});
+		} catch (err) {
+			console.error("Service worker error:", err);
+		}
+	});
+}
+
+function promptUpdate(worker: ServiceWorker) {
+	navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+	toast(
+		t => (
+			<span>
+				A new version is available.{" "}
+				<button
+					className="font-semibold text-indigo-600"
+					onClick={() => {
+						toast.dismiss(t.id);
+						worker.postMessage("skipWaiting");
+					}}
+				>
+					Reload
+				</button>
+			</span>
+		),
+		{ duration: Infinity }
+	);
+}
@@ -4,3 +4,13 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function createId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+// FrontQL answers `{ result: [...] }`; plain arrays and single rows are accepted too
+export function apiRows(response: any): Record<string, unknown>[] {
+  const rows = Array.isArray(response) ? response : (response?.result ?? response?.data ?? [])
+  return Array.isArray(rows) ? rows : [rows]
+}
@@ -4,6 +4,7 @@ import { createRoot } from "react-dom/client";
 
 import App from "@/App";
 import Providers from "@/lib/providers/index.tsx";
+import { registerServiceWorker } from "@/lib/pwa";
 
 import "@/globals.css";
 
@@ -16,3 +17,5 @@ createRoot(document.getElementById("root")!).render(
 		</Providers>
 	</StrictMode>
 );
+
+registerServiceWorker();
@@ -0,0 +1,52 @@
+// Template for /sw.js. The build fills in the list of emitted files and a version derived from them,
+// so every deploy installs a fresh cache and drops the old one once no tab uses it.
+const CACHE_PREFIX = "barcode-toolkit-";
+const CACHE_NAME = `${CACHE_PREFIX}__CACHE_VERSION__`;
+const APP_SHELL = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg", "/logo.png"];
+// addAll rejects duplicate requests, and index.html is also part of the build
+const PRECACHE = [...new Set([...APP_SHELL, ...self.__PRECACHE_MANIFEST])];
+
+self.addEventListener("install", event => {
+	event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", event => {
+	event.waitUntil(
+		caches
+			.keys()
+			.then(keys => Promise.all(keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map(key => caches.delete(key))))
+			.then(() => self.clients.claim())
+	);
+});
+
+// The page asks for this after the user accepts an update
+self.addEventListener("message", event => {
+	if (event.data === "skipWaiting") self.skipWaiting();
+});
+
+self.addEventListener("fetch", event => {
+	const { request } = event;
+	const url = new URL(request.url);
+	// API calls and other origins always go to the network; the sync queue handles being offline
+	if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+	// Client-side routes all load the same shell
+	if (request.mode === "navigate") {
+		event.respondWith(fetch(request).catch(() => caches.match("/index.html")));
+		return;
+	}
+
+	event.respondWith(
+		caches.match(request).then(
+			cached =>
+				cached ||
+				fetch(request).then(response => {
+					if (response.ok) {
+						const copy = response.clone();
+						caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+					}
+					return response;
+				})
+		)
+	);
+});
@@ -0,0 +1,29 @@
+declare type ScanSource = {
+	fileName: string;
+	page?: number;
+	// JPEG data URL of a pasted image, which has no file to go back to
+	thumbnail?: string;
+};
+
+declare type ScanResult = {
+	id: string;
+	text: string;
+	timestamp: number;
+	// zxing symbology name, e.g. "EAN_13"
+	format?: string;
+	// Hex encoded codewords as read from the symbol
+	rawBytes?: string;
+	// Corner or scan line points in image pixels
+	points?: { x: number; y: number }[];
+	// Label of the camera that read the code
+	camera?: string;
+	// Milliseconds from starting to look until the code was found
+	duration?: number;
+	source?: ScanSource;
+	// "HID" for codes typed in by a keyboard-wedge hardware scanner
+	input?: "HID";
+	// Times the code was read during a continuous scanning session
+	count?: number;
+	notes?: string;
+	tags?: string[];
+};
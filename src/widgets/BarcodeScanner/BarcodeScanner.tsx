@@ -1,100 +1,70 @@
 // src/widgets/BarcodeScanner/BarcodeScanner.tsx
-import { X } from 'lucide-react';
+import { SlidersHorizontal, X } from 'lucide-react';
 import React, { useState } from 'react';
-import BarcodeScanner from 'react-qr-barcode-scanner';
+import { DecodedBarcode } from '@/lib/barcode/decode';
+import { CameraSettings, GUIDE_REGION } from '@/lib/barcode/camera';
+import { describeScanFormats } from '@/lib/barcode/scanSession';
+import useBarcodeScanner from '@/lib/hooks/useBarcodeScanner';
+import CameraSettingsPanel from './CameraSettingsPanel';
 
-// Import or define the correct format types
-// If the library exports these types, use them directly
-import { BarcodeFormat } from 'react-qr-barcode-scanner';
-
-// If the library doesn't export them, you can define them based on the library's documentation
-// These are the typical format values for zxing-js which react-qr-barcode-scanner uses internally
-const Formats = {
-    AZTEC: 'aztec',
-    CODABAR: 'codabar',
-    CODE_39: 'code_39',
-    CODE_93: 'code_93',
-    CODE_128: 'code_128',
-    DATA_MATRIX: 'data_matrix',
-    EAN_8: 'ean_8',
-    EAN_13: 'ean_13',
-    ITF: 'itf',
-    PDF_417: 'pdf_417',
-    QR_CODE: 'qr_code',
-    UPC_A: 'upc_a',
-    UPC_E: 'upc_e',
-} as const;
-
-type BarcodeFormatType = typeof Formats[keyof typeof Formats];
+const guideStyle = {
+    left: `${GUIDE_REGION.x * 100}%`,
+    top: `${GUIDE_REGION.y * 100}%`,
+    width: `${GUIDE_REGION.width * 100}%`,
+    height: `${GUIDE_REGION.height * 100}%`,
+};
 
 const BarScanner = ({
+    formats,
+    settings,
+    onSettingsChange,
     onScan,
     onError,
     onStop
 }: {
-    onScan: (data: string | null) => void,
+    // zxing symbology names to look for
+    formats: string[],
+    settings: CameraSettings,
+    onSettingsChange: (settings: CameraSettings) => void,
+    onScan: (scan: DecodedBarcode & { camera?: string }) => void,
     onError: (err: any) => void,
     onStop: () => void
 }) => {
-    const [scanning, setScanning] = useState(true);
-    const [lastError, setLastError] = useState<string | null>(null);
-
-    const handleScan = (data: string | null) => {
-        if (data) {
-            setLastError(null);
-            onScan(data);
-        }
-    };
-
-    const handleError = (err: any) => {
-        console.error('Scanner error:', err);
-
-        // Filter out "no barcode found" errors
-        if (!err.message.includes('No MultiFormat Readers')) {
-            setLastError(err.message);
-            onError(err);
-        }
-    };
-
-    // Correct format array using the defined formats
-    const supportedFormats = [
-        BarcodeFormat.CODE_128,
-        BarcodeFormat.EAN_13,
-        BarcodeFormat.EAN_8,
-        BarcodeFormat.CODE_39,
-        BarcodeFormat.CODE_93,
-        BarcodeFormat.CODABAR,
-        BarcodeFormat.UPC_A,
-        BarcodeFormat.UPC_E,
-        BarcodeFormat.ITF,
-        BarcodeFormat.QR_CODE
-    ];
+    const [showSettings, setShowSettings] = useState(false);
+    const { videoRef, track, features, cameras, error: lastError } = useBarcodeScanner({ formats, settings, onScan, onError });
+    const { deviceId, region } = settings;
 
     return (
         <div className="space-y-4">
-            <div className="relative rounded-xl overflow-hidden">
-                <BarcodeScanner
-                    onUpdate={(err, result) => {
-                        if (err) {
-                            handleError(err);
-                            return;
-                        }
-                        if (result) {
-                            handleScan(result.getText());
-                        }
-                    }}
-                    onError={handleError}
-                    videoConstraints={{
-                        facingMode: 'environment',
-                        width: { ideal: 1280 },
-                        height: { ideal: 720 },
-                    }}
-                    torch={false}
-                    delay={500}
-                    facingMode="environment"
-                    formats={supportedFormats}
+            <div className="flex justify-end">
+                <button
+                    onClick={() => setShowSettings(!showSettings)}
+                    className="text-sm px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors flex items-center gap-2 font-medium border border-gray-200"
+                >
+                    <SlidersHorizontal className="w-4 h-4" />
+                    Camera settings
+                </button>
+            </div>
+
+            {showSettings && (
+                <CameraSettingsPanel
+                    settings={settings}
+                    features={features}
+                    cameras={cameras}
+                    activeDeviceId={track?.getSettings().deviceId ?? deviceId}
+                    onChange={onSettingsChange}
                 />
-                <div className="absolute inset-4 border-4 border-indigo-500 rounded-xl pointer-events-none shadow-lg">
+            )}
+
+            <div className="relative rounded-xl overflow-hidden bg-black">
+                <video ref={videoRef} className="block w-full h-auto" muted playsInline />
+                <div className="absolute top-2 left-2 z-10 px-2 py-1 rounded-lg bg-black/60 text-white text-xs font-medium pointer-events-none">
+                    {describeScanFormats(formats)}
+                </div>
+                <div
+                    className={`absolute border-4 border-indigo-500 rounded-xl pointer-events-none shadow-lg ${region === 'guide' ? 'shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]' : 'inset-4'}`}
+                    style={region === 'guide' ? guideStyle : undefined}
+                >
                     <div className="absolute top-0 left-0 w-6 h-6 border-t-4 border-l-4 border-white rounded-tl-lg"></div>
                     <div className="absolute top-0 right-0 w-6 h-6 border-t-4 border-r-4 border-white rounded-tr-lg"></div>
                     <div className="absolute bottom-0 left-0 w-6 h-6 border-b-4 border-l-4 border-white rounded-bl-lg"></div>
@@ -4,11 +4,12 @@ import React, {
     useRef,
     useEffect,
     useCallback,
+    useMemo,
     Suspense,
     lazy
 } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router';
 // import {BarScanner} from './BarcodeScanner'
-import JsBarcode from 'jsbarcode';
 import {
     ScanBarcode,
     ScanLine,
@@ -18,51 +19,190 @@ import {
     X,
     CheckCircle,
     AlertCircle,
-    ArrowRight,
     Sparkles,
-    Zap
+    Zap,
+    Layers,
+    Tags,
+    Wand2,
+    FileImage,
+    FileSearch,
+    PackageSearch,
+    ClipboardList,
+    Link2,
+    Image,
+    Keyboard,
+    Webhook
 } from 'lucide-react';
+import {
+    BARCODE_FORMATS,
+    BarcodeKind,
+    formatForSymbology,
+    getFormat,
+    getFormatLabel,
+    isGs1Format,
+    isMatrixFormat
+} from '@/lib/barcode/formats';
+import { buildElementString, parseGs1 } from '@/lib/barcode/gs1';
+import { downloadUrl, sanitizeFilename } from '@/lib/barcode/download';
+import { validateBarcodeInput, firstValidationError } from '@/lib/barcode/validation';
+import { svgToDataUrl, renderBarcodeSvg, RenderOptions } from '@/lib/barcode/render';
+import { getGeneratorUrl, getRenderUrl, parseGeneratorLink, toGeneratorSearch } from '@/lib/barcode/links';
+import { FavoriteBarcode, GeneratorPreset } from '@/lib/barcode/library';
+import { getFailedChecks } from '@/lib/barcode/verify';
+import StylePanel from './StylePanel';
+import Gs1Builder from './Gs1Builder';
+import PayloadBuilder from './PayloadBuilder';
+import PresetPicker from './PresetPicker';
+import FavoritesPanel from './FavoritesPanel';
+import VerificationPanel from './VerificationPanel';
+import { DecodedBarcode } from '@/lib/barcode/decode';
+import {
+    ScanSettings,
+    DEFAULT_SCAN_SETTINGS,
+    acceptScan,
+    createScanResult,
+    getScanTotals,
+    playScanFeedback,
+    prepareScanFeedback
+} from '@/lib/barcode/scanSession';
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS, openCamera } from '@/lib/barcode/camera';
+import { DEFAULT_WEDGE_SETTINGS, WedgeSettings, createWedgeScanResult } from '@/lib/barcode/keyboardWedge';
+import { CatalogSettings, DEFAULT_CATALOG_SETTINGS } from '@/lib/barcode/catalog';
+import { CountSession } from '@/lib/barcode/inventory';
+import { SyncSettings, DEFAULT_SYNC_SETTINGS } from '@/lib/barcode/syncQueue';
+import { DEFAULT_WEBHOOK_SETTINGS, WebhookSettings } from '@/lib/barcode/webhook';
+import useStore from '@/lib/hooks/useStore';
+import useScanHistory from '@/lib/hooks/useScanHistory';
+import useSyncQueue from '@/lib/hooks/useSyncQueue';
+import useBarcodeVerification from '@/lib/hooks/useBarcodeVerification';
+import useKeyboardWedge from '@/lib/hooks/useKeyboardWedge';
+import useWebhookForwarding from '@/lib/hooks/useWebhookForwarding';
+import ScanSettingsPanel from './ScanSettingsPanel';
+import ScanFormatsPanel from './ScanFormatsPanel';
+import ScanHistoryPanel from './ScanHistoryPanel';
+import CatalogSettingsPanel from './CatalogSettingsPanel';
+import HardwareScannerPanel from './HardwareScannerPanel';
+import WebhookPanel from './WebhookPanel';
+import SyncStatus from './SyncStatus';
 
 // Types
-interface BarcodeFormat {
-    value: string;
-    label: string;
-    description: string;
-}
-
-interface ScanResult {
-    text: string;
-    timestamp: number;
-}
-
-const BARCODE_FORMATS: BarcodeFormat[] = [
-    { value: 'CODE128', label: 'CODE 128', description: 'Most versatile, supports all ASCII characters' },
-    { value: 'EAN13', label: 'EAN-13', description: 'International retail standard (13 digits)' },
-    { value: 'UPC', label: 'UPC-A', description: 'North American retail standard (12 digits)' },
-    { value: 'CODE39', label: 'CODE 39', description: 'Alphanumeric, widely used in logistics' },
-    { value: 'ITF', label: 'ITF-14', description: 'Shipping containers (14 digits)' },
+type ToolkitTab = 'generate' | 'labels' | 'batch' | 'scan' | 'count';
+
+const TABS: { id: ToolkitTab; label: string; icon: typeof ScanBarcode }[] = [
+    { id: 'generate', label: 'Generate', icon: ScanBarcode },
+    { id: 'labels', label: 'Labels', icon: Tags },
+    { id: 'batch', label: 'Batch', icon: Layers },
+    { id: 'scan', label: 'Scan', icon: ScanLine },
+    { id: 'count', label: 'Count', icon: ClipboardList },
+];
+
+const FORMAT_GROUPS: { kind: BarcodeKind; label: string }[] = [
+    { kind: 'matrix', label: '2D' },
+    { kind: 'linear', label: 'Linear (1D)' },
 ];
 
-// Lazy load scanner
+// Lazy load scanner and the heavier export tools
 const BarScanner = lazy(() => import('./BarcodeScanner'));
+const BatchGenerator = lazy(() => import('./BatchGenerator'));
+const LabelSheetDesigner = lazy(() => import('./LabelSheetDesigner'));
+const ExportDialog = lazy(() => import('./ExportDialog'));
+const FileScanner = lazy(() => import('./FileScanner'));
+const CycleCount = lazy(() => import('./CycleCount'));
+
+const TabFallback = () => (
+    <div className="flex items-center justify-center h-64">
+        <div className="animate-spin w-8 h-8 border-3 border-indigo-300 border-t-indigo-600 rounded-full"></div>
+    </div>
+);
 
 export default function EnhancedBarcodeToolkit() {
-    // Generator states
-    const [barcodeData, setBarcodeData] = useState('https://example.com');
-    const [barcodeFormat, setBarcodeFormat] = useState('CODE128');
+    // Route states; the tab is part of the path, e.g. /scan
+    const { tab } = useParams();
+    const location = useLocation();
+    const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
+    const activeTab: ToolkitTab = TABS.find(t => t.id === tab)?.id ?? 'generate';
+
+    // Generator states, seeded from the link the page was opened with
+    const [initialLink] = useState(() => parseGeneratorLink(searchParams));
+    const [barcodeData, setBarcodeData] = useState(initialLink.data ?? 'https://example.com');
+    const [barcodeFormat, setBarcodeFormat] = useState(initialLink.format ?? 'QR');
+    const [renderOptions, setRenderOptions] = useState<RenderOptions>(initialLink.options);
     const [barcodeSvgString, setBarcodeSvgString] = useState<string | null>(null);
     const [isGenerating, setIsGenerating] = useState(false);
     const [generationError, setGenerationError] = useState<string | null>(null);
+    const [showExportDialog, setShowExportDialog] = useState(false);
+    const [verificationDpi, setVerificationDpi] = useStore('verificationDpi', 300);
 
     // Scanner states
     const [showScanner, setShowScanner] = useState(false);
-    const [scannedResults, setScannedResults] = useState<ScanResult[]>([]);
+    const {
+        results: scannedResults,
+        isLoading: isHistoryLoading,
+        addResults: addScanResults,
+        countResult,
+        updateResult,
+        removeResults,
+        clearResults,
+        importResults
+    } = useScanHistory();
     const [cameraError, setCameraError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [scanSettings, setScanSettings] = useStore<ScanSettings>('scanSettings', DEFAULT_SCAN_SETTINGS);
+    const [cameraSettings, setCameraSettings] = useStore<CameraSettings>('cameraSettings', DEFAULT_CAMERA_SETTINGS);
+    const [catalogSettings, setCatalogSettings] = useStore<CatalogSettings>('catalogSettings', DEFAULT_CATALOG_SETTINGS);
+    const [wedgeSettings, setWedgeSettings] = useStore<WedgeSettings>('wedgeSettings', DEFAULT_WEDGE_SETTINGS);
+    // Settings saved before format selection existed have no list
+    const scanFormats = scanSettings.formats ?? DEFAULT_SCAN_SETTINGS.formats;
+    // When each code was last accepted, for the continuous mode cooldown
+    const lastAcceptedRef = useRef(new Map<string, number>());
+
+    // Server sync states
+    const [syncSettings, setSyncSettings] = useStore<SyncSettings>('syncSettings', DEFAULT_SYNC_SETTINGS);
+    const [countSession, setCountSession] = useStore<CountSession | null>('countSession', null);
+    // Uploads finish later, by which time the count may have changed again
+    const countSessionRef = useRef(countSession);
+    countSessionRef.current = countSession;
+    const syncQueue = useSyncQueue({
+        onCountSaved: (saved) => {
+            const current = countSessionRef.current;
+            // Keep counts made while the upload was queued; they stay marked unsaved
+            if (current?.id === saved.id) {
+                setCountSession({ ...current, remoteId: saved.remoteId, savedAt: saved.savedAt });
+            }
+        },
+        onCountReplaced: setCountSession
+    });
+    const countSyncJob = syncQueue.jobs.find(job => job.kind === 'count' && job.key === countSession?.id);
+
+    // Webhook forwarding states
+    const [webhookSettings, setWebhookSettings] = useStore<WebhookSettings>('webhookSettings', DEFAULT_WEBHOOK_SETTINGS);
+    const webhook = useWebhookForwarding(webhookSettings);
+
+    const uploadScans = (results: ScanResult[]) => {
+        if (!syncSettings.uploadScans) return;
+        results.forEach(result => syncQueue.enqueue('scan', result.id, result));
+    };
+
+    const addResults = (results: ScanResult[]) => {
+        addScanResults(results);
+        uploadScans(results);
+        webhook.forward(results);
+    };
+
+    const updateScanResult = (result: ScanResult) => {
+        updateResult(result);
+        uploadScans([result]);
+    };
 
     // UI states
     const [copiedText, setCopiedText] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'generate' | 'scan'>('generate');
+
+    // Validate before rendering so errors point at the offending character
+    const validation = useMemo(
+        () => validateBarcodeInput(barcodeData.trim(), barcodeFormat),
+        [barcodeData, barcodeFormat]
+    );
 
     // Generate barcode with improved error handling
     const generateBarcode = useCallback(async () => {
@@ -71,6 +211,13 @@ export default function EnhancedBarcodeToolkit() {
             return;
         }
 
+        const validationError = firstValidationError(validation);
+        if (validationError) {
+            setGenerationError(validationError);
+            setBarcodeSvgString(null);
+            return;
+        }
+
         setIsGenerating(true);
         setGenerationError(null);
 
@@ -78,24 +225,7 @@ export default function EnhancedBarcodeToolkit() {
             // Add a small delay for better UX
             await new Promise(resolve => setTimeout(resolve, 200));
 
-            // Create an in-memory SVG element to render the barcode
-            const isMobile = window.innerWidth < 640; // Tailwind's sm breakpoint
-            const svgNode = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
-
-            JsBarcode(svgNode, barcodeData.trim(), {
-                format: barcodeFormat,
-                lineColor: '#1f2937',
-                width: isMobile ? 1.2 : 1.8,
-                height: isMobile ? 50 : 80,
-                displayValue: true,
-                margin: isMobile ? 8 : 12,
-                fontSize: isMobile ? 10 : 12,
-                fontOptions: 'bold',
-                textMargin: isMobile ? 4 : 6,
-            });
-
-            // Get the SVG markup as a string
-            const svgString = svgNode.outerHTML;
+            const svgString = renderBarcodeSvg(barcodeData.trim(), barcodeFormat, renderOptions);
             setBarcodeSvgString(svgString);
 
         } catch (err: any) {
@@ -105,12 +235,61 @@ export default function EnhancedBarcodeToolkit() {
         } finally {
             setIsGenerating(false);
         }
-    }, [barcodeData, barcodeFormat]);
+    }, [barcodeData, barcodeFormat, renderOptions, validation]);
 
     useEffect(() => {
         generateBarcode();
     }, [generateBarcode]);
 
+    const verification = useBarcodeVerification(
+        generationError ? null : barcodeSvgString,
+        barcodeFormat,
+        barcodeData.trim(),
+        renderOptions,
+        verificationDpi
+    );
+
+    // Failing symbols can still be downloaded, e.g. for a reader that is more tolerant than the check
+    const confirmDownload = () => {
+        const failed = getFailedChecks(verification.report);
+        if (failed.length === 0) return true;
+
+        const reasons = failed.map(check => `• ${check.label}: ${check.detail}`).join('\n');
+        return window.confirm(`This barcode failed verification:\n\n${reasons}\n\nDownload anyway?`);
+    };
+
+    const generatorSearch = toGeneratorSearch(barcodeFormat, barcodeData, renderOptions);
+    const locationRef = useRef(location);
+    locationRef.current = location;
+
+    // Links followed inside the app (back/forward, in-app links) load their configuration
+    useEffect(() => {
+        if (activeTab !== 'generate' || location.state?.fromGenerator) return;
+
+        const link = parseGeneratorLink(searchParams);
+        if (!link.format && link.data === null) return;
+        if (link.format) setBarcodeFormat(link.format);
+        if (link.data !== null) setBarcodeData(link.data);
+        setRenderOptions(link.options);
+    }, [activeTab, location, searchParams]);
+
+    // Mirror the generator in the address bar so the current barcode can be bookmarked or shared
+    useEffect(() => {
+        if (activeTab !== 'generate') return;
+
+        const { pathname, search } = locationRef.current;
+        if (pathname === '/generate' && search === `?${generatorSearch}`) return;
+        navigate({ pathname: '/generate', search: generatorSearch }, { replace: true, state: { fromGenerator: true } });
+    }, [activeTab, generatorSearch, navigate]);
+
+    const openTab = (id: ToolkitTab) => {
+        if (id === 'generate') {
+            navigate({ pathname: '/generate', search: generatorSearch }, { state: { fromGenerator: true } });
+        } else {
+            navigate(`/${id}`);
+        }
+    };
+
     // Enhanced copy function with feedback
     const copyToClipboard = async (text: string) => {
         try {
@@ -132,35 +311,65 @@ export default function EnhancedBarcodeToolkit() {
 
     // Enhanced download with better filename
     const downloadBarcode = () => {
-        if (!barcodeSvgString) return;
+        if (!barcodeSvgString || !confirmDownload()) return;
 
-        const formatName = BARCODE_FORMATS.find(f => f.value === barcodeFormat)?.label || barcodeFormat;
-        const sanitizedData = barcodeData.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 20);
+        const formatName = getFormatLabel(barcodeFormat);
+        const sanitizedData = sanitizeFilename(barcodeData);
         const filename = `${formatName}_${sanitizedData}_${Date.now()}.svg`;
 
-        const dataUrl = `data:image/svg+xml,${encodeURIComponent(barcodeSvgString)}`;
-        const link = document.createElement('a');
-        link.href = dataUrl;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        downloadUrl(svgToDataUrl(barcodeSvgString), filename);
+    };
+
+    const applyPreset = (preset: GeneratorPreset) => {
+        setBarcodeFormat(preset.format);
+        setRenderOptions(preset.options);
+    };
+
+    const openFavorite = (favorite: FavoriteBarcode) => {
+        setBarcodeFormat(favorite.format);
+        setBarcodeData(favorite.data);
+        setRenderOptions(favorite.options);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
     // Scanner handlers with improved UX
-    const handleScan = (data: string | null) => {
-        if (data && data.trim()) {
-            const newResult: ScanResult = {
-                text: data.trim(),
-                timestamp: Date.now()
-            };
-
-            setScannedResults(prev => [newResult, ...prev.slice(0, 4)]); // Keep last 5 results
+    const handleScan = ({ camera, ...scan }: DecodedBarcode & { camera?: string }) => {
+        const result = createScanResult(scan, { camera });
+        if (!result.text) return;
+
+        if (!scanSettings.continuous) {
+            addResults([result]);
+            playScanFeedback(scanSettings);
             setShowScanner(false);
             setIsLoading(false);
+            return;
         }
+
+        // The camera keeps reporting a code while it stays in view
+        if (!acceptScan(lastAcceptedRef.current, result.text, result.timestamp, scanSettings.cooldown * 1000)) return;
+
+        const counted = countResult(result);
+        uploadScans([counted]);
+        webhook.forward([counted]);
+        playScanFeedback(scanSettings);
+    };
+
+    const handleFileResults = (results: DecodedBarcode[], fileName: string, thumbnail?: string) => {
+        addResults(results.map((result) => createScanResult(result, {
+            source: { fileName, page: result.page, ...(thumbnail && { thumbnail }) }
+        })));
+    };
+
+    // Every code from a hardware scanner is its own entry, like items scanned at a packing station
+    const handleWedgeScan = (text: string) => {
+        addResults([createWedgeScanResult(text)]);
+        // Key presses count as a user gesture, so this also works after a reload with listening left on
+        prepareScanFeedback();
+        playScanFeedback(scanSettings);
     };
 
+    useKeyboardWedge({ ...wedgeSettings, enabled: wedgeSettings.enabled && activeTab === 'scan' }, handleWedgeScan);
+
     const [permissionDenied, setPermissionDenied] = useState(false);
 
     const handleScanError = useCallback((err: any) => {
@@ -178,16 +387,11 @@ export default function EnhancedBarcodeToolkit() {
     const startScanner = async () => {
         setIsLoading(true);
         setCameraError(null);
+        prepareScanFeedback();
 
         try {
             // Check camera permissions more thoroughly
-            const stream = await navigator.mediaDevices.getUserMedia({
-                video: {
-                    facingMode: 'environment',
-                    width: { ideal: 1280 },
-                    height: { ideal: 720 }
-                }
-            });
+            const stream = await openCamera(cameraSettings.deviceId);
 
             // Important: Stop any previous streams
             stream.getTracks().forEach(track => track.stop());
@@ -217,19 +421,47 @@ export default function EnhancedBarcodeToolkit() {
         setIsLoading(false);
     };
 
-    const useScannedResult = (result: string) => {
-        setBarcodeData(result);
-        setActiveTab('generate');
+    const applyScannedResult = (result: ScanResult) => {
+        // GS1 data goes back into the generator as bracketed AIs for the GS1 variant of the symbology
+        const gs1 = parseGs1(result.text, result.format);
+        const isGs1 = Boolean(gs1 && !gs1.error);
+        setBarcodeData(isGs1 ? buildElementString(gs1.elements) : result.text);
+
+        // Regenerate the same symbology when the generator supports it
+        const format = formatForSymbology(result.format, isGs1, result.text);
+        if (format) {
+            setBarcodeFormat(format);
+        }
+        openTab('generate');
         // Smooth scroll to top
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
     const clearScanHistory = () => {
-        setScannedResults([]);
+        clearResults();
+        lastAcceptedRef.current.clear();
     };
 
+    const scanTotals = getScanTotals(scannedResults);
+
     return (
         <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100">
+            {/* Sync status, visible while scrolling */}
+            <div className="fixed top-4 right-4 z-30">
+                <SyncStatus
+                    jobs={syncQueue.jobs}
+                    isOnline={syncQueue.isOnline}
+                    isSyncing={syncQueue.isSyncing}
+                    lastSyncedAt={syncQueue.lastSyncedAt}
+                    settings={syncSettings}
+                    onSettingsChange={setSyncSettings}
+                    onSyncNow={syncQueue.syncNow}
+                    onRetry={syncQueue.retryJob}
+                    onDiscard={syncQueue.discardJob}
+                    onResolve={syncQueue.resolveConflict}
+                />
+            </div>
+
             {/* Header */}
             <header className="relative overflow-hidden bg-white/80 backdrop-blur-sm border-b border-gray-200/50">
                 <div className="absolute inset-0 bg-gradient-to-r from-indigo-500/5 to-purple-500/5"></div>
@@ -255,27 +487,20 @@ export default function EnhancedBarcodeToolkit() {
                 {/* Tab Navigation */}
                 <div className="flex justify-center mb-8">
                     <div className="bg-white/80 backdrop-blur-sm p-1 rounded-xl shadow-lg border border-gray-200/50">
-                        <div className="flex gap-1">
-                            <button
-                                onClick={() => setActiveTab('generate')}
-                                className={`flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all duration-200 ${activeTab === 'generate'
-                                    ? 'bg-indigo-600 text-white shadow-md'
-                                    : 'text-gray-600 hover:text-indigo-600 hover:bg-indigo-50'
-                                    }`}
-                            >
-                                <ScanBarcode className="w-5 h-5" />
-                                Generate
-                            </button>
-                            <button
-                                onClick={() => setActiveTab('scan')}
-                                className={`flex items-center gap-2 px-10 py-3 rounded-lg font-medium transition-all duration-200 ${activeTab === 'scan'
-                                    ? 'bg-indigo-600 text-white shadow-md'
-                                    : 'text-gray-600 hover:text-indigo-600 hover:bg-indigo-50'
-                                    }`}
-                            >
-                                <ScanLine className="w-5 h-5" />
-                                Scan
-                            </button>
+                        <div className="flex flex-wrap justify-center gap-1">
+                            {TABS.map(({ id, label, icon: Icon }) => (
+                                <button
+                                    key={id}
+                                    onClick={() => openTab(id)}
+                                    className={`flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all duration-200 ${activeTab === id
+                                        ? 'bg-indigo-600 text-white shadow-md'
+                                        : 'text-gray-600 hover:text-indigo-600 hover:bg-indigo-50'
+                                        }`}
+                                >
+                                    <Icon className="w-5 h-5" />
+                                    {label}
+                                </button>
+                            ))}
                         </div>
                     </div>
                 </div>
@@ -293,47 +518,107 @@ export default function EnhancedBarcodeToolkit() {
 
                                 <div className="space-y-6">
                                     <div>
-                                        <label className="block text-sm font-semibold text-gray-700 mb-3">
-                                            Content to Encode
-                                        </label>
+                                        <div className="flex items-center justify-between mb-3">
+                                            <label className="block text-sm font-semibold text-gray-700">
+                                                Content to Encode
+                                            </label>
+                                            {!barcodeData.trim() && (
+                                                <button
+                                                    onClick={() => setBarcodeData(getFormat(barcodeFormat)?.sample ?? '')}
+                                                    className="text-sm text-indigo-600 hover:text-indigo-800 transition-colors flex items-center gap-1 font-medium"
+                                                >
+                                                    <Wand2 className="w-4 h-4" />
+                                                    Use sample
+                                                </button>
+                                            )}
+                                        </div>
+                                        {isGs1Format(barcodeFormat) ? (
+                                            <div className="mb-3">
+                                                <Gs1Builder value={barcodeData} onChange={setBarcodeData} />
+                                            </div>
+                                        ) : isMatrixFormat(barcodeFormat) && (
+                                            <div className="mb-3">
+                                                <PayloadBuilder value={barcodeData} onChange={setBarcodeData} />
+                                            </div>
+                                        )}
                                         <textarea
                                             value={barcodeData}
                                             onChange={(e) => setBarcodeData(e.target.value)}
-                                            className="w-full p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 resize-none bg-gray-50/50"
+                                            className={`w-full p-4 border rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 resize-none bg-gray-50/50 ${validation.valid ? 'border-gray-200' : 'border-red-300'}`}
                                             rows={4}
-                                            placeholder="Enter text, URL, or any data..."
+                                            placeholder={`e.g. ${getFormat(barcodeFormat)?.sample ?? 'text, URL, or any data'}`}
                                         />
+
+                                        {validation.issues.length > 0 && (
+                                            <div className="mt-3 space-y-2">
+                                                {validation.issues.map((issue, index) => (
+                                                    <div
+                                                        key={index}
+                                                        className={`flex items-start gap-2 text-sm ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+                                                    >
+                                                        <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                                        <span>{issue.message}</span>
+                                                    </div>
+                                                ))}
+                                                {validation.fix && (
+                                                    <button
+                                                        onClick={() => setBarcodeData(validation.fix!.value)}
+                                                        className="text-sm text-indigo-600 hover:text-indigo-800 transition-colors flex items-center gap-1 font-medium"
+                                                    >
+                                                        <Wand2 className="w-4 h-4" />
+                                                        {validation.fix.label}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
 
                                     <div>
                                         <label className="block text-sm font-semibold text-gray-700 mb-3">
                                             Barcode Format
                                         </label>
-                                        <div className="space-y-2">
-                                            {BARCODE_FORMATS.map((format) => (
-                                                <label key={format.value} className="flex items-start gap-3 p-3 rounded-lg hover:bg-indigo-50 cursor-pointer transition-colors">
-                                                    <input
-                                                        type="radio"
-                                                        name="barcodeFormat"
-                                                        value={format.value}
-                                                        checked={barcodeFormat === format.value}
-                                                        onChange={(e) => setBarcodeFormat(e.target.value)}
-                                                        className="mt-1 text-indigo-600 focus:ring-indigo-500"
-                                                    />
-                                                    <div>
-                                                        <div className="font-medium text-gray-800">{format.label}</div>
-                                                        <div className="text-sm text-gray-500">{format.description}</div>
-                                                    </div>
-                                                </label>
+                                        <div className="space-y-4">
+                                            {FORMAT_GROUPS.map(({ kind, label }) => (
+                                                <div key={kind} className="space-y-2">
+                                                    <div className="text-xs font-semibold uppercase tracking-wide text-gray-400">{label}</div>
+                                                    {BARCODE_FORMATS.filter(format => format.kind === kind).map((format) => (
+                                                        <label key={format.value} className="flex items-start gap-3 p-3 rounded-lg hover:bg-indigo-50 cursor-pointer transition-colors">
+                                                            <input
+                                                                type="radio"
+                                                                name="barcodeFormat"
+                                                                value={format.value}
+                                                                checked={barcodeFormat === format.value}
+                                                                onChange={(e) => setBarcodeFormat(e.target.value)}
+                                                                className="mt-1 text-indigo-600 focus:ring-indigo-500"
+                                                            />
+                                                            <div>
+                                                                <div className="font-medium text-gray-800">{format.label}</div>
+                                                                <div className="text-sm text-gray-500">{format.description}</div>
+                                                            </div>
+                                                        </label>
+                                                    ))}
+                                                </div>
                                             ))}
                                         </div>
                                     </div>
+
+                                    <PresetPicker
+                                        format={barcodeFormat}
+                                        options={renderOptions}
+                                        onApply={applyPreset}
+                                    />
+
+                                    <StylePanel
+                                        format={barcodeFormat}
+                                        options={renderOptions}
+                                        onChange={setRenderOptions}
+                                    />
                                 </div>
                             </div>
                         </div>
 
                         {/* Preview and Actions */}
-                        <div className="lg:col-span-2">
+                        <div className="lg:col-span-2 space-y-8">
                             <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-8">
                                 <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center gap-2">
                                     <ScanBarcode className="w-6 h-6 text-indigo-600" />
@@ -357,8 +642,7 @@ export default function EnhancedBarcodeToolkit() {
                                             ) : barcodeSvgString ? (
                                                 <div className="w-full h-full flex items-center justify-center overflow-hidden">
                                                     <div
-                                                        className="barcode-container mx-auto max-w-[90vw]"
-                                                        style={{ transform: 'scale(0.9)' }}
+                                                        className="barcode-container mx-auto max-w-full [&>svg]:max-w-full [&>svg]:h-auto"
                                                         dangerouslySetInnerHTML={{ __html: barcodeSvgString }}
                                                     />
                                                 </div>
@@ -382,6 +666,13 @@ export default function EnhancedBarcodeToolkit() {
                                                 <Download className="w-5 h-5" />
                                                 Download SVG
                                             </button>
+                                            <button
+                                                onClick={() => setShowExportDialog(true)}
+                                                className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-4 px-6 rounded-xl transition-all duration-200 flex items-center justify-center gap-3 font-medium border border-gray-200"
+                                            >
+                                                <FileImage className="w-5 h-5" />
+                                                PNG / JPEG / PDF
+                                            </button>
                                             <button
                                                 onClick={() => copyToClipboard(barcodeData)}
                                                 className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-4 px-6 rounded-xl transition-all duration-200 flex items-center justify-center gap-3 font-medium border border-gray-200"
@@ -400,12 +691,94 @@ export default function EnhancedBarcodeToolkit() {
                                             </button>
                                         </div>
                                     )}
+
+                                    {/* Share Links */}
+                                    {barcodeSvgString && !generationError && (
+                                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                                            <span className="text-gray-500">Share:</span>
+                                            {[
+                                                { label: 'Page link', url: getGeneratorUrl(barcodeFormat, barcodeData, renderOptions), icon: Link2 },
+                                                // An HTML page showing only the barcode, for iframes; there is no image URL for <img>
+                                                { label: 'Barcode-only page', url: getRenderUrl(barcodeFormat, barcodeData, renderOptions), icon: Image },
+                                            ].map(({ label, url, icon: Icon }) => (
+                                                <button
+                                                    key={label}
+                                                    onClick={() => copyToClipboard(url)}
+                                                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-1.5 px-3 rounded-lg transition-colors flex items-center gap-2 font-medium border border-gray-200"
+                                                    title={url}
+                                                >
+                                                    {copiedText === url ? <CheckCircle className="w-4 h-4 text-green-600" /> : <Icon className="w-4 h-4" />}
+                                                    {copiedText === url ? 'Copied!' : label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {barcodeSvgString && !generationError && (
+                                        <VerificationPanel
+                                            report={verification.report}
+                                            isVerifying={verification.isVerifying}
+                                            error={verification.error}
+                                            dpi={verificationDpi}
+                                            onDpiChange={setVerificationDpi}
+                                        />
+                                    )}
                                 </div>
                             </div>
+
+                            <FavoritesPanel
+                                format={barcodeFormat}
+                                data={barcodeData}
+                                options={renderOptions}
+                                canSave={Boolean(barcodeSvgString) && !generationError}
+                                onOpen={openFavorite}
+                            />
                         </div>
                     </div>
                 )}
 
+                {showExportDialog && barcodeSvgString && (
+                    <Suspense fallback={null}>
+                        <ExportDialog
+                            svgString={barcodeSvgString}
+                            barcodeData={barcodeData.trim()}
+                            barcodeFormat={barcodeFormat}
+                            renderOptions={renderOptions}
+                            onBeforeExport={confirmDownload}
+                            onClose={() => setShowExportDialog(false)}
+                        />
+                    </Suspense>
+                )}
+
+                {/* Label Sheet Section */}
+                {activeTab === 'labels' && (
+                    <Suspense fallback={<TabFallback />}>
+                        <LabelSheetDesigner barcodeData={barcodeData} barcodeFormat={barcodeFormat} renderOptions={renderOptions} />
+                    </Suspense>
+                )}
+
+                {/* Batch Section */}
+                {activeTab === 'batch' && (
+                    <Suspense fallback={<TabFallback />}>
+                        <BatchGenerator defaultFormat={barcodeFormat} renderOptions={renderOptions} />
+                    </Suspense>
+                )}
+
+                {/* Cycle Count Section */}
+                {activeTab === 'count' && (
+                    <Suspense fallback={<TabFallback />}>
+                        <CycleCount
+                            formats={scanFormats}
+                            scanSettings={scanSettings}
+                            cameraSettings={cameraSettings}
+                            onCameraSettingsChange={setCameraSettings}
+                            syncJob={countSyncJob}
+                            isOnline={syncQueue.isOnline}
+                            onSave={(session) => syncQueue.enqueue('count', session.id, session)}
+                        />
+                    </Suspense>
+                )}
+
                 {/* Scanner Section */}
                 {activeTab === 'scan' && (
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -417,6 +790,14 @@ export default function EnhancedBarcodeToolkit() {
                                     Barcode Scanner
                                 </h2>
 
+                                <div className="mb-6 space-y-3">
+                                    <ScanSettingsPanel settings={scanSettings} onChange={setScanSettings} />
+                                    <ScanFormatsPanel
+                                        formats={scanFormats}
+                                        onChange={(formats) => setScanSettings({ ...scanSettings, formats })}
+                                    />
+                                </div>
+
                                 {!showScanner ? (
                                     <div className="text-center">
                                         <div className="bg-gradient-to-br from-indigo-50 to-purple-50 border-2 border-dashed border-indigo-200 rounded-xl h-64 flex flex-col items-center justify-center mb-6">
@@ -460,6 +841,9 @@ export default function EnhancedBarcodeToolkit() {
                                         </div>
                                     }>
                                         <BarScanner
+                                            formats={scanFormats}
+                                            settings={cameraSettings}
+                                            onSettingsChange={setCameraSettings}
                                             onScan={handleScan}
                                             onError={handleScanError}
                                             onStop={stopScanner}
@@ -467,6 +851,19 @@ export default function EnhancedBarcodeToolkit() {
                                     </Suspense>
                                 )}
 
+                                {/* Keep the latest read visible on small screens where the history is below */}
+                                {showScanner && scanSettings.continuous && scannedResults.length > 0 && (
+                                    <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-xl flex items-center justify-between gap-3 text-sm">
+                                        <span className="font-mono text-gray-700 truncate">
+                                            {scannedResults[0].text}
+                                            {scannedResults[0].count > 1 && ` ×${scannedResults[0].count}`}
+                                        </span>
+                                        <span className="text-green-700 flex-shrink-0">
+                                            {scanTotals.distinct} codes · {scanTotals.reads} reads
+                                        </span>
+                                    </div>
+                                )}
+
                                 {cameraError && (
                                     <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl">
                                         <div className="flex items-center gap-3">
@@ -490,70 +887,69 @@ export default function EnhancedBarcodeToolkit() {
                                     </div>
                                 )}
 
+                                {/* Hardware Scanner */}
+                                <div className="mt-8 pt-6 border-t border-gray-200">
+                                    <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                                        <Keyboard className="w-5 h-5 text-indigo-600" />
+                                        Hardware Scanner
+                                    </h3>
+                                    <HardwareScannerPanel settings={wedgeSettings} onChange={setWedgeSettings} />
+                                </div>
+
+                                {/* File Scanning */}
+                                <div className="mt-8 pt-6 border-t border-gray-200">
+                                    <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                                        <FileSearch className="w-5 h-5 text-indigo-600" />
+                                        Scan from File
+                                    </h3>
+                                    <Suspense fallback={<TabFallback />}>
+                                        <FileScanner onResults={handleFileResults} />
+                                    </Suspense>
+                                </div>
+
+                                {/* Product Lookup */}
+                                <div className="mt-8 pt-6 border-t border-gray-200">
+                                    <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                                        <PackageSearch className="w-5 h-5 text-indigo-600" />
+                                        Product Lookup
+                                    </h3>
+                                    <CatalogSettingsPanel settings={catalogSettings} onChange={setCatalogSettings} />
+                                </div>
+
+                                {/* Webhook Forwarding */}
+                                <div className="mt-8 pt-6 border-t border-gray-200">
+                                    <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center gap-2">
+                                        <Webhook className="w-5 h-5 text-indigo-600" />
+                                        Forward Scans
+                                    </h3>
+                                    <WebhookPanel
+                                        settings={webhookSettings}
+                                        onChange={setWebhookSettings}
+                                        deliveries={webhook.deliveries}
+                                        onTest={webhook.sendTest}
+                                        onRetry={webhook.retry}
+                                        onDiscard={webhook.discard}
+                                        onClearLog={webhook.clearLog}
+                                    />
+                                </div>
+
                             </div>
                         </div>
 
                         {/* Scan Results */}
                         <div className="lg:col-span-1">
-                            <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-6 sticky top-8">
-                                <div className="flex items-center justify-between mb-6">
-                                    <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
-                                        <CheckCircle className="w-6 h-6 text-green-600" />
-                                        Scan History
-                                    </h2>
-                                    {scannedResults.length > 0 && (
-                                        <button
-                                            onClick={clearScanHistory}
-                                            className="text-sm text-gray-500 hover:text-red-500 transition-colors"
-                                        >
-                                            Clear
-                                        </button>
-                                    )}
-                                </div>
-
-                                {scannedResults.length === 0 ? (
-                                    <div className="text-center py-8">
-                                        <ScanLine className="w-12 h-12 text-gray-300 mx-auto mb-3" />
-                                        <p className="text-gray-500">No scans yet</p>
-                                        <p className="text-sm text-gray-400 mt-1">Scanned results will appear here</p>
-                                    </div>
-                                ) : (
-                                    <div className="space-y-3 max-h-96 overflow-y-auto">
-                                        {scannedResults.map((result, index) => (
-                                            <div key={result.timestamp} className="p-4 bg-green-50 border border-green-200 rounded-xl">
-                                                <div className="flex items-start justify-between gap-2 mb-2">
-                                                    <p className="text-sm font-mono text-gray-700 break-all leading-relaxed">
-                                                        {result.text}
-                                                    </p>
-                                                    <button
-                                                        onClick={() => copyToClipboard(result.text)}
-                                                        className="text-green-600 hover:text-green-800 transition-colors flex-shrink-0"
-                                                        title="Copy to clipboard"
-                                                    >
-                                                        {copiedText === result.text ? (
-                                                            <CheckCircle className="w-4 h-4" />
-                                                        ) : (
-                                                            <Copy className="w-4 h-4" />
-                                                        )}
-                                                    </button>
-                                                </div>
-                                                <div className="flex items-center justify-between">
-                                                    <span className="text-xs text-gray-500">
-                                                        {new Date(result.timestamp).toLocaleTimeString()}
-                                                    </span>
-                                                    <button
-                                                        onClick={() => useScannedResult(result.text)}
-                                                        className="text-xs text-indigo-600 hover:text-indigo-800 transition-colors flex items-center gap-1 font-medium"
-                                                    >
-                                                        Use in generator
-                                                        <ArrowRight className="w-3 h-3" />
-                                                    </button>
-                                                </div>
-                                            </div>
-                                        ))}
-                                    </div>
-                                )}
-                            </div>
+                            <ScanHistoryPanel
+                                results={scannedResults}
+                                isLoading={isHistoryLoading}
+                                catalog={catalogSettings}
+                                copiedText={copiedText}
+                                onCopy={copyToClipboard}
+                                onUse={applyScannedResult}
+                                onUpdate={updateScanResult}
+                                onDelete={removeResults}
+                                onClear={clearScanHistory}
+                                onImport={importResults}
+                            />
                         </div>
                     </div>
                 )}
@@ -0,0 +1,214 @@
+// src/widgets/BarcodeScanner/BatchGenerator.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, FileUp, Layers } from 'lucide-react';
+import { BARCODE_FORMATS, getFormatLabel } from '@/lib/barcode/formats';
+import { parseBatchInput, renderBatchRows, createBatchZip, BatchRow, BatchExportType } from '@/lib/barcode/batch';
+import { downloadBlob } from '@/lib/barcode/download';
+import { RenderOptions } from '@/lib/barcode/render';
+
+const SAMPLE_INPUT = `value,format,filename
+SKU-10001,CODE128,shelf_a1
+5901234123457,EAN13,
+036000291452,UPC,cola_can`;
+
+const BatchGenerator = ({ defaultFormat, renderOptions }: { defaultFormat: string, renderOptions: RenderOptions }) => {
+    const [batchInput, setBatchInput] = useState('');
+    const [batchFormat, setBatchFormat] = useState(defaultFormat);
+    const [rows, setRows] = useState<BatchRow[]>([]);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const validCount = useMemo(() => rows.filter(row => row.svg).length, [rows]);
+    const invalidCount = rows.length - validCount;
+
+    const generateBatch = (input = batchInput) => {
+        setExportError(null);
+        setRows(renderBatchRows(parseBatchInput(input, batchFormat), renderOptions));
+    };
+
+    const importCsv = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        const text = await file.text();
+        setBatchInput(text);
+        generateBatch(text);
+
+        // Allow re-importing the same file after edits
+        event.target.value = '';
+    };
+
+    const downloadZip = async (type: BatchExportType) => {
+        if (validCount === 0) return;
+
+        setIsExporting(true);
+        setExportError(null);
+
+        try {
+            const blob = await createBatchZip(rows, type);
+            downloadBlob(blob, `barcodes_${type}_${Date.now()}.zip`);
+        } catch (err: any) {
+            console.error('Batch export error:', err);
+            setExportError(err.message || 'Failed to create ZIP archive.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Batch Input */}
+            <div className="lg:col-span-1">
+                <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-6 sticky top-8">
+                    <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center gap-2">
+                        <Layers className="w-6 h-6 text-indigo-600" />
+                        Batch Input
+                    </h2>
+
+                    <div className="space-y-6">
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-3">
+                                Values or CSV
+                            </label>
+                            <textarea
+                                value={batchInput}
+                                onChange={(e) => setBatchInput(e.target.value)}
+                                className="w-full p-4 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 resize-none bg-gray-50/50 font-mono text-sm"
+                                rows={10}
+                                placeholder={SAMPLE_INPUT}
+                            />
+                            <p className="text-xs text-gray-500 mt-2">
+                                One value per line, or CSV with optional format and filename columns.
+                            </p>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-3">
+                                Default Format
+                            </label>
+                            <select
+                                value={batchFormat}
+                                onChange={(e) => setBatchFormat(e.target.value)}
+                                className="w-full p-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50"
+                            >
+                                {BARCODE_FORMATS.map((format) => (
+                                    <option key={format.value} value={format.value}>{format.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => generateBatch()}
+                                disabled={!batchInput.trim()}
+                                className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 px-4 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 flex items-center justify-center gap-2 font-medium shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Layers className="w-5 h-5" />
+                                Generate
+                            </button>
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-3 px-4 rounded-xl transition-all duration-200 flex items-center justify-center gap-2 font-medium border border-gray-200"
+                            >
+                                <FileUp className="w-5 h-5" />
+                                Import CSV
+                            </button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".csv,.txt,text/csv,text/plain"
+                                onChange={importCsv}
+                                className="hidden"
+                            />
+                        </div>
+                    </div>
+                </div>
+            </div>
+
+            {/* Batch Results */}
+            <div className="lg:col-span-2">
+                <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-8">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+                            <CheckCircle className="w-6 h-6 text-indigo-600" />
+                            Results
+                            {rows.length > 0 && (
+                                <span className="text-sm font-normal text-gray-500">
+                                    {validCount} valid{invalidCount > 0 && `, ${invalidCount} with errors`}
+                                </span>
+                            )}
+                        </h2>
+
+                        {validCount > 0 && (
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={() => downloadZip('svg')}
+                                    disabled={isExporting}
+                                    className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-2 px-4 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 flex items-center gap-2 font-medium shadow-lg disabled:opacity-50"
+                                >
+                                    <Download className="w-4 h-4" />
+                                    SVG ZIP
+                                </button>
+                                <button
+                                    onClick={() => downloadZip('png')}
+                                    disabled={isExporting}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-4 rounded-xl transition-all duration-200 flex items-center gap-2 font-medium border border-gray-200 disabled:opacity-50"
+                                >
+                                    <Download className="w-4 h-4" />
+                                    PNG ZIP
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {exportError && (
+                        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+                            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                            <p className="text-red-700">{exportError}</p>
+                        </div>
+                    )}
+
+                    {rows.length === 0 ? (
+                        <div className="text-center py-16 text-gray-400">
+                            <Layers className="w-16 h-16 mx-auto mb-4 opacity-30" />
+                            <p className="text-lg">Your batch will appear here</p>
+                            <p className="text-sm mt-2">Paste values or import a CSV to generate</p>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4 max-h-[640px] overflow-y-auto">
+                            {rows.map((row) => (
+                                <div
+                                    key={row.line}
+                                    className={`p-4 rounded-xl border ${row.error ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'}`}
+                                >
+                                    <div className="flex items-center justify-between gap-2 mb-2 text-xs text-gray-500">
+                                        <span>Line {row.line}</span>
+                                        <span className="font-medium">{getFormatLabel(row.format)}</span>
+                                    </div>
+                                    {row.svg ? (
+                                        <div
+                                            className="barcode-container flex justify-center overflow-hidden [&>svg]:max-w-full [&>svg]:h-auto"
+                                            dangerouslySetInnerHTML={{ __html: row.svg }}
+                                        />
+                                    ) : (
+                                        <div className="flex items-start gap-2 text-red-600">
+                                            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                            <div className="min-w-0">
+                                                <p className="text-sm font-mono break-all">{row.value || '(empty)'}</p>
+                                                <p className="text-xs mt-1">{row.error}</p>
+                                            </div>
+                                        </div>
+                                    )}
+                                    <p className="text-xs text-gray-400 mt-2 truncate">{row.filename}</p>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BatchGenerator;
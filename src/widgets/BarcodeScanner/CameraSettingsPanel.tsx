@@ -0,0 +1,149 @@
+// src/widgets/BarcodeScanner/CameraSettingsPanel.tsx
+import React from 'react';
+import { Crop, Flashlight, FlashlightOff } from 'lucide-react';
+import {
+    CameraFeatures,
+    CameraSettings,
+    MAX_SCAN_INTERVAL,
+    MIN_SCAN_INTERVAL
+} from '@/lib/barcode/camera';
+
+const inputClassName = 'w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const toggleClassName = (active: boolean) => `flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors border ${active
+    ? 'bg-indigo-600 text-white border-indigo-600'
+    : 'bg-gray-100 text-gray-600 border-gray-200 hover:bg-indigo-50'
+    }`;
+
+const FOCUS_MODE_LABELS: Record<string, string> = {
+    'continuous': 'Auto (continuous)',
+    'single-shot': 'Auto (once)',
+    'manual': 'Manual',
+};
+
+const CameraSettingsPanel = ({
+    settings,
+    features,
+    cameras,
+    activeDeviceId,
+    onChange
+}: {
+    settings: CameraSettings,
+    features: CameraFeatures,
+    cameras: MediaDeviceInfo[],
+    activeDeviceId: string,
+    onChange: (settings: CameraSettings) => void
+}) => {
+    const update = <K extends keyof CameraSettings>(key: K, value: CameraSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    return (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">Camera</label>
+                    <select
+                        value={activeDeviceId}
+                        onChange={(e) => onChange({ ...settings, deviceId: e.target.value, zoom: null, focusDistance: null })}
+                        className={inputClassName}
+                        disabled={cameras.length < 2}
+                    >
+                        {cameras.length === 0 && <option value="">Default camera</option>}
+                        {cameras.map((camera, index) => (
+                            <option key={camera.deviceId} value={camera.deviceId}>
+                                {camera.label || `Camera ${index + 1}`}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">
+                        Scan interval: {settings.interval} ms
+                    </label>
+                    <input
+                        type="range"
+                        min={MIN_SCAN_INTERVAL}
+                        max={MAX_SCAN_INTERVAL}
+                        step={50}
+                        value={settings.interval}
+                        onChange={(e) => update('interval', Number(e.target.value))}
+                        className="w-full accent-indigo-600"
+                    />
+                </div>
+
+                {features.zoom && (
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">
+                            Zoom: {(settings.zoom ?? features.zoom.min).toFixed(1)}×
+                        </label>
+                        <input
+                            type="range"
+                            min={features.zoom.min}
+                            max={features.zoom.max}
+                            step={features.zoom.step}
+                            value={settings.zoom ?? features.zoom.min}
+                            onChange={(e) => update('zoom', Number(e.target.value))}
+                            className="w-full accent-indigo-600"
+                        />
+                    </div>
+                )}
+
+                {features.focusModes.length > 0 && (
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Focus</label>
+                        <select
+                            value={features.focusModes.includes(settings.focusMode) ? settings.focusMode : ''}
+                            onChange={(e) => update('focusMode', e.target.value)}
+                            className={inputClassName}
+                        >
+                            <option value="">Camera default</option>
+                            {features.focusModes.map((mode) => (
+                                <option key={mode} value={mode}>{FOCUS_MODE_LABELS[mode] ?? mode}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                {settings.focusMode === 'manual' && features.focusDistance && (
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Focus distance</label>
+                        <input
+                            type="range"
+                            min={features.focusDistance.min}
+                            max={features.focusDistance.max}
+                            step={features.focusDistance.step}
+                            value={settings.focusDistance ?? features.focusDistance.min}
+                            onChange={(e) => update('focusDistance', Number(e.target.value))}
+                            className="w-full accent-indigo-600"
+                        />
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                {features.torch && (
+                    <button
+                        onClick={() => update('torch', !settings.torch)}
+                        className={toggleClassName(settings.torch)}
+                        title={settings.torch ? 'Turn the flashlight off' : 'Turn the flashlight on'}
+                    >
+                        {settings.torch ? <Flashlight className="w-4 h-4" /> : <FlashlightOff className="w-4 h-4" />}
+                        Torch
+                    </button>
+                )}
+                <button
+                    onClick={() => update('region', settings.region === 'guide' ? 'full' : 'guide')}
+                    className={toggleClassName(settings.region === 'guide')}
+                    title={settings.region === 'guide' ? 'Look for codes in the whole frame' : 'Only look for codes inside the guide'}
+                >
+                    <Crop className="w-4 h-4" />
+                    Guide area only
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default CameraSettingsPanel;
@@ -0,0 +1,185 @@
+// src/widgets/BarcodeScanner/CatalogSettingsPanel.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { AlertCircle, FileUp, RotateCcw } from 'lucide-react';
+import {
+    CatalogSettings,
+    CatalogSource,
+    clearLookupCache,
+    countCatalogProducts,
+    parseCatalogFile,
+    replaceCatalog
+} from '@/lib/barcode/catalog';
+
+const inputClassName = 'w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const SOURCES: { value: CatalogSource, label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'api', label: 'Catalog API' },
+    { value: 'local', label: 'Local file' },
+];
+
+const CatalogSettingsPanel = ({
+    settings,
+    onChange
+}: {
+    settings: CatalogSettings,
+    onChange: (settings: CatalogSettings) => void
+}) => {
+    const [productCount, setProductCount] = useState<number | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        countCatalogProducts()
+            .then(setProductCount)
+            .catch(err => console.error('Catalog error:', err));
+    }, []);
+
+    const update = <K extends keyof CatalogSettings>(key: K, value: CatalogSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setImportError(null);
+        setIsImporting(true);
+        try {
+            const products = parseCatalogFile(await file.text());
+            await replaceCatalog(products);
+            setProductCount(products.length);
+            // Lookups restart so earlier "unknown" answers are asked again
+            onChange({ ...settings, source: 'local', revision: settings.revision + 1 });
+            toast.success(`Loaded ${products.length} product${products.length === 1 ? '' : 's'}`);
+        } catch (err: any) {
+            console.error('Catalog import error:', err);
+            setImportError(err.message || `Could not read ${file.name}.`);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleClearCache = async () => {
+        try {
+            await clearLookupCache();
+            update('revision', settings.revision + 1);
+            toast.success('Product lookups will be fetched again');
+        } catch (err: any) {
+            console.error('Catalog error:', err);
+            toast.error(err.message || 'Could not clear cached lookups.');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                {SOURCES.map((option) => (
+                    <button
+                        key={option.value}
+                        onClick={() => update('source', option.value)}
+                        className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-colors border ${settings.source === option.value
+                            ? 'bg-indigo-600 text-white border-indigo-600'
+                            : 'bg-gray-100 text-gray-600 border-gray-200 hover:bg-indigo-50'
+                            }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {settings.source === 'api' && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Endpoint</label>
+                        <input
+                            value={settings.endpoint}
+                            onChange={(e) => update('endpoint', e.target.value)}
+                            placeholder="/products"
+                            className={`${inputClassName} font-mono`}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">GTIN column</label>
+                        <input
+                            value={settings.field}
+                            onChange={(e) => update('field', e.target.value)}
+                            placeholder="gtin"
+                            className={`${inputClassName} font-mono`}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {settings.source === 'local' && (
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                        {productCount === null
+                            ? 'Loading catalog...'
+                            : productCount === 0
+                                ? 'No catalog loaded yet.'
+                                : `${productCount} product${productCount === 1 ? '' : 's'} in the local catalog.`}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                        JSON list or CSV with columns such as gtin/ean/upc, name, image, price, currency and stock.
+                    </p>
+                </div>
+            )}
+
+            {settings.source !== 'off' && (
+                <div className="flex flex-wrap items-center gap-2">
+                    {settings.source === 'local' && (
+                        <button
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={isImporting}
+                            className="text-sm px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors flex items-center gap-2 font-medium border border-gray-200 disabled:opacity-50"
+                        >
+                            <FileUp className="w-4 h-4" />
+                            {isImporting ? 'Loading...' : 'Load catalog'}
+                        </button>
+                    )}
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                        Cache for
+                        <input
+                            type="number"
+                            min={0}
+                            max={720}
+                            value={settings.cacheHours}
+                            onChange={(e) => update('cacheHours', Math.min(Math.max(Number(e.target.value), 0), 720))}
+                            className="w-20 p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50"
+                        />
+                        h
+                    </label>
+                    <button
+                        onClick={handleClearCache}
+                        className="text-sm px-3 py-2 text-gray-600 hover:text-indigo-600 transition-colors flex items-center gap-1 ml-auto"
+                        title="Forget cached answers and ask the catalog again"
+                    >
+                        <RotateCcw className="w-4 h-4" />
+                        Clear cache
+                    </button>
+                </div>
+            )}
+
+            <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                onChange={handleImport}
+                className="hidden"
+            />
+
+            {importError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-xl flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-red-700">{importError}</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CatalogSettingsPanel;
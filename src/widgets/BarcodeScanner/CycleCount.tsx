@@ -0,0 +1,467 @@
+// src/widgets/BarcodeScanner/CycleCount.tsx
+import React, { Suspense, lazy, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+    AlertCircle,
+    Camera,
+    ClipboardList,
+    CloudDownload,
+    CloudUpload,
+    FileUp,
+    Flag,
+    Minus,
+    Plus,
+    Trash2,
+    X
+} from 'lucide-react';
+import {
+    CountSession,
+    ExpectedItem,
+    addCount,
+    createCountSession,
+    getCountTotals,
+    hasUnsavedCounts,
+    loadCountSessionsRemote,
+    parseExpectedStock,
+    removeCountLine,
+    setCountQuantity
+} from '@/lib/barcode/inventory';
+import { getScanGtin } from '@/lib/barcode/catalog';
+import { CameraSettings } from '@/lib/barcode/camera';
+import { DecodedBarcode } from '@/lib/barcode/decode';
+import { ScanSettings, acceptScan, playScanFeedback, prepareScanFeedback } from '@/lib/barcode/scanSession';
+import { SyncJob } from '@/lib/barcode/syncQueue';
+import useStore from '@/lib/hooks/useStore';
+import DiscrepancyReport from './DiscrepancyReport';
+
+const BarScanner = lazy(() => import('./BarcodeScanner'));
+
+const inputClassName = 'w-full p-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200 bg-gray-50/50';
+
+const cardClassName = 'bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-6';
+
+const formatDateTime = (time: number) => new Date(time).toLocaleString();
+
+const CycleCount = ({
+    formats,
+    scanSettings,
+    cameraSettings,
+    onCameraSettingsChange,
+    syncJob,
+    isOnline,
+    onSave
+}: {
+    formats: string[],
+    scanSettings: ScanSettings,
+    cameraSettings: CameraSettings,
+    onCameraSettingsChange: (settings: CameraSettings) => void,
+    // Queued upload of the open session, if any
+    syncJob?: SyncJob,
+    isOnline: boolean,
+    onSave: (session: CountSession) => void
+}) => {
+    const [session, setSession] = useStore<CountSession | null>('countSession', null);
+    const [expected, setExpected] = useStore<ExpectedItem[]>('expectedStock', []);
+    const [operator, setOperator] = useStore<string>('countOperator', '');
+    const [location, setLocation] = useState('');
+    const [manualCode, setManualCode] = useState('');
+    const [showCamera, setShowCamera] = useState(false);
+    const [cameraError, setCameraError] = useState<string | null>(null);
+    const [savedSessions, setSavedSessions] = useState<CountSession[] | null>(null);
+    const [isLoadingSessions, setIsLoadingSessions] = useState(false);
+    const [serverError, setServerError] = useState<string | null>(null);
+    const [stockError, setStockError] = useState<string | null>(null);
+    const stockInputRef = useRef<HTMLInputElement>(null);
+    const lastAcceptedRef = useRef(new Map<string, number>());
+    // Several scans can arrive before React re-renders with the updated session
+    const sessionRef = useRef(session);
+    sessionRef.current = session;
+
+    const updateSession = (next: CountSession | null) => {
+        sessionRef.current = next;
+        setSession(next);
+    };
+
+    const names = new Map(expected.map(item => [item.code, item.name]));
+
+    const startSession = () => {
+        if (!location.trim()) return;
+        lastAcceptedRef.current.clear();
+        updateSession(createCountSession(location, operator));
+        setLocation('');
+    };
+
+    const confirmDiscard = () =>
+        !session || session.lines.length === 0 || !hasUnsavedCounts(session) ||
+        window.confirm('This count has changes that are not saved to the server. Discard them?');
+
+    const finishSession = () => {
+        if (!confirmDiscard()) return;
+        setShowCamera(false);
+        updateSession(null);
+    };
+
+    const handleScan = (scan: DecodedBarcode) => {
+        const current = sessionRef.current;
+        const code = getScanGtin(scan) ?? scan.text.trim();
+        if (!current || !code) return;
+        // The camera keeps reporting an item while it stays in view
+        if (!acceptScan(lastAcceptedRef.current, code, Date.now(), scanSettings.cooldown * 1000)) return;
+
+        updateSession(addCount(current, code));
+        playScanFeedback(scanSettings);
+    };
+
+    const handleCameraError = (err: any) => {
+        setCameraError(err.message || 'Unable to access camera. Please check permissions and try again.');
+        setShowCamera(false);
+    };
+
+    const startCamera = () => {
+        setCameraError(null);
+        prepareScanFeedback();
+        setShowCamera(true);
+    };
+
+    const addManualCode = () => {
+        if (!session || !manualCode.trim()) return;
+        updateSession(addCount(session, manualCode));
+        setManualCode('');
+    };
+
+    const saveSession = () => {
+        if (!session) return;
+        onSave(session);
+        if (!isOnline) toast('Offline: the count will upload when you are back online');
+    };
+
+    const loadSessions = async () => {
+        setIsLoadingSessions(true);
+        setServerError(null);
+        try {
+            setSavedSessions(await loadCountSessionsRemote());
+        } catch (err: any) {
+            console.error('Count session load error:', err);
+            setServerError(err.message || 'Could not load saved counts.');
+        } finally {
+            setIsLoadingSessions(false);
+        }
+    };
+
+    const openSession = (saved: CountSession) => {
+        if (session?.id !== saved.id && !confirmDiscard()) return;
+        lastAcceptedRef.current.clear();
+        updateSession(saved);
+        setSavedSessions(null);
+    };
+
+    const importExpectedStock = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setStockError(null);
+        try {
+            const items = parseExpectedStock(await file.text());
+            if (items.length === 0) {
+                setStockError(`No items found in ${file.name}.`);
+                return;
+            }
+            setExpected(items);
+            toast.success(`Loaded ${items.length} expected item${items.length === 1 ? '' : 's'}`);
+        } catch (err: any) {
+            console.error('Expected stock import error:', err);
+            setStockError(err.message || `Could not read ${file.name}.`);
+        }
+    };
+
+    const totals = session ? getCountTotals(session) : null;
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Session */}
+            <div className="lg:col-span-1 space-y-6">
+                <div className={cardClassName}>
+                    <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center gap-2">
+                        <ClipboardList className="w-6 h-6 text-indigo-600" />
+                        Counting Session
+                    </h2>
+
+                    {session ? (
+                        <div className="space-y-4">
+                            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                                <dt className="font-semibold text-gray-500">Location</dt>
+                                <dd className="text-gray-800 break-words">{session.location}</dd>
+                                <dt className="font-semibold text-gray-500">Operator</dt>
+                                <dd className="text-gray-800">{session.operator || '—'}</dd>
+                                <dt className="font-semibold text-gray-500">Started</dt>
+                                <dd className="text-gray-800">{formatDateTime(session.startedAt)}</dd>
+                                <dt className="font-semibold text-gray-500">Counted</dt>
+                                <dd className="text-gray-800">{totals.codes} codes · {totals.units} units</dd>
+                            </dl>
+
+                            {syncJob?.status === 'conflict' ? (
+                                <p className="text-xs text-red-600">The server copy changed since your last save. Resolve it from the sync menu.</p>
+                            ) : syncJob?.status === 'failed' ? (
+                                <p className="text-xs text-red-600">Upload failed: {syncJob.error}</p>
+                            ) : syncJob ? (
+                                <p className="text-xs text-amber-600">{isOnline ? 'Uploading...' : 'Queued, uploads when back online'}</p>
+                            ) : (
+                                <p className={`text-xs ${hasUnsavedCounts(session) ? 'text-amber-600' : 'text-green-600'}`}>
+                                    {hasUnsavedCounts(session)
+                                        ? session.remoteId ? 'Changes since the last save' : 'Not saved to the server yet'
+                                        : 'All counts saved'}
+                                </p>
+                            )}
+
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={saveSession}
+                                    disabled={syncJob?.status === 'conflict'}
+                                    className="flex-1 bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 flex items-center justify-center gap-2 font-medium shadow-lg disabled:opacity-50"
+                                >
+                                    <CloudUpload className="w-5 h-5" />
+                                    Save
+                                </button>
+                                <button
+                                    onClick={finishSession}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-3 px-4 rounded-xl transition-colors flex items-center justify-center gap-2 font-medium border border-gray-200"
+                                    title="Close this count"
+                                >
+                                    <Flag className="w-5 h-5" />
+                                    Finish
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-700 mb-2">Location</label>
+                                <input
+                                    value={location}
+                                    onChange={(e) => setLocation(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && startSession()}
+                                    placeholder="e.g. Aisle 4, Bay 2"
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-700 mb-2">Operator</label>
+                                <input
+                                    value={operator}
+                                    onChange={(e) => setOperator(e.target.value)}
+                                    placeholder="Your name"
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <button
+                                onClick={startSession}
+                                disabled={!location.trim()}
+                                className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 flex items-center justify-center gap-2 font-medium shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Plus className="w-5 h-5" />
+                                Start counting
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="mt-6 pt-4 border-t border-gray-200 space-y-3">
+                        <button
+                            onClick={loadSessions}
+                            disabled={isLoadingSessions}
+                            className="w-full text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg transition-colors flex items-center justify-center gap-2 font-medium border border-gray-200 disabled:opacity-50"
+                        >
+                            <CloudDownload className="w-4 h-4" />
+                            {isLoadingSessions ? 'Loading...' : 'Open a saved count'}
+                        </button>
+
+                        {savedSessions && (
+                            <div className="space-y-2 max-h-64 overflow-y-auto">
+                                {savedSessions.length === 0 && (
+                                    <p className="text-sm text-gray-500 text-center">No saved counts yet.</p>
+                                )}
+                                {savedSessions.map((saved) => (
+                                    <button
+                                        key={saved.remoteId ?? saved.id}
+                                        onClick={() => openSession(saved)}
+                                        className="w-full text-left p-3 bg-gray-50 hover:bg-indigo-50 border border-gray-200 rounded-lg transition-colors"
+                                    >
+                                        <p className="text-sm font-medium text-gray-800">{saved.location}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {saved.operator && `${saved.operator} · `}
+                                            {formatDateTime(saved.updatedAt)} · {getCountTotals(saved).units} units
+                                        </p>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+
+                        {serverError && (
+                            <div className="p-3 bg-red-50 border border-red-200 rounded-xl flex items-start gap-2">
+                                <AlertCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                                <p className="text-sm text-red-700">{serverError}</p>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                {/* Expected stock */}
+                <div className={cardClassName}>
+                    <h3 className="text-lg font-semibold text-gray-800 mb-2">Expected Stock</h3>
+                    <p className="text-sm text-gray-600 mb-4">
+                        {expected.length > 0
+                            ? `${expected.length} items, ${expected.reduce((total, item) => total + item.quantity, 0)} units expected.`
+                            : 'Load a CSV or JSON list with code and quantity columns to compare counts against.'}
+                    </p>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => stockInputRef.current?.click()}
+                            className="flex-1 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg transition-colors flex items-center justify-center gap-2 font-medium border border-gray-200"
+                        >
+                            <FileUp className="w-4 h-4" />
+                            Load list
+                        </button>
+                        {expected.length > 0 && (
+                            <button
+                                onClick={() => setExpected([])}
+                                className="text-sm px-3 py-2 text-gray-500 hover:text-red-500 transition-colors"
+                                title="Remove the expected stock list"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                    <input
+                        ref={stockInputRef}
+                        type="file"
+                        accept=".json,.csv,application/json,text/csv"
+                        onChange={importExpectedStock}
+                        className="hidden"
+                    />
+                    {stockError && (
+                        <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-xl flex items-start gap-2">
+                            <AlertCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                            <p className="text-sm text-red-700">{stockError}</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Counting */}
+            <div className="lg:col-span-2 space-y-6">
+                {!session ? (
+                    <div className={`${cardClassName} text-center py-16`}>
+                        <ClipboardList className="w-16 h-16 mx-auto mb-4 text-gray-300" />
+                        <p className="text-gray-600 text-lg font-medium">No count in progress</p>
+                        <p className="text-gray-500 text-sm mt-2">Enter a location to start a counting session</p>
+                    </div>
+                ) : (
+                    <>
+                        <div className={cardClassName}>
+                            {showCamera ? (
+                                <Suspense fallback={<div className="h-64 rounded-xl bg-gradient-to-br from-indigo-50 to-purple-50" />}>
+                                    <BarScanner
+                                        formats={formats}
+                                        settings={cameraSettings}
+                                        onSettingsChange={onCameraSettingsChange}
+                                        onScan={handleScan}
+                                        onError={handleCameraError}
+                                        onStop={() => setShowCamera(false)}
+                                    />
+                                </Suspense>
+                            ) : (
+                                <button
+                                    onClick={startCamera}
+                                    className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-4 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 flex items-center justify-center gap-3 font-medium shadow-lg"
+                                >
+                                    <Camera className="w-5 h-5" />
+                                    Scan with camera
+                                </button>
+                            )}
+
+                            {cameraError && (
+                                <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+                                    <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                                    <p className="text-red-700">{cameraError}</p>
+                                </div>
+                            )}
+
+                            <div className="mt-4 flex gap-2">
+                                <input
+                                    value={manualCode}
+                                    onChange={(e) => setManualCode(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && addManualCode()}
+                                    placeholder="Type or paste a code"
+                                    className={`${inputClassName} font-mono`}
+                                />
+                                <button
+                                    onClick={addManualCode}
+                                    disabled={!manualCode.trim()}
+                                    className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 rounded-xl transition-colors flex items-center gap-2 font-medium border border-gray-200 disabled:opacity-50"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    Add
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className={cardClassName}>
+                            <h3 className="text-lg font-semibold text-gray-800 mb-4">Counts</h3>
+                            {session.lines.length === 0 ? (
+                                <p className="text-sm text-gray-500 text-center py-8">Scan or type a code to start counting.</p>
+                            ) : (
+                                <div className="space-y-2 max-h-96 overflow-y-auto">
+                                    {session.lines.map((line) => (
+                                        <div key={line.code} className="flex items-center gap-3 p-3 bg-gray-50 border border-gray-200 rounded-xl">
+                                            <div className="flex-1 min-w-0">
+                                                <p className="font-mono text-sm text-gray-800 break-all">{line.code}</p>
+                                                {names.get(line.code) && <p className="text-xs text-gray-500">{names.get(line.code)}</p>}
+                                            </div>
+                                            <button
+                                                onClick={() => updateSession(setCountQuantity(session, line.code, line.quantity - 1))}
+                                                className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
+                                                title="One less"
+                                            >
+                                                <Minus className="w-4 h-4" />
+                                            </button>
+                                            <input
+                                                type="number"
+                                                min={0}
+                                                value={line.quantity}
+                                                onChange={(e) => updateSession(setCountQuantity(session, line.code, Number(e.target.value)))}
+                                                className="w-20 p-2 border border-gray-200 rounded-lg text-right focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white"
+                                            />
+                                            <button
+                                                onClick={() => updateSession(setCountQuantity(session, line.code, line.quantity + 1))}
+                                                className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
+                                                title="One more"
+                                            >
+                                                <Plus className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => updateSession(removeCountLine(session, line.code))}
+                                                className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                                                title="Remove line"
+                                            >
+                                                <X className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {expected.length > 0 && (
+                            <div className={cardClassName}>
+                                <h3 className="text-lg font-semibold text-gray-800 mb-4">Discrepancies</h3>
+                                <DiscrepancyReport session={session} expected={expected} />
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CycleCount;
@@ -0,0 +1,89 @@
+// src/widgets/BarcodeScanner/DiscrepancyReport.tsx
+import React, { useMemo } from 'react';
+import { FileDown } from 'lucide-react';
+import {
+    CountSession,
+    DiscrepancyStatus,
+    ExpectedItem,
+    diffCounts,
+    discrepancyReportToCsv,
+    getDiscrepancySummary
+} from '@/lib/barcode/inventory';
+import { downloadBlob, sanitizeFilename } from '@/lib/barcode/download';
+
+const STATUS_STYLES: Record<DiscrepancyStatus, { label: string, className: string }> = {
+    missing: { label: 'Missing', className: 'bg-red-100 text-red-700' },
+    short: { label: 'Short', className: 'bg-amber-100 text-amber-700' },
+    over: { label: 'Over', className: 'bg-blue-100 text-blue-700' },
+    unexpected: { label: 'Not expected', className: 'bg-purple-100 text-purple-700' },
+    match: { label: 'Match', className: 'bg-green-100 text-green-700' },
+};
+
+const DiscrepancyReport = ({ session, expected }: { session: CountSession, expected: ExpectedItem[] }) => {
+    const rows = useMemo(() => diffCounts(session.lines, expected), [session.lines, expected]);
+    const summary = getDiscrepancySummary(rows);
+
+    const exportReport = () => {
+        const csv = discrepancyReportToCsv(session, rows);
+        downloadBlob(new Blob([csv], { type: 'text/csv' }), `count_${sanitizeFilename(session.location || 'session', 30)}_${Date.now()}.csv`);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+                {(Object.keys(STATUS_STYLES) as DiscrepancyStatus[]).map((status) => (
+                    <span key={status} className={`text-xs font-medium px-2 py-1 rounded-lg ${STATUS_STYLES[status].className}`}>
+                        {STATUS_STYLES[status].label}: {summary[status]}
+                    </span>
+                ))}
+                <span className="text-xs text-gray-600 ml-auto">
+                    Net difference: <strong>{summary.netDifference > 0 ? '+' : ''}{summary.netDifference}</strong>
+                </span>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-xl">
+                <table className="w-full text-sm">
+                    <thead className="bg-gray-50 text-xs text-gray-500 sticky top-0">
+                        <tr>
+                            <th className="text-left font-semibold p-2">Code</th>
+                            <th className="text-right font-semibold p-2">Expected</th>
+                            <th className="text-right font-semibold p-2">Counted</th>
+                            <th className="text-right font-semibold p-2">Diff</th>
+                            <th className="text-left font-semibold p-2">Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row) => (
+                            <tr key={row.code} className="border-t border-gray-100">
+                                <td className="p-2">
+                                    <span className="font-mono text-gray-800 break-all">{row.code}</span>
+                                    {row.name && <span className="block text-xs text-gray-500">{row.name}</span>}
+                                </td>
+                                <td className="p-2 text-right">{row.expected}</td>
+                                <td className="p-2 text-right">{row.counted}</td>
+                                <td className={`p-2 text-right font-medium ${row.difference < 0 ? 'text-red-600' : row.difference > 0 ? 'text-blue-600' : 'text-gray-400'}`}>
+                                    {row.difference > 0 ? '+' : ''}{row.difference}
+                                </td>
+                                <td className="p-2">
+                                    <span className={`text-xs font-medium px-2 py-0.5 rounded ${STATUS_STYLES[row.status].className}`}>
+                                        {STATUS_STYLES[row.status].label}
+                                    </span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <button
+                onClick={exportReport}
+                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 py-3 rounded-xl transition-colors flex items-center justify-center gap-2 font-medium border border-gray-200"
+            >
+                <FileDown className="w-4 h-4" />
+                Export discrepancy report (CSV)
+            </button>
+        </div>
+    );
+};
+
+export default DiscrepancyReport;
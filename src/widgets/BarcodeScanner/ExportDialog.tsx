@@ -0,0 +1,263 @@
+// src/widgets/BarcodeScanner/ExportDialog.tsx
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Download, Lock, Unlock, X } from 'lucide-react';
+import { getFormat, getFormatLabel } from '@/lib/barcode/formats';
+import { downloadBlob, sanitizeFilename } from '@/lib/barcode/download';
+import { DPI_PRESETS, RenderOptions } from '@/lib/barcode/render';
+import {
+    EXPORT_FILE_TYPES,
+    ExportFileType,
+    exportBarcode,
+    getMagnifiedExport,
+    getMagnifiedXDimension,
+    getScreenSize,
+    mmToPixels,
+} from '@/lib/barcode/export';
+
+type SizeMode = 'magnification' | 'custom';
+
+const inputClassName = 'w-full p-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const ExportDialog = ({
+    svgString,
+    barcodeData,
+    barcodeFormat,
+    renderOptions,
+    onBeforeExport,
+    onClose
+}: {
+    svgString: string,
+    barcodeData: string,
+    barcodeFormat: string,
+    // The options the SVG was rendered with, for its module width and colours
+    renderOptions: RenderOptions,
+    // Returning false cancels the export
+    onBeforeExport?: () => boolean,
+    onClose: () => void
+}) => {
+    const hasNominalSize = Boolean(getFormat(barcodeFormat)?.nominalXDimension);
+    const screenSize = useMemo(() => getScreenSize(svgString), [svgString]);
+
+    const [type, setType] = useState<ExportFileType>('png');
+    const [dpi, setDpi] = useState(300);
+    const [sizeMode, setSizeMode] = useState<SizeMode>(hasNominalSize ? 'magnification' : 'custom');
+    const [magnification, setMagnification] = useState(100);
+    const [customSize, setCustomSize] = useState({ width: round(screenSize.width), height: round(screenSize.height) });
+    const [lockAspect, setLockAspect] = useState(true);
+    const [quality, setQuality] = useState(0.92);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const magnified = useMemo(
+        () => getMagnifiedExport(svgString, barcodeData, barcodeFormat, renderOptions, magnification / 100),
+        [svgString, barcodeData, barcodeFormat, renderOptions, magnification]
+    );
+    // EAN/UPC are exported at GS1 proportions in magnification mode, not as styled on screen
+    const exportSvg = sizeMode === 'magnification' && magnified ? magnified.svg : svgString;
+    const size = sizeMode === 'magnification' && magnified ? magnified : customSize;
+    const aspectRatio = screenSize.height / screenSize.width;
+
+    const updateCustomSize = (key: 'width' | 'height', value: number) => {
+        if (!lockAspect) {
+            setCustomSize(prev => ({ ...prev, [key]: value }));
+        } else if (key === 'width') {
+            setCustomSize({ width: value, height: round(value * aspectRatio) });
+        } else {
+            setCustomSize({ width: round(value / aspectRatio), height: value });
+        }
+    };
+
+    const handleExport = async () => {
+        if (size.width <= 0 || size.height <= 0 || dpi <= 0) {
+            setExportError('Width, height and DPI must be positive.');
+            return;
+        }
+        if (onBeforeExport && !onBeforeExport()) return;
+
+        setIsExporting(true);
+        setExportError(null);
+
+        try {
+            const blob = await exportBarcode(exportSvg, { type, dpi, width: size.width, height: size.height, quality }, barcodeData);
+            const extension = type === 'jpeg' ? 'jpg' : type;
+            const filename = `${getFormatLabel(barcodeFormat)}_${sanitizeFilename(barcodeData)}_${round(size.width)}x${round(size.height)}mm.${extension}`;
+            downloadBlob(blob, filename);
+            onClose();
+        } catch (err: any) {
+            console.error('Export error:', err);
+            setExportError(err.message || 'Failed to export barcode.');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+            <div
+                className="bg-white rounded-2xl shadow-2xl w-full max-w-md p-6 space-y-5 max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+                        <Download className="w-6 h-6 text-indigo-600" />
+                        Export Barcode
+                    </h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">File type</label>
+                    <select value={type} onChange={(e) => setType(e.target.value as ExportFileType)} className={inputClassName}>
+                        {EXPORT_FILE_TYPES.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {type !== 'svg' && (
+                    <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-2">Resolution (DPI)</label>
+                        <div className="flex gap-2">
+                            <select
+                                value={DPI_PRESETS.includes(dpi) ? dpi : ''}
+                                onChange={(e) => e.target.value && setDpi(Number(e.target.value))}
+                                className={inputClassName}
+                            >
+                                {DPI_PRESETS.map((preset) => (
+                                    <option key={preset} value={preset}>{preset} dpi</option>
+                                ))}
+                                <option value="">Custom</option>
+                            </select>
+                            <input
+                                type="number"
+                                min={1}
+                                max={2400}
+                                value={dpi}
+                                onChange={(e) => setDpi(Number(e.target.value))}
+                                className={inputClassName}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                <div>
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">Physical size</label>
+                    {hasNominalSize && (
+                        <div className="flex gap-2 mb-3">
+                            {(['magnification', 'custom'] as SizeMode[]).map((mode) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setSizeMode(mode)}
+                                    className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${sizeMode === mode
+                                        ? 'bg-indigo-600 text-white'
+                                        : 'bg-gray-100 text-gray-600 hover:bg-indigo-50'
+                                        }`}
+                                >
+                                    {mode === 'magnification' ? 'Magnification' : 'Custom size'}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {sizeMode === 'magnification' ? (
+                        <div>
+                            <div className="flex items-center gap-3">
+                                <input
+                                    type="range"
+                                    min={80}
+                                    max={200}
+                                    step={5}
+                                    value={magnification}
+                                    onChange={(e) => setMagnification(Number(e.target.value))}
+                                    className="flex-1"
+                                />
+                                <span className="w-14 text-right text-sm font-mono text-gray-700">{magnification}%</span>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-2">
+                                X-dimension {(getMagnifiedXDimension(barcodeFormat, magnification / 100) ?? 0).toFixed(3)} mm.
+                                GS1 allows 80% to 200% of the nominal {getFormatLabel(barcodeFormat)} size.
+                            </p>
+                        </div>
+                    ) : (
+                        <div className="flex items-end gap-2">
+                            <div className="flex-1">
+                                <label className="block text-xs font-semibold text-gray-600 mb-1">Width (mm)</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    step={0.01}
+                                    value={customSize.width}
+                                    onChange={(e) => updateCustomSize('width', Number(e.target.value))}
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <button
+                                onClick={() => setLockAspect(prev => !prev)}
+                                className="p-3 text-gray-500 hover:text-indigo-600 transition-colors"
+                                title={lockAspect ? 'Unlock aspect ratio' : 'Lock aspect ratio'}
+                            >
+                                {lockAspect ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+                            </button>
+                            <div className="flex-1">
+                                <label className="block text-xs font-semibold text-gray-600 mb-1">Height (mm)</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    step={0.01}
+                                    value={customSize.height}
+                                    onChange={(e) => updateCustomSize('height', Number(e.target.value))}
+                                    className={inputClassName}
+                                />
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                {type === 'jpeg' && (
+                    <div>
+                        <label className="block text-sm font-semibold text-gray-700 mb-2">JPEG quality</label>
+                        <div className="flex items-center gap-3">
+                            <input
+                                type="range"
+                                min={0.5}
+                                max={1}
+                                step={0.01}
+                                value={quality}
+                                onChange={(e) => setQuality(Number(e.target.value))}
+                                className="flex-1"
+                            />
+                            <span className="w-14 text-right text-sm font-mono text-gray-700">{Math.round(quality * 100)}%</span>
+                        </div>
+                    </div>
+                )}
+
+                <div className="p-3 bg-indigo-50 rounded-xl text-sm text-indigo-800">
+                    {round(size.width)} × {round(size.height)} mm
+                    {type !== 'svg' && ` at ${dpi} dpi = ${mmToPixels(size.width, dpi)} × ${mmToPixels(size.height, dpi)} px`}
+                </div>
+
+                {exportError && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+                        <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                        <p className="text-sm text-red-700">{exportError}</p>
+                    </div>
+                )}
+
+                <button
+                    onClick={handleExport}
+                    disabled={isExporting}
+                    className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-3 px-6 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 flex items-center justify-center gap-3 font-medium shadow-lg disabled:opacity-50"
+                >
+                    <Download className="w-5 h-5" />
+                    {isExporting ? 'Exporting...' : `Export ${type.toUpperCase()}`}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ExportDialog;
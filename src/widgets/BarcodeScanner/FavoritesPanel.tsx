@@ -0,0 +1,263 @@
+// src/widgets/BarcodeScanner/FavoritesPanel.tsx
+import React, { memo, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+    AlertCircle,
+    Copy,
+    Download,
+    FileDown,
+    FileUp,
+    Pencil,
+    Star,
+    Trash2,
+    Wand2
+} from 'lucide-react';
+import { getFormatLabel } from '@/lib/barcode/formats';
+import {
+    FavoriteBarcode,
+    GeneratorPreset,
+    createFavorite,
+    duplicateFavorite,
+    libraryToJson,
+    mergeById,
+    parseLibraryFile,
+    suggestFavoriteName
+} from '@/lib/barcode/library';
+import { RenderOptions, renderBarcodeSvg, svgToDataUrl } from '@/lib/barcode/render';
+import { downloadBlob, downloadUrl, sanitizeFilename } from '@/lib/barcode/download';
+import useStore from '@/lib/hooks/useStore';
+
+// Rendered from the saved settings instead of stored, so localStorage only holds the small records
+const Thumbnail = memo(({ favorite }: { favorite: FavoriteBarcode }) => {
+    let src: string | null = null;
+    try {
+        src = svgToDataUrl(renderBarcodeSvg(favorite.data, favorite.format, favorite.options));
+    } catch {
+        // Shown as a placeholder; the generator explains what is wrong when the favorite is opened
+    }
+
+    return (
+        <div className="h-24 bg-white rounded-lg border border-gray-100 flex items-center justify-center p-2 overflow-hidden">
+            {src ? (
+                <img src={src} alt={favorite.name} className="max-h-full max-w-full object-contain" />
+            ) : (
+                <AlertCircle className="w-6 h-6 text-red-300" />
+            )}
+        </div>
+    );
+});
+
+const FavoritesPanel = ({
+    format,
+    data,
+    options,
+    canSave,
+    onOpen
+}: {
+    // The barcode currently in the generator
+    format: string,
+    data: string,
+    options: RenderOptions,
+    canSave: boolean,
+    onOpen: (favorite: FavoriteBarcode) => void
+}) => {
+    const [favorites, setFavorites] = useStore<FavoriteBarcode[]>('favoriteBarcodes', []);
+    const [presets, setPresets] = useStore<GeneratorPreset[]>('generatorPresets', []);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const saveCurrent = () => {
+        const favorite = createFavorite(suggestFavoriteName(data), format, data.trim(), options);
+        setFavorites([favorite, ...favorites]);
+        setRenamingId(favorite.id);
+        setRenameValue(favorite.name);
+        toast.success('Saved to favorites');
+    };
+
+    const startRename = (favorite: FavoriteBarcode) => {
+        setRenamingId(favorite.id);
+        setRenameValue(favorite.name);
+    };
+
+    const finishRename = () => {
+        const name = renameValue.trim();
+        if (name) {
+            setFavorites(favorites.map(f => (f.id === renamingId ? { ...f, name, updatedAt: Date.now() } : f)));
+        }
+        setRenamingId(null);
+    };
+
+    const duplicate = (favorite: FavoriteBarcode) => {
+        const index = favorites.findIndex(f => f.id === favorite.id);
+        const next = [...favorites];
+        next.splice(index + 1, 0, duplicateFavorite(favorite));
+        setFavorites(next);
+    };
+
+    const remove = (favorite: FavoriteBarcode) => {
+        if (!window.confirm(`Delete "${favorite.name}" from favorites?`)) return;
+        setFavorites(favorites.filter(f => f.id !== favorite.id));
+    };
+
+    const download = (favorite: FavoriteBarcode) => {
+        try {
+            const svg = renderBarcodeSvg(favorite.data, favorite.format, favorite.options);
+            downloadUrl(svgToDataUrl(svg), `${getFormatLabel(favorite.format)}_${sanitizeFilename(favorite.name)}_${Date.now()}.svg`);
+        } catch (err: any) {
+            console.error('Favorite download error:', err);
+            toast.error(err.message || 'Could not generate this barcode.');
+        }
+    };
+
+    const exportLibrary = () => {
+        const date = new Date().toISOString().slice(0, 10);
+        downloadBlob(new Blob([libraryToJson({ presets, favorites })], { type: 'application/json' }), `barcode-library_${date}.json`);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setImportError(null);
+        try {
+            const imported = parseLibraryFile(await file.text());
+            if (imported.presets.length === 0 && imported.favorites.length === 0) {
+                setImportError(`No presets or favorites found in ${file.name}.`);
+                return;
+            }
+            setPresets(mergeById(presets, imported.presets));
+            setFavorites(mergeById(favorites, imported.favorites));
+            toast.success(`Imported ${imported.favorites.length} favorite${imported.favorites.length === 1 ? '' : 's'} and ${imported.presets.length} preset${imported.presets.length === 1 ? '' : 's'}`);
+        } catch (err: any) {
+            console.error('Library import error:', err);
+            setImportError(err.message || `Could not read ${file.name}.`);
+        }
+    };
+
+    return (
+        <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+                    <Star className="w-6 h-6 text-amber-500" />
+                    Favorites
+                    {favorites.length > 0 && <span className="text-sm font-normal text-gray-500">({favorites.length})</span>}
+                </h2>
+                <div className="flex gap-2">
+                    <button
+                        onClick={saveCurrent}
+                        disabled={!canSave}
+                        className="text-sm px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors flex items-center gap-1 font-medium disabled:opacity-50"
+                    >
+                        <Star className="w-4 h-4" />
+                        Save current
+                    </button>
+                    <button
+                        onClick={exportLibrary}
+                        disabled={favorites.length === 0 && presets.length === 0}
+                        className="text-sm px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors flex items-center gap-1 font-medium border border-gray-200 disabled:opacity-50"
+                        title="Export favorites and presets as JSON"
+                    >
+                        <FileDown className="w-4 h-4" />
+                        Export
+                    </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="text-sm px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors flex items-center gap-1 font-medium border border-gray-200"
+                        title="Import favorites and presets from JSON"
+                    >
+                        <FileUp className="w-4 h-4" />
+                        Import
+                    </button>
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        onChange={handleImport}
+                        className="hidden"
+                    />
+                </div>
+            </div>
+
+            {importError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+                    <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                    <p className="text-sm text-red-700">{importError}</p>
+                </div>
+            )}
+
+            {favorites.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">
+                    Save barcodes you generate often, such as asset tags or room codes, to reopen or download them in one click.
+                </p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-4">
+                    {favorites.map((favorite) => (
+                        <div key={favorite.id} className="p-3 bg-gray-50 border border-gray-200 rounded-xl space-y-2">
+                            <Thumbnail favorite={favorite} />
+
+                            {renamingId === favorite.id ? (
+                                <input
+                                    autoFocus
+                                    value={renameValue}
+                                    onChange={(e) => setRenameValue(e.target.value)}
+                                    onBlur={finishRename}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') finishRename();
+                                        if (e.key === 'Escape') setRenamingId(null);
+                                    }}
+                                    className="w-full px-2 py-1 text-sm border border-indigo-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                                />
+                            ) : (
+                                <button
+                                    onClick={() => startRename(favorite)}
+                                    className="w-full text-left text-sm font-medium text-gray-800 truncate flex items-center gap-1 group"
+                                    title="Rename"
+                                >
+                                    <span className="truncate">{favorite.name}</span>
+                                    <Pencil className="w-3 h-3 text-gray-400 opacity-0 group-hover:opacity-100 flex-shrink-0" />
+                                </button>
+                            )}
+                            <p className="text-xs text-gray-500">{getFormatLabel(favorite.format)}</p>
+
+                            <div className="flex items-center gap-1">
+                                <button
+                                    onClick={() => onOpen(favorite)}
+                                    className="flex-1 text-xs py-1.5 bg-white hover:bg-indigo-50 text-indigo-700 rounded-lg border border-gray-200 transition-colors flex items-center justify-center gap-1 font-medium"
+                                >
+                                    <Wand2 className="w-3 h-3" />
+                                    Open
+                                </button>
+                                <button
+                                    onClick={() => download(favorite)}
+                                    className="p-1.5 text-gray-400 hover:text-indigo-600 transition-colors"
+                                    title="Download SVG"
+                                >
+                                    <Download className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => duplicate(favorite)}
+                                    className="p-1.5 text-gray-400 hover:text-indigo-600 transition-colors"
+                                    title="Duplicate"
+                                >
+                                    <Copy className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => remove(favorite)}
+                                    className="p-1.5 text-gray-400 hover:text-red-600 transition-colors"
+                                    title="Delete"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FavoritesPanel;
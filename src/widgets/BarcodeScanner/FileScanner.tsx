@@ -0,0 +1,202 @@
+// src/widgets/BarcodeScanner/FileScanner.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, ClipboardPaste, FileSearch, Upload } from 'lucide-react';
+import {
+    decodeFile,
+    decodeImageWithThumbnail,
+    DecodedBarcode,
+    DecodeProgress,
+    getPastedImage,
+    readClipboardImage
+} from '@/lib/barcode/decode';
+
+interface FileScanSummary {
+    fileName: string;
+    count: number;
+    error?: string;
+}
+
+const ACCEPTED_FILES = 'image/*,application/pdf,.pdf';
+const PASTED_IMAGE_NAME = 'Pasted image';
+
+const FileScanner = ({
+    onResults
+}: {
+    // Pasted images have no file to go back to, so a thumbnail comes with their results
+    onResults: (results: DecodedBarcode[], fileName: string, thumbnail?: string) => void
+}) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [progress, setProgress] = useState<{ fileName: string, fileIndex: number, fileCount: number } & DecodeProgress | null>(null);
+    const [summaries, setSummaries] = useState<FileScanSummary[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const scanFiles = async (files: File[]) => {
+        if (files.length === 0 || isProcessing) return;
+
+        setIsProcessing(true);
+        setSummaries([]);
+
+        for (const [index, file] of files.entries()) {
+            try {
+                const results = await decodeFile(file, (pageProgress) => setProgress({
+                    fileName: file.name,
+                    fileIndex: index + 1,
+                    fileCount: files.length,
+                    ...pageProgress,
+                }));
+                if (results.length > 0) {
+                    onResults(results, file.name);
+                }
+                setSummaries(prev => [...prev, { fileName: file.name, count: results.length }]);
+            } catch (err: any) {
+                console.error('File scan error:', err);
+                setSummaries(prev => [...prev, { fileName: file.name, count: 0, error: err.message || 'Could not read file.' }]);
+            }
+        }
+
+        setProgress(null);
+        setIsProcessing(false);
+    };
+
+    const scanPastedImage = async (image: Blob) => {
+        if (isProcessing) return;
+
+        setIsProcessing(true);
+        setSummaries([]);
+        setProgress({ fileName: PASTED_IMAGE_NAME, fileIndex: 1, fileCount: 1, page: 1, pageCount: 1 });
+
+        try {
+            const { results, thumbnail } = await decodeImageWithThumbnail(image);
+            if (results.length > 0) {
+                onResults(results, PASTED_IMAGE_NAME, thumbnail);
+            }
+            setSummaries([{ fileName: PASTED_IMAGE_NAME, count: results.length }]);
+        } catch (err: any) {
+            console.error('Pasted image scan error:', err);
+            setSummaries([{ fileName: PASTED_IMAGE_NAME, count: 0, error: err.message || 'Could not read the image.' }]);
+        } finally {
+            setProgress(null);
+            setIsProcessing(false);
+        }
+    };
+
+    const pasteFromClipboard = async () => {
+        try {
+            const image = await readClipboardImage();
+            if (image) {
+                await scanPastedImage(image);
+            } else {
+                setSummaries([{ fileName: 'Clipboard', count: 0, error: 'No image on the clipboard. Copy a screenshot first.' }]);
+            }
+        } catch (err: any) {
+            console.error('Clipboard read error:', err);
+            const error = err.name === 'NotAllowedError'
+                ? 'Clipboard access was denied. Press Ctrl+V (⌘V) to paste instead.'
+                : err.message || 'Could not read the clipboard.';
+            setSummaries([{ fileName: 'Clipboard', count: 0, error }]);
+        }
+    };
+
+    // Ctrl+V anywhere on the tab; the listener stays put and calls the latest handler
+    const scanPastedImageRef = useRef(scanPastedImage);
+    scanPastedImageRef.current = scanPastedImage;
+
+    useEffect(() => {
+        const handlePaste = (event: ClipboardEvent) => {
+            const image = getPastedImage(event.clipboardData);
+            if (!image) return;
+
+            event.preventDefault();
+            scanPastedImageRef.current(image);
+        };
+
+        document.addEventListener('paste', handlePaste);
+        return () => document.removeEventListener('paste', handlePaste);
+    }, []);
+
+    const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+        event.preventDefault();
+        setIsDragging(false);
+        scanFiles(Array.from(event.dataTransfer.files));
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        scanFiles(Array.from(event.target.files || []));
+        event.target.value = '';
+    };
+
+    return (
+        <div className="space-y-3">
+            <div
+                onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+                className={`border-2 border-dashed rounded-xl p-6 text-center cursor-pointer transition-colors ${isDragging
+                    ? 'border-indigo-500 bg-indigo-50'
+                    : 'border-gray-200 hover:border-indigo-300 hover:bg-indigo-50/50'
+                    }`}
+            >
+                {isProcessing && progress ? (
+                    <div>
+                        <div className="animate-spin w-8 h-8 border-3 border-indigo-300 border-t-indigo-600 rounded-full mx-auto mb-3"></div>
+                        <p className="text-indigo-600 font-medium truncate">Scanning {progress.fileName}</p>
+                        <p className="text-sm text-gray-500 mt-1">
+                            {progress.fileCount > 1 && `File ${progress.fileIndex} of ${progress.fileCount} · `}
+                            Page {progress.page} of {progress.pageCount}
+                        </p>
+                    </div>
+                ) : (
+                    <div>
+                        <Upload className="w-10 h-10 text-indigo-400 mx-auto mb-3" />
+                        <p className="text-gray-700 font-medium">Drop images or PDFs here</p>
+                        <p className="text-sm text-gray-500 mt-1">
+                            or click to choose files, or paste a screenshot with Ctrl+V. Every barcode on every page is decoded.
+                        </p>
+                    </div>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={ACCEPTED_FILES}
+                    multiple
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+            </div>
+
+            <button
+                onClick={pasteFromClipboard}
+                disabled={isProcessing}
+                className="w-full text-sm py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors flex items-center justify-center gap-2 font-medium border border-gray-200 disabled:opacity-50"
+            >
+                <ClipboardPaste className="w-4 h-4" />
+                Paste image from clipboard
+            </button>
+
+            {summaries.map((summary, index) => (
+                <div
+                    key={`${summary.fileName}-${index}`}
+                    className={`flex items-center gap-2 text-sm ${summary.error ? 'text-red-600' : summary.count > 0 ? 'text-green-700' : 'text-yellow-700'}`}
+                >
+                    {summary.error ? (
+                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                    ) : summary.count > 0 ? (
+                        <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                    ) : (
+                        <FileSearch className="w-4 h-4 flex-shrink-0" />
+                    )}
+                    <span className="truncate">
+                        {summary.fileName}: {summary.error || (summary.count > 0 ? `${summary.count} found` : 'no barcodes found')}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default FileScanner;
@@ -0,0 +1,142 @@
+// src/widgets/BarcodeScanner/Gs1Builder.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Plus, Trash2 } from 'lucide-react';
+import {
+    GS1_AIS,
+    Gs1Element,
+    buildElementString,
+    completeGs1Value,
+    describeAiFormat,
+    findAi,
+    formatGs1Value,
+    parseBracketed,
+    validateGs1Value
+} from '@/lib/barcode/gs1';
+import { createId } from '@/lib/utils';
+
+type BuilderRow = Gs1Element & { id: string };
+
+const DEFAULT_ELEMENTS: Gs1Element[] = [
+    { ai: '01', value: '0950600013435' },
+    { ai: '17', value: '271231' },
+    { ai: '10', value: 'LOT123' },
+];
+
+const inputClassName = 'w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const toRows = (elements: Gs1Element[]) => elements.map(element => ({ ...element, id: createId() }));
+
+const Gs1Builder = ({ value, onChange }: { value: string, onChange: (value: string) => void }) => {
+    const [rows, setRows] = useState<BuilderRow[]>(() => toRows(parseBracketed(value) ?? DEFAULT_ELEMENTS));
+    // The last string this builder produced, to tell our own updates from edits in the text box
+    const emittedRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (value === emittedRef.current) return;
+
+        const parsed = parseBracketed(value);
+        if (parsed) {
+            setRows(toRows(parsed));
+            emittedRef.current = value;
+        } else if (emittedRef.current === null) {
+            // Switching to a GS1 format with plain text: start from an example instead
+            emittedRef.current = buildElementString(DEFAULT_ELEMENTS);
+            onChange(emittedRef.current);
+        }
+    }, [value, onChange]);
+
+    const updateRows = (next: BuilderRow[]) => {
+        setRows(next);
+        emittedRef.current = buildElementString(next);
+        onChange(emittedRef.current);
+    };
+
+    const updateRow = (id: string, changes: Partial<Gs1Element>) => {
+        updateRows(rows.map(row => (row.id === id ? { ...row, ...changes } : row)));
+    };
+
+    const addRow = () => {
+        const used = new Set(rows.map(row => row.ai));
+        const next = GS1_AIS.find(def => !def.decimal && !used.has(def.ai)) ?? GS1_AIS[0];
+        updateRows([...rows, { id: createId(), ai: next.ai, value: '' }]);
+    };
+
+    return (
+        <div className="space-y-3">
+            {rows.map((row) => {
+                const def = findAi(row.ai);
+                const completed = completeGs1Value(row.ai, row.value.trim());
+                const error = row.value ? validateGs1Value(row.ai, completed) : null;
+                const display = !error && row.value ? formatGs1Value(row.ai, completed) : null;
+
+                return (
+                    <div key={row.id} className="p-3 bg-gray-50 border border-gray-200 rounded-xl space-y-2">
+                        <div className="flex gap-2">
+                            <select
+                                value={def?.ai ?? row.ai}
+                                onChange={(e) => {
+                                    const next = GS1_AIS.find(d => d.ai === e.target.value)!;
+                                    updateRow(row.id, { ai: next.decimal ? `${next.ai}0` : next.ai });
+                                }}
+                                className={inputClassName}
+                            >
+                                {GS1_AIS.map((option) => (
+                                    <option key={option.ai} value={option.ai}>
+                                        ({option.ai}{option.decimal ? 'n' : ''}) {option.title}
+                                    </option>
+                                ))}
+                            </select>
+                            {def?.decimal && (
+                                <select
+                                    value={row.ai[3]}
+                                    onChange={(e) => updateRow(row.id, { ai: `${def.ai}${e.target.value}` })}
+                                    className={`${inputClassName} w-28`}
+                                    title="Decimal places"
+                                >
+                                    {[0, 1, 2, 3, 4, 5].map((places) => (
+                                        <option key={places} value={places}>{places} dp</option>
+                                    ))}
+                                </select>
+                            )}
+                            <button
+                                onClick={() => updateRows(rows.filter(r => r.id !== row.id))}
+                                className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                                title="Remove field"
+                            >
+                                <Trash2 className="w-4 h-4" />
+                            </button>
+                        </div>
+                        <input
+                            value={row.value}
+                            onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                            placeholder={def ? describeAiFormat(def) : ''}
+                            className={`${inputClassName} font-mono ${error ? 'border-red-300' : ''}`}
+                        />
+                        {error ? (
+                            <p className="flex items-start gap-2 text-xs text-red-600">
+                                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                {error}
+                            </p>
+                        ) : (
+                            <p className="text-xs text-gray-500">
+                                {def ? `${def.description} · ${describeAiFormat(def)}` : ''}
+                                {completed !== row.value.trim() && ` · check digit ${completed[completed.length - 1]}`}
+                                {display && display !== completed && ` · ${display}`}
+                            </p>
+                        )}
+                    </div>
+                );
+            })}
+
+            <button
+                onClick={addRow}
+                className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm font-medium border border-gray-200"
+            >
+                <Plus className="w-4 h-4" />
+                Add AI field
+            </button>
+        </div>
+    );
+};
+
+export default Gs1Builder;
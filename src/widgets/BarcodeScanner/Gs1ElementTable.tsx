@@ -0,0 +1,36 @@
+// src/widgets/BarcodeScanner/Gs1ElementTable.tsx
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Gs1ParseResult } from '@/lib/barcode/gs1';
+
+const Gs1ElementTable = ({ data }: { data: Gs1ParseResult }) => (
+    <div className="w-full">
+        <table className="w-full text-xs">
+            <tbody>
+                {data.elements.map((element, index) => (
+                    <tr key={`${element.ai}-${index}`} className="border-b border-green-200/60 last:border-0 align-top">
+                        <td className="py-1 pr-2 font-mono text-gray-500 whitespace-nowrap">({element.ai})</td>
+                        <td className="py-1 pr-2 font-semibold text-gray-700" title={element.description}>{element.title}</td>
+                        <td className="py-1 font-mono text-gray-800 break-all">
+                            {element.display}
+                            {element.error && (
+                                <span className="flex items-start gap-1 text-red-600 font-sans mt-0.5">
+                                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                    {element.error}
+                                </span>
+                            )}
+                        </td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+        {data.error && (
+            <p className="flex items-start gap-1 text-xs text-red-600 mt-1">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                {data.error}
+            </p>
+        )}
+    </div>
+);
+
+export default Gs1ElementTable;
@@ -0,0 +1,112 @@
+// src/widgets/BarcodeScanner/HardwareScannerPanel.tsx
+import React from 'react';
+import { Keyboard } from 'lucide-react';
+import {
+    MAX_KEY_INTERVAL,
+    MIN_KEY_INTERVAL,
+    WEDGE_TERMINATORS,
+    WedgeSettings,
+    WedgeTerminator
+} from '@/lib/barcode/keyboardWedge';
+import { prepareScanFeedback } from '@/lib/barcode/scanSession';
+
+const inputClassName = 'w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const HardwareScannerPanel = ({
+    settings,
+    onChange
+}: {
+    settings: WedgeSettings,
+    onChange: (settings: WedgeSettings) => void
+}) => {
+    const update = <K extends keyof WedgeSettings>(key: K, value: WedgeSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    const toggleListening = () => {
+        // The click is the user gesture browsers want before the scan beep can play
+        prepareScanFeedback();
+        update('enabled', !settings.enabled);
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    onClick={toggleListening}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors border ${settings.enabled
+                        ? 'bg-indigo-600 text-white border-indigo-600'
+                        : 'bg-gray-100 text-gray-600 border-gray-200 hover:bg-indigo-50'
+                        }`}
+                >
+                    <Keyboard className="w-4 h-4" />
+                    {settings.enabled ? 'Listening' : 'Listen for scanner'}
+                </button>
+                <p className="text-sm text-gray-500">
+                    {settings.enabled
+                        ? 'Scan with a USB or Bluetooth scanner in keyboard mode. Keys typed into text fields are left alone.'
+                        : 'Handheld scanners that type the code can add to the history like the camera.'}
+                </p>
+            </div>
+
+            {settings.enabled && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Max gap between keys (ms)</label>
+                        <input
+                            type="number"
+                            min={MIN_KEY_INTERVAL}
+                            max={MAX_KEY_INTERVAL}
+                            value={settings.maxKeyInterval}
+                            onChange={(e) => update('maxKeyInterval', Math.min(Math.max(Number(e.target.value), MIN_KEY_INTERVAL), MAX_KEY_INTERVAL))}
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Min code length</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={settings.minLength}
+                            onChange={(e) => update('minLength', Math.min(Math.max(Math.round(Number(e.target.value)), 1), 100))}
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Ends with key</label>
+                        <select
+                            value={settings.terminator}
+                            onChange={(e) => update('terminator', e.target.value as WedgeTerminator)}
+                            className={inputClassName}
+                        >
+                            {WEDGE_TERMINATORS.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Prefix</label>
+                        <input
+                            value={settings.prefix}
+                            onChange={(e) => update('prefix', e.target.value)}
+                            placeholder="None"
+                            className={`${inputClassName} font-mono`}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-semibold text-gray-600 mb-1">Suffix</label>
+                        <input
+                            value={settings.suffix}
+                            onChange={(e) => update('suffix', e.target.value)}
+                            placeholder="None"
+                            className={`${inputClassName} font-mono`}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default HardwareScannerPanel;
@@ -0,0 +1,347 @@
+// src/widgets/BarcodeScanner/LabelSheetDesigner.tsx
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Download, Printer, Tags } from 'lucide-react';
+import { parseBatchInput, renderBatchRows } from '@/lib/barcode/batch';
+import { downloadBlob } from '@/lib/barcode/download';
+import { RenderOptions } from '@/lib/barcode/render';
+import {
+    LABEL_LAYOUTS,
+    CUSTOM_LAYOUT_ID,
+    PAGE_SIZES,
+    DEFAULT_LABEL_SHEET_OPTIONS,
+    LabelItem,
+    LabelLayout,
+    createLabelSheetPdf,
+    getLabelRects,
+    labelsPerPage,
+    validateLabelLayout,
+} from '@/lib/barcode/labels';
+
+type LabelSource = 'current' | 'list';
+
+const CUSTOM_FIELDS: { key: keyof LabelLayout; label: string; step: number }[] = [
+    { key: 'columns', label: 'Columns', step: 1 },
+    { key: 'rows', label: 'Rows', step: 1 },
+    { key: 'labelWidth', label: 'Label width (mm)', step: 0.1 },
+    { key: 'labelHeight', label: 'Label height (mm)', step: 0.1 },
+    { key: 'marginTop', label: 'Top margin (mm)', step: 0.1 },
+    { key: 'marginLeft', label: 'Left margin (mm)', step: 0.1 },
+    { key: 'columnGap', label: 'Column gap (mm)', step: 0.1 },
+    { key: 'rowGap', label: 'Row gap (mm)', step: 0.1 },
+];
+
+// Replaces {value} and {format} placeholders in a text line template
+const fillTemplate = (template: string, value: string, format: string) =>
+    template.replace(/\{value\}/g, value).replace(/\{format\}/g, format);
+
+const inputClassName = 'w-full p-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const LabelSheetDesigner = ({
+    barcodeData,
+    barcodeFormat,
+    renderOptions
+}: {
+    barcodeData: string,
+    barcodeFormat: string,
+    renderOptions: RenderOptions
+}) => {
+    const [source, setSource] = useState<LabelSource>('current');
+    const [listInput, setListInput] = useState('');
+    const [copies, setCopies] = useState(1);
+    const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+    const [customLayout, setCustomLayout] = useState<LabelLayout>({ ...LABEL_LAYOUTS[0], id: CUSTOM_LAYOUT_ID, name: 'Custom' });
+    const [textLines, setTextLines] = useState(['', '']);
+    const [sheetOptions, setSheetOptions] = useState(DEFAULT_LABEL_SHEET_OPTIONS);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const layout = layoutId === CUSTOM_LAYOUT_ID
+        ? customLayout
+        : LABEL_LAYOUTS.find(l => l.id === layoutId) || LABEL_LAYOUTS[0];
+    const layoutProblems = validateLabelLayout(layout);
+
+    const rows = useMemo(() => {
+        const input = source === 'current' ? barcodeData.trim() : listInput;
+        // The current barcode is a single value even if it contains commas
+        const parsed = source === 'current'
+            ? (input ? [{ line: 1, value: input, format: barcodeFormat, filename: '', svg: null, error: null }] : [])
+            : parseBatchInput(input, barcodeFormat);
+        return renderBatchRows(parsed, renderOptions);
+    }, [source, barcodeData, barcodeFormat, listInput, renderOptions]);
+
+    const invalidRows = rows.filter(row => row.error);
+
+    const items: LabelItem[] = useMemo(() => rows
+        .filter(row => row.svg)
+        .flatMap(row => Array.from({ length: Math.max(copies, 1) }, () => ({
+            svg: row.svg as string,
+            lines: textLines.map(line => fillTemplate(line, row.value, row.format)),
+        }))), [rows, copies, textLines]);
+
+    const perPage = labelsPerPage(layout);
+    const pageCount = items.length > 0 ? Math.ceil((items.length + sheetOptions.startPosition) / perPage) : 0;
+    const previewRects = layoutProblems.length === 0 ? getLabelRects(layout) : [];
+
+    const updateCustomLayout = (key: keyof LabelLayout, value: number) => {
+        setCustomLayout(prev => ({ ...prev, [key]: value }));
+    };
+
+    const buildPdf = async () => {
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            return await createLabelSheetPdf(items, layout, sheetOptions);
+        } catch (err: any) {
+            console.error('Label sheet error:', err);
+            setExportError(err.message || 'Failed to create label sheet.');
+            return null;
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const downloadPdf = async () => {
+        const doc = await buildPdf();
+        if (doc) {
+            downloadBlob(doc.output('blob'), `labels_${layout.id}_${Date.now()}.pdf`);
+        }
+    };
+
+    const printPdf = async () => {
+        const doc = await buildPdf();
+        if (doc) {
+            doc.autoPrint();
+            window.open(doc.output('bloburl'), '_blank');
+        }
+    };
+
+    const canExport = items.length > 0 && layoutProblems.length === 0 && !isExporting;
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Sheet Settings */}
+            <div className="lg:col-span-1">
+                <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-6 sticky top-8">
+                    <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center gap-2">
+                        <Tags className="w-6 h-6 text-indigo-600" />
+                        Label Sheet
+                    </h2>
+
+                    <div className="space-y-6">
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-3">
+                                Barcodes
+                            </label>
+                            <div className="flex gap-2 mb-3">
+                                {(['current', 'list'] as LabelSource[]).map((value) => (
+                                    <button
+                                        key={value}
+                                        onClick={() => setSource(value)}
+                                        className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${source === value
+                                            ? 'bg-indigo-600 text-white'
+                                            : 'bg-gray-100 text-gray-600 hover:bg-indigo-50'
+                                            }`}
+                                    >
+                                        {value === 'current' ? 'Current barcode' : 'List / CSV'}
+                                    </button>
+                                ))}
+                            </div>
+                            {source === 'list' && (
+                                <textarea
+                                    value={listInput}
+                                    onChange={(e) => setListInput(e.target.value)}
+                                    className={`${inputClassName} resize-none font-mono text-sm`}
+                                    rows={6}
+                                    placeholder="One value per line, or CSV with a format column"
+                                />
+                            )}
+                            {source === 'current' && (
+                                <p className="text-sm text-gray-500 font-mono break-all">{barcodeData || '(empty)'}</p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-700 mb-2">Copies each</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={copies}
+                                    onChange={(e) => setCopies(Number(e.target.value))}
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-semibold text-gray-700 mb-2">Start at label</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={perPage}
+                                    value={sheetOptions.startPosition + 1}
+                                    onChange={(e) => setSheetOptions(prev => ({ ...prev, startPosition: Math.max(Number(e.target.value) - 1, 0) }))}
+                                    className={inputClassName}
+                                />
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-3">
+                                Label Stock
+                            </label>
+                            <select
+                                value={layoutId}
+                                onChange={(e) => setLayoutId(e.target.value)}
+                                className={inputClassName}
+                            >
+                                {LABEL_LAYOUTS.map((option) => (
+                                    <option key={option.id} value={option.id}>{option.name}</option>
+                                ))}
+                                <option value={CUSTOM_LAYOUT_ID}>Custom layout</option>
+                            </select>
+                        </div>
+
+                        {layoutId === CUSTOM_LAYOUT_ID && (
+                            <div className="grid grid-cols-2 gap-3">
+                                <div className="col-span-2">
+                                    <label className="block text-xs font-semibold text-gray-600 mb-1">Page size</label>
+                                    <select
+                                        value={Object.keys(PAGE_SIZES).find(key => PAGE_SIZES[key as keyof typeof PAGE_SIZES].width === customLayout.pageWidth) || 'letter'}
+                                        onChange={(e) => {
+                                            const page = PAGE_SIZES[e.target.value as keyof typeof PAGE_SIZES];
+                                            setCustomLayout(prev => ({ ...prev, pageWidth: page.width, pageHeight: page.height }));
+                                        }}
+                                        className={inputClassName}
+                                    >
+                                        {Object.entries(PAGE_SIZES).map(([key, page]) => (
+                                            <option key={key} value={key}>{page.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {CUSTOM_FIELDS.map(({ key, label, step }) => (
+                                    <div key={key}>
+                                        <label className="block text-xs font-semibold text-gray-600 mb-1">{label}</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step={step}
+                                            value={customLayout[key] as number}
+                                            onChange={(e) => updateCustomLayout(key, Number(e.target.value))}
+                                            className={inputClassName}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div>
+                            <label className="block text-sm font-semibold text-gray-700 mb-3">
+                                Text Lines
+                            </label>
+                            <div className="space-y-2">
+                                {textLines.map((line, index) => (
+                                    <input
+                                        key={index}
+                                        value={line}
+                                        onChange={(e) => setTextLines(prev => prev.map((l, i) => (i === index ? e.target.value : l)))}
+                                        className={inputClassName}
+                                        placeholder={`Line ${index + 1}, e.g. Aisle 4 - {value}`}
+                                    />
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-2">Use {'{value}'} and {'{format}'} as placeholders.</p>
+                        </div>
+
+                        <label className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={sheetOptions.showOutlines}
+                                onChange={(e) => setSheetOptions(prev => ({ ...prev, showOutlines: e.target.checked }))}
+                                className="text-indigo-600 focus:ring-indigo-500"
+                            />
+                            Draw label outlines (for test prints)
+                        </label>
+                    </div>
+                </div>
+            </div>
+
+            {/* Sheet Preview */}
+            <div className="lg:col-span-2">
+                <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-8">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                        <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+                            <Printer className="w-6 h-6 text-indigo-600" />
+                            Sheet Preview
+                            {items.length > 0 && (
+                                <span className="text-sm font-normal text-gray-500">
+                                    {items.length} labels, {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+                                </span>
+                            )}
+                        </h2>
+
+                        <div className="flex gap-3">
+                            <button
+                                onClick={downloadPdf}
+                                disabled={!canExport}
+                                className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white py-2 px-4 rounded-xl hover:from-indigo-700 hover:to-purple-700 transition-all duration-200 flex items-center gap-2 font-medium shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Download className="w-4 h-4" />
+                                Download PDF
+                            </button>
+                            <button
+                                onClick={printPdf}
+                                disabled={!canExport}
+                                className="bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-4 rounded-xl transition-all duration-200 flex items-center gap-2 font-medium border border-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Printer className="w-4 h-4" />
+                                Print
+                            </button>
+                        </div>
+                    </div>
+
+                    {[...layoutProblems, ...invalidRows.map(row => `Line ${row.line}: ${row.error}`), ...(exportError ? [exportError] : [])].map((problem) => (
+                        <div key={problem} className="mb-3 p-3 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+                            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                            <p className="text-sm text-red-700">{problem}</p>
+                        </div>
+                    ))}
+
+                    {/* First page, positioned in percentages of the physical page */}
+                    <div
+                        className="relative mx-auto bg-white shadow-md border border-gray-200 w-full max-w-md"
+                        style={{ aspectRatio: `${layout.pageWidth} / ${layout.pageHeight}` }}
+                    >
+                        {previewRects.map((rect, index) => {
+                            const item = items[index - sheetOptions.startPosition];
+                            return (
+                                <div
+                                    key={index}
+                                    className="absolute border border-dashed border-gray-200 flex flex-col items-center justify-center overflow-hidden"
+                                    style={{
+                                        left: `${(rect.x / layout.pageWidth) * 100}%`,
+                                        top: `${(rect.y / layout.pageHeight) * 100}%`,
+                                        width: `${(rect.width / layout.pageWidth) * 100}%`,
+                                        height: `${(rect.height / layout.pageHeight) * 100}%`,
+                                    }}
+                                >
+                                    {item && (
+                                        <>
+                                            <div
+                                                className="min-h-0 flex-1 flex items-center justify-center [&>svg]:max-w-full [&>svg]:max-h-full [&>svg]:h-auto"
+                                                dangerouslySetInnerHTML={{ __html: item.svg }}
+                                            />
+                                            {item.lines.filter(line => line.trim()).map((line, lineIndex) => (
+                                                <p key={lineIndex} className="text-[6px] leading-tight text-gray-700 truncate max-w-full">{line}</p>
+                                            ))}
+                                        </>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LabelSheetDesigner;
@@ -0,0 +1,127 @@
+// src/widgets/BarcodeScanner/PayloadBuilder.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import {
+    PAYLOAD_TEMPLATES,
+    PayloadType,
+    buildPayload,
+    getPayloadTemplate,
+    missingPayloadFields,
+    parsePayload
+} from '@/lib/barcode/payloads';
+
+const inputClassName = 'w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const PayloadBuilder = ({ value, onChange }: { value: string, onChange: (value: string) => void }) => {
+    const initial = parsePayload(value);
+    const [type, setType] = useState<PayloadType | ''>(initial?.type ?? '');
+    const [values, setValues] = useState<Record<string, string>>(initial?.values ?? {});
+    // The last payload this form produced, to tell our own updates from edits in the text box
+    const emittedRef = useRef(value);
+
+    // Editing the text box directly re-reads it, or falls back to free text
+    useEffect(() => {
+        if (value === emittedRef.current) return;
+        emittedRef.current = value;
+
+        const parsed = parsePayload(value);
+        setType(parsed?.type ?? '');
+        setValues(parsed?.values ?? {});
+    }, [value]);
+
+    const emit = (nextType: PayloadType, nextValues: Record<string, string>) => {
+        emittedRef.current = buildPayload(nextType, nextValues);
+        onChange(emittedRef.current);
+    };
+
+    const selectType = (nextType: PayloadType | '') => {
+        setType(nextType);
+        if (!nextType) return;
+
+        const defaults = { ...getPayloadTemplate(nextType).defaults };
+        setValues(defaults);
+        emit(nextType, defaults);
+    };
+
+    const updateValue = (key: string, fieldValue: string) => {
+        const next = { ...values, [key]: fieldValue };
+        setValues(next);
+        if (type) emit(type, next);
+    };
+
+    const template = type ? getPayloadTemplate(type) : null;
+    const missing = type ? missingPayloadFields(type, values) : [];
+
+    return (
+        <div className="space-y-3">
+            <select value={type} onChange={(e) => selectType(e.target.value as PayloadType | '')} className={inputClassName}>
+                <option value="">Free text</option>
+                {PAYLOAD_TEMPLATES.map((option) => (
+                    <option key={option.type} value={option.type}>{option.label}</option>
+                ))}
+            </select>
+
+            {template && (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-xl space-y-3">
+                    {template.fields.map((field) => (
+                        <div key={field.key}>
+                            {field.input === 'checkbox' ? (
+                                <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={values[field.key] === 'true'}
+                                        onChange={(e) => updateValue(field.key, e.target.checked ? 'true' : '')}
+                                        className="rounded"
+                                    />
+                                    {field.label}
+                                </label>
+                            ) : (
+                                <>
+                                    <label className="block text-xs font-semibold text-gray-600 mb-1">
+                                        {field.label}{field.required && ' *'}
+                                    </label>
+                                    {field.input === 'select' ? (
+                                        <select
+                                            value={values[field.key] ?? ''}
+                                            onChange={(e) => updateValue(field.key, e.target.value)}
+                                            className={inputClassName}
+                                        >
+                                            {field.options!.map((option) => (
+                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    ) : field.input === 'textarea' ? (
+                                        <textarea
+                                            value={values[field.key] ?? ''}
+                                            onChange={(e) => updateValue(field.key, e.target.value)}
+                                            rows={2}
+                                            className={`${inputClassName} resize-none`}
+                                        />
+                                    ) : (
+                                        <input
+                                            type={field.input ?? 'text'}
+                                            step={field.input === 'number' ? 'any' : undefined}
+                                            value={values[field.key] ?? ''}
+                                            onChange={(e) => updateValue(field.key, e.target.value)}
+                                            placeholder={field.placeholder}
+                                            className={inputClassName}
+                                        />
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    ))}
+
+                    {missing.length > 0 && (
+                        <p className="flex items-start gap-2 text-xs text-amber-600">
+                            <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                            Fill in {missing.join(', ')}.
+                        </p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PayloadBuilder;
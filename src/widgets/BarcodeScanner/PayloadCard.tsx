@@ -0,0 +1,94 @@
+// src/widgets/BarcodeScanner/PayloadCard.tsx
+import React from 'react';
+import { CalendarPlus, ExternalLink, KeyRound, Mail, MessageSquare, UserPlus } from 'lucide-react';
+import { ParsedPayload, getPayloadTemplate, toIcsFile, toVcardFile } from '@/lib/barcode/payloads';
+import { downloadBlob, sanitizeFilename } from '@/lib/barcode/download';
+
+const actionClassName = 'text-xs px-3 py-1.5 bg-white border border-green-200 text-green-700 rounded-lg hover:bg-green-100 transition-colors inline-flex items-center gap-1 font-medium';
+
+const PayloadAction = ({ payload, text, onCopy }: { payload: ParsedPayload, text: string, onCopy: (text: string) => void }) => {
+    const { values } = payload;
+
+    switch (payload.type) {
+        case 'wifi':
+            return values.password ? (
+                <button onClick={() => onCopy(values.password)} className={actionClassName}>
+                    <KeyRound className="w-3 h-3" />
+                    Copy password
+                </button>
+            ) : null;
+        case 'vcard':
+        case 'mecard': {
+            const name = values.name || [values.firstName, values.lastName].filter(Boolean).join(' ') || 'contact';
+            return (
+                <button
+                    onClick={() => downloadBlob(new Blob([toVcardFile(payload)], { type: 'text/vcard' }), `${sanitizeFilename(name, 40)}.vcf`)}
+                    className={actionClassName}
+                >
+                    <UserPlus className="w-3 h-3" />
+                    Add contact
+                </button>
+            );
+        }
+        case 'email':
+            return (
+                <a href={text} className={actionClassName}>
+                    <Mail className="w-3 h-3" />
+                    Send e-mail
+                </a>
+            );
+        case 'sms':
+            return (
+                <a href={`sms:${values.phone}${values.message ? `?body=${encodeURIComponent(values.message)}` : ''}`} className={actionClassName}>
+                    <MessageSquare className="w-3 h-3" />
+                    Send SMS
+                </a>
+            );
+        case 'geo':
+            return (
+                <a
+                    href={`https://www.openstreetmap.org/?mlat=${values.latitude}&mlon=${values.longitude}#map=16/${values.latitude}/${values.longitude}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={actionClassName}
+                >
+                    <ExternalLink className="w-3 h-3" />
+                    Open map
+                </a>
+            );
+        case 'event':
+            return (
+                <button
+                    onClick={() => downloadBlob(new Blob([toIcsFile(payload)], { type: 'text/calendar' }), `${sanitizeFilename(values.summary || 'event', 40)}.ics`)}
+                    className={actionClassName}
+                >
+                    <CalendarPlus className="w-3 h-3" />
+                    Add to calendar
+                </button>
+            );
+    }
+};
+
+const PayloadCard = ({ payload, text, onCopy }: { payload: ParsedPayload, text: string, onCopy: (text: string) => void }) => {
+    const fields = getPayloadTemplate(payload.type).fields.filter(field => payload.values[field.key] && field.input !== 'checkbox');
+
+    return (
+        <div className="space-y-2">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                {fields.map((field) => (
+                    <React.Fragment key={field.key}>
+                        <dt className="font-semibold text-gray-500">{field.label}</dt>
+                        <dd className="text-gray-800 break-all whitespace-pre-wrap">
+                            {field.input === 'select'
+                                ? field.options!.find(option => option.value === payload.values[field.key])?.label ?? payload.values[field.key]
+                                : payload.values[field.key]}
+                        </dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+            <PayloadAction payload={payload} text={text} onCopy={onCopy} />
+        </div>
+    );
+};
+
+export default PayloadCard;
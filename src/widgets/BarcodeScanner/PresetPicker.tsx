@@ -0,0 +1,115 @@
+// src/widgets/BarcodeScanner/PresetPicker.tsx
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Bookmark, Save, Trash2 } from 'lucide-react';
+import { getFormatLabel } from '@/lib/barcode/formats';
+import { GeneratorPreset, createPreset } from '@/lib/barcode/library';
+import { RenderOptions } from '@/lib/barcode/render';
+import useStore from '@/lib/hooks/useStore';
+
+const inputClassName = 'w-full p-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const PresetPicker = ({
+    format,
+    options,
+    onApply
+}: {
+    format: string,
+    options: RenderOptions,
+    onApply: (preset: GeneratorPreset) => void
+}) => {
+    const [presets, setPresets] = useStore<GeneratorPreset[]>('generatorPresets', []);
+    const [selectedId, setSelectedId] = useState('');
+    const [newName, setNewName] = useState<string | null>(null);
+
+    const applyPreset = (id: string) => {
+        setSelectedId(id);
+        const preset = presets.find(p => p.id === id);
+        if (preset) onApply(preset);
+    };
+
+    const savePreset = () => {
+        if (!newName?.trim()) return;
+
+        // Saving under an existing name updates that preset
+        const existing = presets.find(p => p.name.toLowerCase() === newName.trim().toLowerCase());
+        const preset = { ...createPreset(newName, format, options), ...(existing && { id: existing.id }) };
+        setPresets(existing ? presets.map(p => (p.id === existing.id ? preset : p)) : [...presets, preset]);
+        setSelectedId(preset.id);
+        setNewName(null);
+        toast.success(existing ? `Updated preset "${preset.name}"` : `Saved preset "${preset.name}"`);
+    };
+
+    const deletePreset = () => {
+        const preset = presets.find(p => p.id === selectedId);
+        if (!preset || !window.confirm(`Delete the preset "${preset.name}"?`)) return;
+        setPresets(presets.filter(p => p.id !== preset.id));
+        setSelectedId('');
+    };
+
+    return (
+        <div>
+            <label className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+                <Bookmark className="w-4 h-4 text-indigo-600" />
+                Presets
+            </label>
+
+            <div className="flex gap-2">
+                <select
+                    value={selectedId}
+                    onChange={(e) => applyPreset(e.target.value)}
+                    className={inputClassName}
+                >
+                    <option value="">{presets.length > 0 ? 'Apply a preset...' : 'No presets yet'}</option>
+                    {presets.map((preset) => (
+                        <option key={preset.id} value={preset.id}>
+                            {preset.name} ({getFormatLabel(preset.format)})
+                        </option>
+                    ))}
+                </select>
+                {selectedId && (
+                    <button
+                        onClick={deletePreset}
+                        className="px-3 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete this preset"
+                    >
+                        <Trash2 className="w-4 h-4" />
+                    </button>
+                )}
+            </div>
+
+            {newName === null ? (
+                <button
+                    onClick={() => setNewName(presets.find(p => p.id === selectedId)?.name ?? '')}
+                    className="mt-2 text-sm text-indigo-600 hover:text-indigo-800 transition-colors flex items-center gap-1 font-medium"
+                >
+                    <Save className="w-4 h-4" />
+                    Save format and style as preset
+                </button>
+            ) : (
+                <div className="mt-2 flex gap-2">
+                    <input
+                        autoFocus
+                        value={newName}
+                        onChange={(e) => setNewName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') savePreset();
+                            if (e.key === 'Escape') setNewName(null);
+                        }}
+                        placeholder="e.g. Asset tag"
+                        className={inputClassName}
+                    />
+                    <button
+                        onClick={savePreset}
+                        disabled={!newName.trim()}
+                        className="px-4 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-colors font-medium disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PresetPicker;
@@ -0,0 +1,58 @@
+// src/widgets/BarcodeScanner/ProductInfo.tsx
+import React from 'react';
+import { AlertCircle, Package } from 'lucide-react';
+import { ProductLookup, formatPrice } from '@/lib/barcode/catalog';
+
+const ProductInfo = ({ lookup }: { lookup: ProductLookup }) => {
+    switch (lookup.status) {
+        case 'loading':
+            return (
+                <p className="flex items-center gap-2 text-xs text-gray-500">
+                    <span className="animate-spin w-3 h-3 border-2 border-gray-300 border-t-indigo-600 rounded-full"></span>
+                    Looking up product...
+                </p>
+            );
+        case 'unknown':
+            return (
+                <p className="inline-flex items-center gap-1 text-xs font-medium px-2 py-1 bg-amber-50 border border-amber-200 text-amber-700 rounded-lg">
+                    <AlertCircle className="w-3 h-3" />
+                    Not in catalog
+                </p>
+            );
+        case 'error':
+            return (
+                <p className="flex items-start gap-1 text-xs text-red-600">
+                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    Product lookup failed: {lookup.message}
+                </p>
+            );
+    }
+
+    const { product } = lookup;
+    const price = formatPrice(product);
+
+    return (
+        <div className="flex items-center gap-3 p-2 bg-white border border-green-200 rounded-lg">
+            {product.image ? (
+                <img src={product.image} alt="" className="w-12 h-12 object-contain rounded flex-shrink-0" />
+            ) : (
+                <div className="w-12 h-12 flex items-center justify-center bg-gray-50 rounded flex-shrink-0">
+                    <Package className="w-6 h-6 text-gray-300" />
+                </div>
+            )}
+            <div className="min-w-0 text-xs">
+                <p className="font-semibold text-gray-800 text-sm truncate" title={product.name}>{product.name || 'Unnamed product'}</p>
+                <p className="text-gray-600 flex flex-wrap gap-x-3">
+                    {price && <span>{price}</span>}
+                    {product.stock !== undefined && (
+                        <span className={product.stock > 0 ? 'text-green-700' : 'text-red-600 font-medium'}>
+                            {product.stock > 0 ? `${product.stock} in stock` : 'Out of stock'}
+                        </span>
+                    )}
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default ProductInfo;
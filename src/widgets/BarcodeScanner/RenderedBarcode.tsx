@@ -0,0 +1,40 @@
+// src/widgets/BarcodeScanner/RenderedBarcode.tsx
+import React, { useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router';
+import { parseGeneratorLink } from '@/lib/barcode/links';
+import { encode } from '@/lib/barcode/encode';
+
+/**
+ * /render?format=EAN13&data=...: the barcode alone, for embedding in an iframe
+ * or opening from another system. The app is served as static files, so there is
+ * no direct image endpoint; this is an HTML page holding just the image. Downloads
+ * are the way to get an SVG file.
+ */
+const RenderedBarcode = () => {
+    const [searchParams] = useSearchParams();
+
+    const { image, error, data } = useMemo(() => {
+        const link = parseGeneratorLink(searchParams);
+        const data = (link.data ?? '').trim();
+        if (!link.format) return { image: null, error: 'Unknown or missing format', data };
+
+        try {
+            return { image: encode(link.format, data, link.options).toDataUrl(), error: null, data };
+        } catch (err: any) {
+            console.error('Barcode render error:', err);
+            return { image: null, error: err.message || 'Failed to generate barcode', data };
+        }
+    }, [searchParams]);
+
+    useEffect(() => {
+        document.title = data || 'Barcode';
+    }, [data]);
+
+    if (error) {
+        return <p className="p-4 font-mono text-sm text-red-600">{error}</p>;
+    }
+
+    return <img src={image} alt={data} className="block" />;
+};
+
+export default RenderedBarcode;
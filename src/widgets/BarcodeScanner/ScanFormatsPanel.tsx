@@ -0,0 +1,85 @@
+// src/widgets/BarcodeScanner/ScanFormatsPanel.tsx
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Filter } from 'lucide-react';
+import { SCAN_SYMBOLOGIES } from '@/lib/barcode/decode';
+import { getSymbologyLabel } from '@/lib/barcode/formats';
+import {
+    SCAN_FORMAT_PRESETS,
+    describeScanFormats,
+    findScanFormatPreset
+} from '@/lib/barcode/scanSession';
+
+const presetClassName = (active: boolean) => `px-3 py-1.5 rounded-lg text-xs font-medium transition-colors border ${active
+    ? 'bg-indigo-600 text-white border-indigo-600'
+    : 'bg-gray-100 text-gray-600 border-gray-200 hover:bg-indigo-50'
+    }`;
+
+const ScanFormatsPanel = ({
+    formats,
+    onChange
+}: {
+    formats: string[],
+    onChange: (formats: string[]) => void
+}) => {
+    const [showAll, setShowAll] = useState(false);
+    const preset = findScanFormatPreset(formats);
+
+    const toggleFormat = (format: string) => {
+        // Keep the list in SCAN_SYMBOLOGIES order so presets are still recognised
+        const next = formats.includes(format)
+            ? formats.filter(f => f !== format)
+            : SCAN_SYMBOLOGIES.filter(f => f === format || formats.includes(f));
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="flex items-center gap-1 text-sm text-gray-600">
+                    <Filter className="w-4 h-4" />
+                    Formats
+                </span>
+                {SCAN_FORMAT_PRESETS.map((option) => (
+                    <button
+                        key={option.id}
+                        onClick={() => onChange(option.formats)}
+                        className={presetClassName(preset?.id === option.id)}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+                <button
+                    onClick={() => setShowAll(!showAll)}
+                    className={`${presetClassName(!preset)} flex items-center gap-1`}
+                    title="Pick individual symbologies"
+                >
+                    {preset ? 'Custom' : describeScanFormats(formats)}
+                    {showAll ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                </button>
+            </div>
+
+            {showAll && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 p-3 bg-gray-50 border border-gray-200 rounded-xl">
+                    {SCAN_SYMBOLOGIES.map((format) => {
+                        const checked = formats.includes(format);
+                        return (
+                            <label key={format} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={checked}
+                                    // At least one format has to stay on; zxing treats none as all
+                                    disabled={checked && formats.length === 1}
+                                    onChange={() => toggleFormat(format)}
+                                    className="rounded"
+                                />
+                                {getSymbologyLabel(format)}
+                            </label>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScanFormatsPanel;
@@ -0,0 +1,534 @@
+// src/widgets/BarcodeScanner/ScanHistoryPanel.tsx
+import React, { useMemo, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+    AlertCircle,
+    ArrowRight,
+    CheckCircle,
+    Copy,
+    FileDown,
+    FileUp,
+    Info,
+    Pencil,
+    ScanLine,
+    Search,
+    Tag,
+    Trash2
+} from 'lucide-react';
+import {
+    EMPTY_HISTORY_FILTER,
+    HistoryFilter,
+    filterHistory,
+    historyToCsv,
+    historyToJson,
+    parseHistoryFile,
+    parseTags
+} from '@/lib/barcode/history';
+import { getScanTotals } from '@/lib/barcode/scanSession';
+import { downloadBlob } from '@/lib/barcode/download';
+import { getSymbologyLabel } from '@/lib/barcode/formats';
+import { parseGs1 } from '@/lib/barcode/gs1';
+import { parsePayload } from '@/lib/barcode/payloads';
+import { CatalogSettings, getScanGtin } from '@/lib/barcode/catalog';
+import useProductLookup from '@/lib/hooks/useProductLookup';
+import Gs1ElementTable from './Gs1ElementTable';
+import PayloadCard from './PayloadCard';
+import ProductInfo from './ProductInfo';
+
+// Rendering thousands of entries at once makes the tab sluggish
+const PAGE_SIZE = 100;
+
+const inputClassName = 'w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+// Groups hex bytes in pairs so long payloads wrap readably
+const formatHex = (hex: string) => hex.match(/.{1,2}/g).join(' ');
+
+const EntryDetails = ({ result }: { result: ScanResult }) => (
+    <dl className="mt-2 mb-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs text-gray-600">
+        {result.format && (
+            <>
+                <dt className="font-semibold">Symbology</dt>
+                <dd>{getSymbologyLabel(result.format)}</dd>
+            </>
+        )}
+        {result.input === 'HID' && (
+            <>
+                <dt className="font-semibold">Input</dt>
+                <dd>Hardware scanner (HID)</dd>
+            </>
+        )}
+        {result.camera && (
+            <>
+                <dt className="font-semibold">Camera</dt>
+                <dd className="break-words">{result.camera}</dd>
+            </>
+        )}
+        {result.duration !== undefined && (
+            <>
+                <dt className="font-semibold">Found in</dt>
+                <dd>{result.duration < 1000 ? `${result.duration} ms` : `${(result.duration / 1000).toFixed(1)} s`}</dd>
+            </>
+        )}
+        {result.points && result.points.length > 0 && (
+            <>
+                <dt className="font-semibold">Points</dt>
+                <dd className="font-mono">
+                    {result.points.map(p => `(${Math.round(p.x)}, ${Math.round(p.y)})`).join(' ')}
+                </dd>
+            </>
+        )}
+        {result.rawBytes && (
+            <>
+                <dt className="font-semibold">Raw bytes</dt>
+                <dd className="font-mono break-all max-h-24 overflow-y-auto">{formatHex(result.rawBytes)}</dd>
+            </>
+        )}
+        {result.source?.thumbnail && (
+            <>
+                <dt className="font-semibold">Source image</dt>
+                <dd>
+                    <img
+                        src={result.source.thumbnail}
+                        alt={result.source.fileName}
+                        className="max-h-40 max-w-full rounded border border-gray-200 bg-white"
+                    />
+                </dd>
+            </>
+        )}
+    </dl>
+);
+
+const EntryEditor = ({
+    result,
+    onSave,
+    onCancel
+}: {
+    result: ScanResult,
+    onSave: (result: ScanResult) => void,
+    onCancel: () => void
+}) => {
+    const [tags, setTags] = useState((result.tags ?? []).join(', '));
+    const [notes, setNotes] = useState(result.notes ?? '');
+
+    const handleSave = () => {
+        const parsedTags = parseTags(tags);
+        onSave({
+            ...result,
+            tags: parsedTags.length > 0 ? parsedTags : undefined,
+            notes: notes.trim() || undefined,
+        });
+    };
+
+    return (
+        <div className="mt-3 space-y-2">
+            <input
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="Tags, comma separated"
+                className={inputClassName}
+            />
+            <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes"
+                rows={2}
+                className={`${inputClassName} resize-none`}
+            />
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="text-xs px-3 py-1.5 text-gray-600 hover:text-gray-800 transition-colors">
+                    Cancel
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="text-xs px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors font-medium"
+                >
+                    Save
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const ScanHistoryPanel = ({
+    results,
+    isLoading,
+    catalog,
+    copiedText,
+    onCopy,
+    onUse,
+    onUpdate,
+    onDelete,
+    onClear,
+    onImport
+}: {
+    results: ScanResult[],
+    isLoading: boolean,
+    catalog: CatalogSettings,
+    copiedText: string | null,
+    onCopy: (text: string) => void,
+    onUse: (result: ScanResult) => void,
+    onUpdate: (result: ScanResult) => void,
+    onDelete: (ids: string[]) => void,
+    onClear: () => void,
+    onImport: (results: ScanResult[]) => void
+}) => {
+    const [filter, setFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [detailsId, setDetailsId] = useState<string | null>(null);
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+    const [importError, setImportError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const filtered = useMemo(() => filterHistory(results, filter), [results, filter]);
+    const visible = useMemo(() => filtered.slice(0, visibleCount), [filtered, visibleCount]);
+    // GS1 element strings and structured payloads are shown parsed instead of as raw text
+    const parsed = useMemo(
+        () => new Map(visible.map(result => [result.id, {
+            gs1: parseGs1(result.text, result.format),
+            payload: parsePayload(result.text),
+            gtin: getScanGtin(result),
+        }])),
+        [visible]
+    );
+    const lookups = useProductLookup(visible, catalog);
+    const totals = getScanTotals(results);
+    const isFiltered = filter.query !== '' || filter.from !== '' || filter.to !== '';
+    const selectedVisible = filtered.filter(r => selected.has(r.id));
+    const allSelected = filtered.length > 0 && selectedVisible.length === filtered.length;
+
+    const updateFilter = (key: keyof HistoryFilter, value: string) => {
+        setFilter(prev => ({ ...prev, [key]: value }));
+        setVisibleCount(PAGE_SIZE);
+    };
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(allSelected ? new Set() : new Set(filtered.map(r => r.id)));
+    };
+
+    const deleteSelected = () => {
+        if (!window.confirm(`Delete ${selectedVisible.length} selected scan(s)?`)) return;
+        onDelete(selectedVisible.map(r => r.id));
+        setSelected(new Set());
+    };
+
+    const clearAll = () => {
+        if (!window.confirm('Delete the entire scan history? This cannot be undone.')) return;
+        onClear();
+        setSelected(new Set());
+    };
+
+    // Exports what is currently shown, so a search or date range doubles as an export filter
+    const exportHistory = (type: 'csv' | 'json') => {
+        const date = new Date().toISOString().slice(0, 10);
+        const blob = type === 'csv'
+            ? new Blob([historyToCsv(filtered)], { type: 'text/csv;charset=utf-8' })
+            : new Blob([historyToJson(filtered)], { type: 'application/json' });
+        downloadBlob(blob, `scan-history_${date}.${type}`);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setImportError(null);
+        try {
+            const imported = parseHistoryFile(await file.text());
+            if (imported.length === 0) {
+                setImportError(`No scans found in ${file.name}.`);
+                return;
+            }
+            onImport(imported);
+            toast.success(`Imported ${imported.length} scan${imported.length === 1 ? '' : 's'}`);
+        } catch (err: any) {
+            console.error('History import error:', err);
+            setImportError(err.message || 'Could not read the history file.');
+        }
+    };
+
+    return (
+        <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-gray-200/50 p-6 sticky top-8">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+                    <CheckCircle className="w-6 h-6 text-green-600" />
+                    Scan History
+                </h2>
+                {results.length > 0 && (
+                    <span className="text-xs text-gray-500">
+                        {totals.distinct} codes · {totals.reads} reads
+                    </span>
+                )}
+            </div>
+
+            <div className="flex gap-2 mb-4">
+                <button
+                    onClick={() => exportHistory('csv')}
+                    disabled={filtered.length === 0}
+                    className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg transition-colors flex items-center justify-center gap-1 text-sm font-medium border border-gray-200 disabled:opacity-50"
+                >
+                    <FileDown className="w-4 h-4" />
+                    CSV
+                </button>
+                <button
+                    onClick={() => exportHistory('json')}
+                    disabled={filtered.length === 0}
+                    className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg transition-colors flex items-center justify-center gap-1 text-sm font-medium border border-gray-200 disabled:opacity-50"
+                >
+                    <FileDown className="w-4 h-4" />
+                    JSON
+                </button>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg transition-colors flex items-center justify-center gap-1 text-sm font-medium border border-gray-200"
+                >
+                    <FileUp className="w-4 h-4" />
+                    Import
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={handleImport}
+                    className="hidden"
+                />
+            </div>
+
+            {importError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+                    <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                    <p className="text-sm text-red-700">{importError}</p>
+                </div>
+            )}
+
+            <div className="space-y-2 mb-4">
+                <div className="relative">
+                    <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                        value={filter.query}
+                        onChange={(e) => updateFilter('query', e.target.value)}
+                        placeholder="Search codes, tags, notes"
+                        className={`${inputClassName} pl-9`}
+                    />
+                </div>
+                <div className="flex items-center gap-2">
+                    <input
+                        type="date"
+                        value={filter.from}
+                        onChange={(e) => updateFilter('from', e.target.value)}
+                        className={inputClassName}
+                        title="From"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                        type="date"
+                        value={filter.to}
+                        onChange={(e) => updateFilter('to', e.target.value)}
+                        className={inputClassName}
+                        title="To"
+                    />
+                </div>
+            </div>
+
+            {filtered.length > 0 && (
+                <div className="flex items-center justify-between mb-3 text-sm">
+                    <label className="flex items-center gap-2 text-gray-600 cursor-pointer">
+                        <input type="checkbox" checked={allSelected} onChange={toggleAll} className="rounded" />
+                        {isFiltered ? `${filtered.length} of ${results.length}` : `${results.length} scans`}
+                    </label>
+                    {selectedVisible.length > 0 ? (
+                        <button
+                            onClick={deleteSelected}
+                            className="text-red-500 hover:text-red-700 transition-colors flex items-center gap-1"
+                        >
+                            <Trash2 className="w-4 h-4" />
+                            Delete {selectedVisible.length}
+                        </button>
+                    ) : (
+                        <button onClick={clearAll} className="text-gray-500 hover:text-red-500 transition-colors">
+                            Clear all
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {isLoading ? (
+                <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin w-8 h-8 border-3 border-indigo-300 border-t-indigo-600 rounded-full"></div>
+                </div>
+            ) : filtered.length === 0 ? (
+                <div className="text-center py-8">
+                    <ScanLine className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+                    <p className="text-gray-500">{isFiltered ? 'No matching scans' : 'No scans yet'}</p>
+                    <p className="text-sm text-gray-400 mt-1">
+                        {isFiltered ? 'Try a different search or date range' : 'Scanned results will appear here'}
+                    </p>
+                </div>
+            ) : (
+                <div className="space-y-3 max-h-[32rem] overflow-y-auto">
+                    {visible.map((result) => (
+                        <div key={result.id} className="p-4 bg-green-50 border border-green-200 rounded-xl">
+                            <div className="flex items-start justify-between gap-2 mb-2">
+                                <label className="flex items-start gap-2 min-w-0 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={selected.has(result.id)}
+                                        onChange={() => toggleSelected(result.id)}
+                                        className="mt-1 rounded flex-shrink-0"
+                                    />
+                                    <span className="text-sm font-mono text-gray-700 break-all leading-relaxed">
+                                        {parsed.get(result.id).gs1 ? (
+                                            <span className="font-sans font-semibold">GS1 data</span>
+                                        ) : parsed.get(result.id).payload ? (
+                                            <span className="font-sans font-semibold">{parsed.get(result.id).payload.label}</span>
+                                        ) : result.text}
+                                        {result.count > 1 && (
+                                            <span className="ml-2 px-2 py-0.5 bg-green-600 text-white text-xs font-sans font-semibold rounded-full">
+                                                ×{result.count}
+                                            </span>
+                                        )}
+                                    </span>
+                                </label>
+                                <div className="flex items-center gap-2 flex-shrink-0">
+                                    <button
+                                        onClick={() => setDetailsId(detailsId === result.id ? null : result.id)}
+                                        className="text-green-600 hover:text-green-800 transition-colors"
+                                        title="Scan details"
+                                    >
+                                        <Info className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => setEditingId(editingId === result.id ? null : result.id)}
+                                        className="text-green-600 hover:text-green-800 transition-colors"
+                                        title="Edit tags and notes"
+                                    >
+                                        <Pencil className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => onCopy(result.text)}
+                                        className="text-green-600 hover:text-green-800 transition-colors"
+                                        title="Copy to clipboard"
+                                    >
+                                        {copiedText === result.text ? (
+                                            <CheckCircle className="w-4 h-4" />
+                                        ) : (
+                                            <Copy className="w-4 h-4" />
+                                        )}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {parsed.get(result.id).gs1 ? (
+                                <div className="mb-2">
+                                    <Gs1ElementTable data={parsed.get(result.id).gs1} />
+                                </div>
+                            ) : parsed.get(result.id).payload && (
+                                <div className="mb-2">
+                                    <PayloadCard payload={parsed.get(result.id).payload} text={result.text} onCopy={onCopy} />
+                                </div>
+                            )}
+
+                            {lookups[parsed.get(result.id).gtin] && (
+                                <div className="mb-2">
+                                    <ProductInfo lookup={lookups[parsed.get(result.id).gtin]} />
+                                </div>
+                            )}
+
+                            {detailsId === result.id && <EntryDetails result={result} />}
+
+                            {editingId === result.id ? (
+                                <EntryEditor
+                                    result={result}
+                                    onSave={(updated) => {
+                                        onUpdate(updated);
+                                        setEditingId(null);
+                                    }}
+                                    onCancel={() => setEditingId(null)}
+                                />
+                            ) : (result.tags || result.notes) && (
+                                <div className="mb-2 space-y-1">
+                                    {result.tags && (
+                                        <div className="flex flex-wrap gap-1">
+                                            {result.tags.map((tag) => (
+                                                <button
+                                                    key={tag}
+                                                    onClick={() => updateFilter('query', tag)}
+                                                    className="px-2 py-0.5 bg-white border border-green-200 text-green-700 text-xs rounded-full flex items-center gap-1 hover:bg-green-100 transition-colors"
+                                                >
+                                                    <Tag className="w-3 h-3" />
+                                                    {tag}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {result.notes && (
+                                        <p className="text-xs text-gray-600 whitespace-pre-wrap">{result.notes}</p>
+                                    )}
+                                </div>
+                            )}
+
+                            <div className="flex items-center justify-between">
+                                <span className="text-xs text-gray-500">
+                                    {result.format && (
+                                        <span className="inline-block mr-2 px-2 py-0.5 bg-white border border-green-200 text-green-700 font-semibold rounded">
+                                            {getSymbologyLabel(result.format)}
+                                        </span>
+                                    )}
+                                    {result.input === 'HID' && (
+                                        <span className="inline-block mr-2 px-2 py-0.5 bg-white border border-green-200 text-green-700 font-semibold rounded" title="Typed in by a hardware scanner">
+                                            HID
+                                        </span>
+                                    )}
+                                    {new Date(result.timestamp).toLocaleString()}
+                                    {result.source && (
+                                        <span className="flex items-center gap-1 truncate max-w-[10rem]" title={result.source.fileName}>
+                                            {result.source.thumbnail && (
+                                                <img
+                                                    src={result.source.thumbnail}
+                                                    alt=""
+                                                    className="w-6 h-6 object-cover rounded border border-gray-200 flex-shrink-0"
+                                                />
+                                            )}
+                                            {result.source.fileName}
+                                            {result.source.page && ` · p.${result.source.page}`}
+                                        </span>
+                                    )}
+                                </span>
+                                <button
+                                    onClick={() => onUse(result)}
+                                    className="text-xs text-indigo-600 hover:text-indigo-800 transition-colors flex items-center gap-1 font-medium"
+                                >
+                                    Use in generator
+                                    <ArrowRight className="w-3 h-3" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+
+                    {filtered.length > visibleCount && (
+                        <button
+                            onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+                            className="w-full py-2 text-sm text-indigo-600 hover:text-indigo-800 transition-colors font-medium"
+                        >
+                            Show more ({filtered.length - visibleCount} remaining)
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScanHistoryPanel;
@@ -0,0 +1,69 @@
+// src/widgets/BarcodeScanner/ScanSettingsPanel.tsx
+import React from 'react';
+import { Repeat, Vibrate, Volume2, VolumeX } from 'lucide-react';
+import { ScanSettings } from '@/lib/barcode/scanSession';
+
+const toggleClassName = (active: boolean) => `flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-colors border ${active
+    ? 'bg-indigo-600 text-white border-indigo-600'
+    : 'bg-gray-100 text-gray-600 border-gray-200 hover:bg-indigo-50'
+    }`;
+
+const ScanSettingsPanel = ({
+    settings,
+    onChange
+}: {
+    settings: ScanSettings,
+    onChange: (settings: ScanSettings) => void
+}) => {
+    const update = <K extends keyof ScanSettings>(key: K, value: ScanSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <button
+                onClick={() => update('continuous', !settings.continuous)}
+                className={toggleClassName(settings.continuous)}
+                title="Keep the camera open and count every code"
+            >
+                <Repeat className="w-4 h-4" />
+                Continuous
+            </button>
+
+            {settings.continuous && (
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                    Cooldown
+                    <input
+                        type="number"
+                        min={0}
+                        max={60}
+                        step={0.5}
+                        value={settings.cooldown}
+                        onChange={(e) => update('cooldown', Math.min(Math.max(Number(e.target.value), 0), 60))}
+                        className="w-20 p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50"
+                    />
+                    s
+                </label>
+            )}
+
+            <div className="flex gap-2 ml-auto">
+                <button
+                    onClick={() => update('sound', !settings.sound)}
+                    className={toggleClassName(settings.sound)}
+                    title={settings.sound ? 'Mute scan beep' : 'Beep on each scan'}
+                >
+                    {settings.sound ? <Volume2 className="w-4 h-4" /> : <VolumeX className="w-4 h-4" />}
+                </button>
+                <button
+                    onClick={() => update('vibrate', !settings.vibrate)}
+                    className={toggleClassName(settings.vibrate)}
+                    title={settings.vibrate ? 'Turn off vibration' : 'Vibrate on each scan'}
+                >
+                    <Vibrate className="w-4 h-4" />
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ScanSettingsPanel;
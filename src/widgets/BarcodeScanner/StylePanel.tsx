@@ -0,0 +1,190 @@
+// src/widgets/BarcodeScanner/StylePanel.tsx
+import React, { useState } from 'react';
+import { ChevronDown, Palette, RotateCcw } from 'lucide-react';
+import { getFormat, isMatrixFormat } from '@/lib/barcode/formats';
+import {
+    RenderOptions,
+    DEFAULT_RENDER_OPTIONS,
+    FONT_FAMILIES,
+    FONT_STYLES,
+    OPTION_RANGES,
+    TEXT_ALIGNS,
+    TEXT_POSITIONS,
+    resolveErrorCorrection
+} from '@/lib/barcode/render';
+
+const inputClassName = 'w-full p-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const NumberField = ({
+    label,
+    value,
+    min,
+    max,
+    step = 1,
+    onChange
+}: {
+    label: string,
+    value: number | undefined,
+    min: number,
+    max: number,
+    step?: number,
+    onChange: (value: number) => void
+}) => (
+    <div>
+        <label className="block text-xs font-semibold text-gray-600 mb-1">{label}</label>
+        <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(Math.min(Math.max(Number(e.target.value), min), max))}
+            className={inputClassName}
+        />
+    </div>
+);
+
+const ColorField = ({ label, value, onChange }: { label: string, value: string | undefined, onChange: (value: string) => void }) => (
+    <div>
+        <label className="block text-xs font-semibold text-gray-600 mb-1">{label}</label>
+        <div className="flex items-center gap-2">
+            <input
+                type="color"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                className="w-10 h-10 rounded-lg border border-gray-200 cursor-pointer bg-transparent"
+            />
+            <span className="text-sm font-mono text-gray-600">{value}</span>
+        </div>
+    </div>
+);
+
+const StylePanel = ({
+    format,
+    options,
+    onChange
+}: {
+    format: string,
+    options: RenderOptions,
+    onChange: (options: RenderOptions) => void
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const isMatrix = isMatrixFormat(format);
+    const errorCorrection = getFormat(format)?.errorCorrection;
+
+    const update = <K extends keyof RenderOptions>(key: K, value: RenderOptions[K]) => {
+        onChange({ ...options, [key]: value });
+    };
+
+    return (
+        <div className="border border-gray-200 rounded-xl">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="w-full flex items-center justify-between p-4 text-sm font-semibold text-gray-700"
+            >
+                <span className="flex items-center gap-2">
+                    <Palette className="w-4 h-4 text-indigo-600" />
+                    Styling
+                </span>
+                <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+            </button>
+
+            {isOpen && (
+                <div className="p-4 pt-0 space-y-4">
+                    <div className="grid grid-cols-2 gap-3">
+                        <ColorField label="Foreground" value={options.lineColor} onChange={(value) => update('lineColor', value)} />
+                        <ColorField label="Background" value={options.background} onChange={(value) => update('background', value)} />
+                    </div>
+
+                    {isMatrix ? (
+                        <div className="grid grid-cols-2 gap-3">
+                            {errorCorrection && (
+                                <div className="col-span-2">
+                                    <label className="block text-xs font-semibold text-gray-600 mb-1">Error correction</label>
+                                    <select
+                                        value={resolveErrorCorrection(format, options.errorCorrection)}
+                                        onChange={(e) => update('errorCorrection', e.target.value)}
+                                        className={inputClassName}
+                                    >
+                                        {errorCorrection.levels.map((level) => (
+                                            <option key={level.value} value={level.value}>{level.label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                            <NumberField label="Module size (px)" value={options.moduleSize} {...OPTION_RANGES.moduleSize} onChange={(value) => update('moduleSize', value)} />
+                            <NumberField label="Quiet zone (modules)" value={options.quietZone} {...OPTION_RANGES.quietZone} onChange={(value) => update('quietZone', value)} />
+                        </div>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-2 gap-3">
+                                <NumberField label="Module width (px)" value={options.width} {...OPTION_RANGES.width} step={0.1} onChange={(value) => update('width', value)} />
+                                <NumberField label="Bar height (px)" value={options.height} {...OPTION_RANGES.height} onChange={(value) => update('height', value)} />
+                                <NumberField label="Quiet zone (px)" value={options.margin} {...OPTION_RANGES.margin} onChange={(value) => update('margin', value)} />
+                                <NumberField label="Font size (px)" value={options.fontSize} {...OPTION_RANGES.fontSize} onChange={(value) => update('fontSize', value)} />
+                            </div>
+
+                            <label className="flex items-center gap-3 text-sm text-gray-700 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={options.displayValue}
+                                    onChange={(e) => update('displayValue', e.target.checked)}
+                                    className="text-indigo-600 focus:ring-indigo-500"
+                                />
+                                Show human-readable value
+                            </label>
+
+                            {options.displayValue && (
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-semibold text-gray-600 mb-1">Font</label>
+                                        <select value={options.font} onChange={(e) => update('font', e.target.value)} className={inputClassName}>
+                                            {FONT_FAMILIES.map((font) => (
+                                                <option key={font} value={font}>{font}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-semibold text-gray-600 mb-1">Font style</label>
+                                        <select value={options.fontOptions} onChange={(e) => update('fontOptions', e.target.value)} className={inputClassName}>
+                                            {FONT_STYLES.map((style) => (
+                                                <option key={style.value} value={style.value}>{style.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-semibold text-gray-600 mb-1">Text align</label>
+                                        <select value={options.textAlign} onChange={(e) => update('textAlign', e.target.value)} className={inputClassName}>
+                                            {TEXT_ALIGNS.map((align) => (
+                                                <option key={align.value} value={align.value}>{align.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-semibold text-gray-600 mb-1">Text position</label>
+                                        <select value={options.textPosition} onChange={(e) => update('textPosition', e.target.value)} className={inputClassName}>
+                                            {TEXT_POSITIONS.map((position) => (
+                                                <option key={position.value} value={position.value}>{position.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <NumberField label="Text margin (px)" value={options.textMargin} {...OPTION_RANGES.textMargin} onChange={(value) => update('textMargin', value)} />
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    <button
+                        onClick={() => onChange(DEFAULT_RENDER_OPTIONS)}
+                        className="text-sm text-gray-500 hover:text-indigo-600 transition-colors flex items-center gap-1"
+                    >
+                        <RotateCcw className="w-4 h-4" />
+                        Reset to defaults
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StylePanel;
@@ -0,0 +1,169 @@
+// src/widgets/BarcodeScanner/SyncStatus.tsx
+import React, { useState } from 'react';
+import {
+    AlertCircle,
+    CheckCircle,
+    CloudOff,
+    CloudUpload,
+    RefreshCw,
+    RotateCcw,
+    Trash2,
+    X
+} from 'lucide-react';
+import { SyncJob, SyncSettings } from '@/lib/barcode/syncQueue';
+import { CountSession } from '@/lib/barcode/inventory';
+import { ConflictResolution } from '@/lib/hooks/useSyncQueue';
+
+const describeJob = (job: SyncJob) =>
+    job.kind === 'scan'
+        ? `Scan ${(job.payload as ScanResult).text}`
+        : `Count at ${(job.payload as CountSession).location}`;
+
+const SyncStatus = ({
+    jobs,
+    isOnline,
+    isSyncing,
+    lastSyncedAt,
+    settings,
+    onSettingsChange,
+    onSyncNow,
+    onRetry,
+    onDiscard,
+    onResolve
+}: {
+    jobs: SyncJob[],
+    isOnline: boolean,
+    isSyncing: boolean,
+    lastSyncedAt: number | null,
+    settings: SyncSettings,
+    onSettingsChange: (settings: SyncSettings) => void,
+    onSyncNow: () => void,
+    onRetry: (id: string) => void,
+    onDiscard: (id: string) => void,
+    onResolve: (id: string, resolution: ConflictResolution) => void
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const problems = jobs.filter(job => job.status !== 'pending').length;
+
+    const pill = !isOnline
+        ? { label: jobs.length > 0 ? `Offline · ${jobs.length} queued` : 'Offline', icon: CloudOff, className: 'bg-gray-100 text-gray-700 border-gray-200' }
+        : problems > 0
+            ? { label: `${problems} need attention`, icon: AlertCircle, className: 'bg-red-50 text-red-700 border-red-200' }
+            : isSyncing || jobs.length > 0
+                ? { label: jobs.length > 0 ? `Syncing ${jobs.length}` : 'Syncing', icon: RefreshCw, className: 'bg-amber-50 text-amber-700 border-amber-200' }
+                : { label: 'All synced', icon: CheckCircle, className: 'bg-green-50 text-green-700 border-green-200' };
+    const PillIcon = pill.icon;
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm font-medium transition-colors ${pill.className}`}
+            >
+                <PillIcon className={`w-4 h-4 ${isSyncing && isOnline ? 'animate-spin' : ''}`} />
+                {pill.label}
+            </button>
+
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-200 p-4 z-20 text-left space-y-3">
+                    <div className="flex items-center justify-between">
+                        <h3 className="font-semibold text-gray-800">Server sync</h3>
+                        <button onClick={() => setIsOpen(false)} className="text-gray-400 hover:text-gray-600" title="Close">
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+
+                    <p className="text-xs text-gray-500">
+                        {isOnline ? 'Online' : 'Offline: changes are kept on this device and upload when the connection returns.'}
+                        {isOnline && lastSyncedAt && ` · last sync ${new Date(lastSyncedAt).toLocaleTimeString()}`}
+                    </p>
+
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={settings.uploadScans}
+                            onChange={(e) => onSettingsChange({ ...settings, uploadScans: e.target.checked })}
+                            className="rounded text-indigo-600 focus:ring-indigo-500"
+                        />
+                        Upload scans to the server
+                    </label>
+
+                    {jobs.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-2">Nothing waiting to upload.</p>
+                    ) : (
+                        <ul className="space-y-2 max-h-72 overflow-y-auto">
+                            {jobs.map((job) => (
+                                <li key={job.id} className="p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                                    <div className="flex items-start gap-2">
+                                        <span className="flex-1 text-gray-800 break-all">{describeJob(job)}</span>
+                                        {job.status !== 'conflict' && (
+                                            <button
+                                                onClick={() => onRetry(job.id)}
+                                                className="text-gray-400 hover:text-indigo-600"
+                                                title="Retry now"
+                                            >
+                                                <RotateCcw className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => window.confirm('Discard this upload? The change stays on this device only.') && onDiscard(job.id)}
+                                            className="text-gray-400 hover:text-red-600"
+                                            title="Discard"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+
+                                    {job.status === 'pending' && (
+                                        <p className="text-xs text-gray-500 mt-1">Waiting to upload</p>
+                                    )}
+                                    {job.status === 'failed' && (
+                                        <p className="text-xs text-red-600 mt-1">Failed after {job.attempts} attempt{job.attempts === 1 ? '' : 's'}: {job.error}</p>
+                                    )}
+                                    {job.status === 'conflict' && job.remote && (
+                                        <div className="mt-1 space-y-2">
+                                            <p className="text-xs text-red-600">
+                                                Someone saved this count on {new Date(job.remote.updatedAt).toLocaleString()} since your last sync.
+                                            </p>
+                                            <div className="flex flex-wrap gap-1">
+                                                <button
+                                                    onClick={() => onResolve(job.id, 'overwrite')}
+                                                    className="text-xs px-2 py-1 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700"
+                                                >
+                                                    Keep mine
+                                                </button>
+                                                <button
+                                                    onClick={() => onResolve(job.id, 'server')}
+                                                    className="text-xs px-2 py-1 rounded-lg bg-gray-100 text-gray-700 border border-gray-200 hover:bg-gray-200"
+                                                >
+                                                    Use server copy
+                                                </button>
+                                                <button
+                                                    onClick={() => onResolve(job.id, 'copy')}
+                                                    className="text-xs px-2 py-1 rounded-lg bg-gray-100 text-gray-700 border border-gray-200 hover:bg-gray-200"
+                                                >
+                                                    Save as new count
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <button
+                        onClick={onSyncNow}
+                        disabled={!isOnline || isSyncing}
+                        className="w-full text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 rounded-lg transition-colors flex items-center justify-center gap-2 font-medium border border-gray-200 disabled:opacity-50"
+                    >
+                        <CloudUpload className="w-4 h-4" />
+                        Sync now
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SyncStatus;
@@ -0,0 +1,102 @@
+// src/widgets/BarcodeScanner/VerificationPanel.tsx
+import React from 'react';
+import { AlertCircle, ShieldCheck } from 'lucide-react';
+import { DPI_PRESETS } from '@/lib/barcode/render';
+import { VerificationGrade, VerificationReport } from '@/lib/barcode/verify';
+
+const GRADE_STYLES: Record<VerificationGrade, string> = {
+    A: 'bg-green-100 text-green-700',
+    B: 'bg-green-100 text-green-700',
+    C: 'bg-amber-100 text-amber-700',
+    D: 'bg-amber-100 text-amber-700',
+    F: 'bg-red-100 text-red-700',
+};
+
+const GRADE_SUMMARIES: Record<VerificationGrade, string> = {
+    A: 'Scans reliably',
+    B: 'Scans reliably',
+    C: 'Scans, with reduced margin for print defects',
+    D: 'May not scan on every reader',
+    F: 'Unlikely to scan',
+};
+
+const GradeBadge = ({ grade, large = false }: { grade: VerificationGrade | null, large?: boolean }) => (
+    <span
+        className={`inline-flex items-center justify-center rounded-lg font-bold flex-shrink-0 ${large ? 'w-10 h-10 text-xl' : 'w-6 h-6 text-xs'} ${grade ? GRADE_STYLES[grade] : 'bg-gray-100 text-gray-400'}`}
+    >
+        {grade ?? '–'}
+    </span>
+);
+
+const VerificationPanel = ({
+    report,
+    isVerifying,
+    error,
+    dpi,
+    onDpiChange
+}: {
+    report: VerificationReport | null,
+    isVerifying: boolean,
+    error: string | null,
+    dpi: number,
+    onDpiChange: (dpi: number) => void
+}) => {
+    return (
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-xl space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4 text-indigo-600" />
+                    Verification
+                </h3>
+                <label className="text-sm text-gray-600 flex items-center gap-2">
+                    Print resolution
+                    <select
+                        value={dpi}
+                        onChange={(e) => onDpiChange(Number(e.target.value))}
+                        className="px-2 py-1 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-white"
+                    >
+                        {DPI_PRESETS.map((preset) => (
+                            <option key={preset} value={preset}>{preset} dpi</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {error ? (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-xl flex items-center gap-3">
+                    <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                    <p className="text-sm text-red-700">{error}</p>
+                </div>
+            ) : isVerifying || !report ? (
+                <p className="text-sm text-gray-500 flex items-center gap-2">
+                    <span className="animate-spin w-4 h-4 border-2 border-indigo-300 border-t-indigo-600 rounded-full"></span>
+                    Reading the barcode back...
+                </p>
+            ) : (
+                <>
+                    <div className="flex items-center gap-3">
+                        <GradeBadge grade={report.grade} large />
+                        <div>
+                            <div className="font-medium text-gray-800">{GRADE_SUMMARIES[report.grade]}</div>
+                            <div className="text-xs text-gray-500">Overall grade is the lowest of the checks below</div>
+                        </div>
+                    </div>
+
+                    <ul className="space-y-2">
+                        {report.checks.map((check) => (
+                            <li key={check.id} className="flex items-start gap-3 text-sm">
+                                <GradeBadge grade={check.grade} />
+                                <div>
+                                    <span className="font-medium text-gray-700">{check.label}: </span>
+                                    <span className="text-gray-600">{check.detail}</span>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default VerificationPanel;
@@ -0,0 +1,202 @@
+// src/widgets/BarcodeScanner/WebhookPanel.tsx
+import React from 'react';
+import {
+    AlertCircle,
+    CheckCircle,
+    Clock,
+    RotateCcw,
+    Send,
+    Trash2,
+    XCircle
+} from 'lucide-react';
+import {
+    MAX_WEBHOOK_ATTEMPTS,
+    WEBHOOK_METHODS,
+    WEBHOOK_PLACEHOLDERS,
+    WebhookDelivery,
+    WebhookMethod,
+    WebhookSettings,
+    checkWebhookSettings
+} from '@/lib/barcode/webhook';
+
+const inputClassName = 'w-full p-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50';
+
+const describeOutcome = (delivery: WebhookDelivery) => {
+    if (delivery.status === 'delivered') {
+        return `Delivered${delivery.responseStatus ? ` · HTTP ${delivery.responseStatus}` : ''}`;
+    }
+    if (delivery.status === 'failed') {
+        return `Failed after ${delivery.attempts} attempt${delivery.attempts === 1 ? '' : 's'}: ${delivery.error}`;
+    }
+    if (delivery.attempts === 0) return 'Sending...';
+    return `${delivery.error} · attempt ${delivery.attempts + 1} of ${delivery.maxAttempts} at ${new Date(delivery.nextAttemptAt ?? Date.now()).toLocaleTimeString()}`;
+};
+
+const STATUS_ICONS = {
+    pending: <Clock className="w-4 h-4 text-amber-500 flex-shrink-0" />,
+    delivered: <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />,
+    failed: <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />,
+};
+
+const WebhookPanel = ({
+    settings,
+    onChange,
+    deliveries,
+    onTest,
+    onRetry,
+    onDiscard,
+    onClearLog
+}: {
+    settings: WebhookSettings,
+    onChange: (settings: WebhookSettings) => void,
+    deliveries: WebhookDelivery[],
+    onTest: () => void,
+    onRetry: (id: string) => void,
+    onDiscard: (id: string) => void,
+    onClearLog: () => void
+}) => {
+    const update = <K extends keyof WebhookSettings>(key: K, value: WebhookSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    // Not nagged about before an endpoint is entered
+    const settingsError = settings.enabled || settings.url ? checkWebhookSettings(settings) : null;
+    const hasFinished = deliveries.some(d => d.status !== 'pending');
+
+    return (
+        <div className="space-y-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                    type="checkbox"
+                    checked={settings.enabled}
+                    onChange={(e) => update('enabled', e.target.checked)}
+                    className="rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                Forward every accepted scan to this endpoint
+            </label>
+
+            <div className="flex gap-2">
+                <select
+                    value={settings.method}
+                    onChange={(e) => update('method', e.target.value as WebhookMethod)}
+                    className={`${inputClassName} w-auto`}
+                >
+                    {WEBHOOK_METHODS.map((method) => (
+                        <option key={method} value={method}>{method}</option>
+                    ))}
+                </select>
+                <input
+                    value={settings.url}
+                    onChange={(e) => update('url', e.target.value)}
+                    placeholder="https://example.com/scans"
+                    className={`${inputClassName} font-mono`}
+                />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">Headers</label>
+                    <textarea
+                        value={settings.headers}
+                        onChange={(e) => update('headers', e.target.value)}
+                        placeholder="Authorization: Bearer ..."
+                        rows={5}
+                        className={`${inputClassName} font-mono resize-y`}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs font-semibold text-gray-600 mb-1">Body</label>
+                    <textarea
+                        value={settings.bodyTemplate}
+                        onChange={(e) => update('bodyTemplate', e.target.value)}
+                        rows={5}
+                        spellCheck={false}
+                        className={`${inputClassName} font-mono resize-y`}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">JSON with {WEBHOOK_PLACEHOLDERS.join(', ')}</p>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                    Attempts
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_WEBHOOK_ATTEMPTS}
+                        value={settings.maxAttempts}
+                        onChange={(e) => update('maxAttempts', Math.min(Math.max(Math.round(Number(e.target.value)), 1), MAX_WEBHOOK_ATTEMPTS))}
+                        className="w-20 p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent bg-gray-50/50"
+                    />
+                </label>
+                <button
+                    onClick={onTest}
+                    disabled={!settings.url || !!settingsError}
+                    className="text-sm px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors flex items-center gap-2 font-medium border border-gray-200 disabled:opacity-50 ml-auto"
+                >
+                    <Send className="w-4 h-4" />
+                    Send test scan
+                </button>
+            </div>
+
+            {settingsError && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-xl flex items-start gap-2">
+                    <AlertCircle className="w-4 h-4 text-red-500 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm text-red-700">{settingsError}</p>
+                </div>
+            )}
+
+            {deliveries.length > 0 && (
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-sm font-semibold text-gray-700">Delivery log</h4>
+                        {hasFinished && (
+                            <button
+                                onClick={onClearLog}
+                                className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+                            >
+                                Clear finished
+                            </button>
+                        )}
+                    </div>
+                    <ul className="space-y-2 max-h-72 overflow-y-auto">
+                        {deliveries.map((delivery) => (
+                            <li key={delivery.id} className="p-2 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                                <div className="flex items-start gap-2">
+                                    {STATUS_ICONS[delivery.status]}
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-mono text-gray-800 truncate" title={delivery.text}>{delivery.text}</div>
+                                        <div className={`text-xs ${delivery.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                                            {describeOutcome(delivery)}
+                                        </div>
+                                        <div className="text-xs text-gray-400 truncate" title={delivery.url}>
+                                            {new Date(delivery.createdAt).toLocaleString()} · {delivery.method} {delivery.url}
+                                        </div>
+                                    </div>
+                                    {delivery.status === 'failed' && (
+                                        <button
+                                            onClick={() => onRetry(delivery.id)}
+                                            className="text-gray-400 hover:text-indigo-600"
+                                            title="Retry now"
+                                        >
+                                            <RotateCcw className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => onDiscard(delivery.id)}
+                                        className="text-gray-400 hover:text-red-600"
+                                        title={delivery.status === 'pending' ? 'Cancel' : 'Remove from log'}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WebhookPanel;
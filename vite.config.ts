@@ -1,19 +1,100 @@
-import { defineConfig } from "vite";
+import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import tsconfigPaths from "vite-tsconfig-paths";
 import tailwindcss from "@tailwindcss/vite";
 import path from "path";
+import fs from "fs";
+import crypto from "crypto";
 import basicSsl from '@vitejs/plugin-basic-ssl'
 
+// Emits /sw.js from src/service-worker.js with the files of this build to precache
+function serviceWorker(): Plugin {
+  return {
+    name: "barcode-toolkit-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter((file) => !file.endsWith(".map")).map((file) => `/${file}`);
+      const version = crypto.createHash("sha256").update(files.sort().join("\n")).digest("hex").slice(0, 12);
+      const template = fs.readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf8");
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: template
+          .replace("self.__PRECACHE_MANIFEST", JSON.stringify(files))
+          .replace("__CACHE_VERSION__", version),
+      });
+    },
+  };
+}
+
+// Packages the emitted type declarations import. The bundle inlines their code, but a
+// consumer type-checking against dist-lib needs them installed.
+const LIBRARY_TYPE_DEPENDENCIES = ["@zxing/library", "clsx", "jsbarcode"];
+
+// Emits dist-lib/package.json so the library build can be installed or published on its own;
+// the app's package.json stays private. Types come from `tsc -p tsconfig.lib.json`.
+function libraryManifest(): Plugin {
+  return {
+    name: "barcode-toolkit-library-manifest",
+    apply: "build",
+    generateBundle() {
+      const app = JSON.parse(fs.readFileSync(path.resolve(__dirname, "package.json"), "utf8"));
+      const manifest = {
+        name: "barcode-toolkit",
+        version: app.version,
+        type: "module",
+        module: "./barcode-toolkit.js",
+        types: "./types/embed/index.d.ts",
+        exports: {
+          ".": {
+            types: "./types/embed/index.d.ts",
+            import: "./barcode-toolkit.js",
+          },
+        },
+        dependencies: Object.fromEntries(LIBRARY_TYPE_DEPENDENCIES.map((name) => [name, app.dependencies[name]])),
+        peerDependencies: {
+          react: app.dependencies.react,
+          "react-dom": app.dependencies["react-dom"],
+        },
+      };
+      this.emitFile({ type: "asset", fileName: "package.json", source: `${JSON.stringify(manifest, null, 2)}\n` });
+    },
+  };
+}
+
+// `vite build --mode lib` bundles src/embed as an ES module library for other apps.
+// React stays external so the host app's copy is used.
+const libraryConfig = defineConfig({
+  plugins: [tsconfigPaths(), react(), libraryManifest()],
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  publicDir: false,
+  build: {
+    outDir: "dist-lib",
+    lib: {
+      entry: path.resolve(__dirname, "src/embed/index.ts"),
+      formats: ["es"],
+      fileName: "barcode-toolkit",
+    },
+    rollupOptions: {
+      external: ["react", "react-dom", "react/jsx-runtime"],
+    },
+  },
+});
+
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => mode === "lib" ? libraryConfig : {
   server: {
     // use the below two to use https for mobile qr permissions
     https: {},
     host: true,
     port: 3000,
   },
-  plugins: [tsconfigPaths(), react(), tailwindcss() , basicSsl()], // add " , basicSsl() " to use https for mobile qr permissions
+  plugins: [tsconfigPaths(), react(), tailwindcss() , basicSsl(), serviceWorker()], // add " , basicSsl() " to use https for mobile qr permissions
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),